@@ -0,0 +1,158 @@
+import type { IAdmin } from "../src/lib/models/admin";
+import {
+  base32Encode,
+  generateTotp,
+  totpCounter,
+  verifyTotp,
+  type TotpOptions,
+} from "../src/lib/totp";
+import {
+  confirmTotpEnrollment,
+  startTotpEnrollment,
+  verifySecondFactor,
+} from "../src/lib/admin-mfa";
+
+/**
+ * TOTP Check
+ *
+ * Runs the admin two-factor code against a fixed clock, offline: the RFC 6238
+ * test vectors (Appendix B), the ±1 step drift window, and the replay counter
+ * and single-use recovery codes in lib/admin-mfa. Needs no database or
+ * network. Exits non-zero if anything doesn't match.
+ *
+ *   npm run check:totp
+ */
+
+// RFC 6238 Appendix B - the seed repeats "1234567890" to the hash's key size
+const SEEDS: Record<NonNullable<TotpOptions["algorithm"]>, string> = {
+  sha1: "12345678901234567890",
+  sha256: "12345678901234567890123456789012",
+  sha512: "1234567890123456789012345678901234567890123456789012345678901234",
+};
+
+// [unix seconds, sha1, sha256, sha512], 8 digits with a 30 second step
+const VECTORS: [number, string, string, string][] = [
+  [59, "94287082", "46119246", "90693936"],
+  [1111111109, "07081804", "68084774", "25091201"],
+  [1111111111, "14050471", "67062674", "99943326"],
+  [1234567890, "89005924", "91819424", "93441116"],
+  [2000000000, "69279037", "90698825", "38618901"],
+  [20000000000, "65353130", "77737706", "47863826"],
+];
+
+// The clock the drift and replay checks run at
+const NOW = 1234567890 * 1000;
+const STEP_MS = 30 * 1000;
+
+let failures = 0;
+
+function check(label: string, actual: unknown, expected: unknown) {
+  if (actual === expected) {
+    console.log(`  ✓ ${label}`);
+  } else {
+    failures += 1;
+    console.log(
+      `  ✗ ${label}: got ${JSON.stringify(actual)}, expected ${JSON.stringify(
+        expected
+      )}`
+    );
+  }
+}
+
+function checkVectors() {
+  console.log("\n▶ RFC 6238 test vectors");
+  for (const [seconds, ...codes] of VECTORS) {
+    (["sha1", "sha256", "sha512"] as const).forEach((algorithm, index) => {
+      const secret = base32Encode(Buffer.from(SEEDS[algorithm]));
+      check(
+        `${algorithm} at ${seconds}`,
+        generateTotp(secret, seconds * 1000, { algorithm, digits: 8 }),
+        codes[index]
+      );
+    });
+  }
+}
+
+function checkDriftWindow() {
+  console.log("\n▶ Drift window");
+  const secret = base32Encode(Buffer.from(SEEDS.sha1));
+  const code = generateTotp(secret, NOW);
+  const counter = totpCounter(NOW);
+
+  check("same step", verifyTotp(secret, code, NOW), counter);
+  check("one step late", verifyTotp(secret, code, NOW + STEP_MS), counter);
+  check("one step early", verifyTotp(secret, code, NOW - STEP_MS), counter);
+  check("two steps late", verifyTotp(secret, code, NOW + 2 * STEP_MS), null);
+  check("two steps early", verifyTotp(secret, code, NOW - 2 * STEP_MS), null);
+  check(
+    "one step late with window 0",
+    verifyTotp(secret, code, NOW + STEP_MS, { window: 0 }),
+    null
+  );
+  check("wrong length", verifyTotp(secret, code.slice(1), NOW), null);
+}
+
+function checkSecondFactor() {
+  console.log("\n▶ Enrollment, replay and recovery codes");
+  // Only the fields admin-mfa reads and writes - nothing is saved
+  const admin = {
+    username: "totp-check",
+    totp_enabled: false,
+    recovery_code_hashes: [],
+  } as unknown as IAdmin;
+
+  const { secret, uri } = startTotpEnrollment(admin);
+  check("provisioning URI carries the secret", uri.includes(secret), true);
+
+  const enrollCode = generateTotp(secret, NOW);
+  const recoveryCodes = confirmTotpEnrollment(admin, enrollCode, NOW);
+  check("enrolled", admin.totp_enabled, true);
+  check("recovery codes issued", recoveryCodes?.length, 10);
+  check("last counter stored", admin.totp_last_counter, totpCounter(NOW));
+
+  check(
+    "enrollment code can't be replayed",
+    verifySecondFactor(admin, enrollCode, NOW),
+    null
+  );
+
+  const nextCode = generateTotp(secret, NOW + STEP_MS);
+  check(
+    "next step's code",
+    verifySecondFactor(admin, nextCode, NOW + STEP_MS),
+    "totp"
+  );
+  check(
+    "same code again",
+    verifySecondFactor(admin, nextCode, NOW + STEP_MS),
+    null
+  );
+  check(
+    "earlier step's code within the window",
+    verifySecondFactor(admin, enrollCode, NOW + STEP_MS),
+    null
+  );
+
+  const [recoveryCode] = recoveryCodes || [""];
+  check(
+    "recovery code",
+    verifySecondFactor(admin, recoveryCode.toUpperCase(), NOW),
+    "recovery"
+  );
+  check(
+    "recovery code used up",
+    verifySecondFactor(admin, recoveryCode, NOW),
+    null
+  );
+  check("recovery codes left", admin.recovery_code_hashes.length, 9);
+}
+
+checkVectors();
+checkDriftWindow();
+checkSecondFactor();
+
+if (failures > 0) {
+  console.log(`\n${failures} check(s) failed`);
+  process.exit(1);
+}
+console.log("\nAll TOTP checks passed");
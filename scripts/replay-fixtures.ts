@@ -0,0 +1,251 @@
+import path from "path";
+import type {
+  ScriptedExpectation,
+  ScriptedFixture,
+} from "../src/app/api/chat/ai/scripted-model";
+
+/**
+ * Fixture Replay
+ *
+ * Plays scripted model fixtures through the real /api/chat handler against a
+ * local MongoDB and checks what each turn left behind: the tools the model
+ * ran, the session state, and any fields listed in the turn's "expect" block
+ * (see ScriptedExpectation). Exits non-zero if anything doesn't match.
+ *
+ *   MONGODB_URI=mongodb://localhost:27017/zuckies_replay npm run replay:fixtures
+ *   MONGODB_URI=... npm run replay:fixtures -- fixtures/scripted/onboarding.json
+ *
+ * Fixtures run in the order given and share the database - recovery expects
+ * the account onboarding created. Sessions, applicants and throttle counters
+ * for every email the fixtures sign up with are deleted first. Active custom
+ * questions change the onboarding path, so use a database without any.
+ */
+
+const DEFAULT_FIXTURES = [
+  "fixtures/scripted/onboarding.json",
+  "fixtures/scripted/recovery.json",
+  "fixtures/scripted/beginner.json",
+];
+
+type StreamEvent = Record<string, any>;
+
+// Value at a dot path, e.g. "applicant_data.github"
+const valueAt = (doc: unknown, dotPath: string) =>
+  dotPath
+    .split(".")
+    .reduce<any>((value, key) => (value == null ? undefined : value[key]), doc);
+
+const same = (actual: unknown, expected: unknown) =>
+  expected === null
+    ? actual == null
+    : JSON.stringify(actual) === JSON.stringify(expected);
+
+async function main() {
+  const uri = process.env.MONGODB_URI;
+  if (!uri || !/localhost|127\.0\.0\.1/.test(uri)) {
+    console.error(
+      "Set MONGODB_URI to a local MongoDB - replaying deletes the fixture users' data."
+    );
+    process.exit(1);
+  }
+
+  const fixturePaths = process.argv.slice(2).length
+    ? process.argv.slice(2)
+    : DEFAULT_FIXTURES;
+
+  // Config picks the scripted model when this is set at import time
+  process.env.SCRIPTED_MODEL_FIXTURE = fixturePaths[0];
+
+  const { default: mongoose } = await import("mongoose");
+  const { NextRequest } = await import("next/server");
+  const { default: connectDB } = await import("../src/lib/mongodb");
+  const { signToken } = await import("../src/lib/jwt");
+  const { default: Session } = await import("../src/lib/models/session");
+  const { default: Applicant } = await import("../src/lib/models/applicant");
+  const { default: AuthThrottle } = await import(
+    "../src/lib/models/auth-throttle"
+  );
+  const { loadFixture, setScriptedFixture } = await import(
+    "../src/app/api/chat/ai/scripted-model"
+  );
+  const { verifySecretPhrase } = await import("../src/app/api/chat/ai/utils");
+  const { POST } = await import("../src/app/api/chat/route");
+
+  await connectDB();
+
+  const fixtures: [string, ScriptedFixture][] = fixturePaths.map((file) => [
+    file,
+    loadFixture(file),
+  ]);
+
+  // Start from a clean slate for everyone the fixtures sign up as
+  const emails = new Set<string>();
+  for (const [, fixture] of fixtures) {
+    for (const turn of fixture.turns) {
+      for (const call of (turn.tool_calls || []).flat()) {
+        const email = call.input?.email;
+        if (typeof email === "string") emails.add(email.toLowerCase().trim());
+      }
+    }
+  }
+  await Promise.all([
+    Session.deleteMany({ "applicant_data.email": { $in: [...emails] } }),
+    Applicant.deleteMany({ email: { $in: [...emails] } }),
+    AuthThrottle.deleteMany({
+      key: {
+        $in: [...emails].flatMap((email) => [
+          `email:${email}`,
+          `email:recovery:${email}`,
+        ]),
+      },
+    }),
+  ]);
+
+  let failures = 0;
+
+  for (const [file, fixture] of fixtures) {
+    console.log(`\n▶ ${path.basename(file)}`);
+    setScriptedFixture(file);
+
+    // A new conversation starts at the first onboarding question
+    const sessionId = crypto.randomUUID();
+    await Session.create({ session_id: sessionId });
+    let token = signToken({
+      email: `pending+${sessionId}@sessions.local`,
+      sessionId,
+    });
+
+    for (const [index, turn] of fixture.turns.entries()) {
+      const response = await POST(
+        new NextRequest("http://localhost/api/chat", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            token,
+            message_id: crypto.randomUUID(),
+            user_input: turn.user,
+          }),
+        })
+      );
+
+      const events: StreamEvent[] = (await response.text())
+        .split("\n\n")
+        .filter((line) => line.startsWith("data: "))
+        .map((line) => JSON.parse(line.slice("data: ".length)));
+      const done = events.find((event) => event.type === "done");
+      const reply = events
+        .filter((event) => event.type === "chunk")
+        .map((event) => event.text)
+        .join("");
+
+      const problems: string[] = [];
+      if (!done) {
+        problems.push(`no done event (HTTP ${response.status})`);
+      } else {
+        token = done.token;
+      }
+
+      // The model only ran tools if the handler streamed them, in order
+      const expectedTools = (turn.tool_calls || []).flat().map((c) => c.name);
+      const ranTools = events
+        .filter((event) => event.type === "tool")
+        .map((event) => event.name);
+      if (!same(ranTools, expectedTools)) {
+        problems.push(
+          `tools ran [${ranTools.join(", ")}], expected [${expectedTools.join(
+            ", "
+          )}]`
+        );
+      }
+      if (reply.trim() !== turn.reply.trim()) {
+        problems.push(`reply was "${reply}" - the model call failed`);
+      }
+
+      const expect: ScriptedExpectation = turn.expect || {};
+      if (done && expect.state && done.server_state.state !== expect.state) {
+        problems.push(
+          `state ${done.server_state.state}, expected ${expect.state}`
+        );
+      }
+      if (
+        done &&
+        expect.action !== undefined &&
+        !same(done.server_state.action, expect.action)
+      ) {
+        problems.push(
+          `action ${done.server_state.action}, expected ${expect.action}`
+        );
+      }
+
+      const session = await Session.findOne({ session_id: sessionId }).lean();
+      for (const [field, value] of Object.entries(expect.session || {})) {
+        const actual = valueAt(session, field);
+        if (!same(actual, value)) {
+          problems.push(
+            `session.${field} is ${JSON.stringify(
+              actual
+            )}, expected ${JSON.stringify(value)}`
+          );
+        }
+      }
+
+      if (expect.applicant !== undefined || expect.secret_phrase) {
+        const email = session?.applicant_data?.email;
+        const applicant = email
+          ? await Applicant.findOne({ email }).lean()
+          : null;
+        if (expect.applicant === null && applicant) {
+          problems.push("an Applicant exists, expected none yet");
+        }
+        if (expect.applicant && !applicant) {
+          problems.push(`no Applicant for ${email}`);
+        }
+        for (const [field, value] of Object.entries(expect.applicant || {})) {
+          const actual = valueAt(applicant, field);
+          if (applicant && !same(actual, value)) {
+            problems.push(
+              `applicant.${field} is ${JSON.stringify(
+                actual
+              )}, expected ${JSON.stringify(value)}`
+            );
+          }
+        }
+        if (expect.secret_phrase) {
+          const { valid } = await verifySecretPhrase(
+            expect.secret_phrase,
+            applicant?.secret_phrase_hash
+          );
+          if (!valid) {
+            problems.push(
+              `the applicant's secret phrase isn't "${expect.secret_phrase}"`
+            );
+          }
+        }
+      }
+
+      const label = `${index + 1}. "${turn.user}"`;
+      if (problems.length > 0) {
+        failures += 1;
+        console.log(`  ✗ ${label}`);
+        for (const problem of problems) console.log(`      ${problem}`);
+      } else {
+        console.log(
+          `  ✓ ${label}${done ? ` -> ${done.server_state.state}` : ""}`
+        );
+      }
+    }
+  }
+
+  await mongoose.disconnect();
+
+  if (failures > 0) {
+    console.log(`\n${failures} turn(s) failed`);
+    process.exit(1);
+  }
+  console.log("\nAll fixtures replayed");
+}
+
+main().catch((error) => {
+  console.error("Replay failed:", error);
+  process.exit(1);
+});
@@ -8,6 +8,8 @@ import AdminInterface from "@/components/admin-interface";
 export default function AdminPage() {
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [adminName, setAdminName] = useState("Admin");
+  const [adminUsername, setAdminUsername] = useState("");
+  const [adminRole, setAdminRole] = useState("reviewer");
   const [mounted, setMounted] = useState(false);
   const router = useRouter();
 
@@ -19,29 +21,50 @@ export default function AdminPage() {
       setIsAuthenticated(true);
       const storedName = localStorage.getItem("admin_name");
       if (storedName) setAdminName(storedName);
+      setAdminUsername(localStorage.getItem("admin_username") || "");
+      const storedRole = localStorage.getItem("admin_role");
+      if (storedRole) setAdminRole(storedRole);
     }
   }, []);
 
   if (!mounted) return null;
 
-  function handleLogin(token: string, name: string) {
+  function handleLogin(
+    token: string,
+    username: string,
+    name: string,
+    role: string
+  ) {
     localStorage.setItem("admin_token", token);
+    localStorage.setItem("admin_username", username);
     localStorage.setItem("admin_name", name);
+    localStorage.setItem("admin_role", role);
     setAdminName(name);
+    setAdminUsername(username);
+    setAdminRole(role);
     setIsAuthenticated(true);
   }
 
   function handleLogout() {
     localStorage.removeItem("admin_token");
     localStorage.removeItem("admin_name");
+    localStorage.removeItem("admin_username");
+    localStorage.removeItem("admin_role");
     setIsAuthenticated(false);
     setAdminName("Admin");
+    setAdminUsername("");
+    setAdminRole("reviewer");
   }
 
   return (
     <>
       {isAuthenticated ? (
-        <AdminInterface onLogout={handleLogout} adminName={adminName} />
+        <AdminInterface
+          onLogout={handleLogout}
+          adminName={adminName}
+          adminUsername={adminUsername}
+          adminRole={adminRole}
+        />
       ) : (
         <AdminLogin onLogin={handleLogin} />
       )}
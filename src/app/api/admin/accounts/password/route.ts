@@ -0,0 +1,40 @@
+import { type NextRequest, NextResponse } from "next/server";
+import connectDB from "@/lib/mongodb";
+import { setPasswordWithToken, validatePassword } from "@/lib/admin-accounts";
+
+// POST - Set a password from an invite or reset link. Public: the link's
+// token is the credential.
+export async function POST(request: NextRequest) {
+  try {
+    const { token, password } = await request.json();
+
+    if (typeof token !== "string" || !token) {
+      return NextResponse.json({ error: "Missing token" }, { status: 400 });
+    }
+    const passwordError = validatePassword(password);
+    if (passwordError) {
+      return NextResponse.json({ error: passwordError }, { status: 400 });
+    }
+
+    await connectDB();
+    const admin = await setPasswordWithToken(token, password);
+    if (!admin) {
+      return NextResponse.json(
+        {
+          error:
+            "This link is invalid or has expired. Ask an owner for a new one.",
+        },
+        { status: 400 }
+      );
+    }
+
+    console.log(`🔑 Admin ${admin.username} set their password`);
+    return NextResponse.json({ success: true, username: admin.username });
+  } catch (error) {
+    console.error("Admin password POST error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
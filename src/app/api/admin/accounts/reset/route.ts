@@ -0,0 +1,78 @@
+import { type NextRequest, NextResponse } from "next/server";
+import connectDB from "@/lib/mongodb";
+import Admin from "@/lib/models/admin";
+import { requireAdmin } from "@/lib/admin-auth";
+import {
+  accountLink,
+  issueInvite,
+  issuePasswordReset,
+} from "@/lib/admin-accounts";
+import { sendMail } from "@/lib/mailer";
+import { recordAuditEvent } from "@/lib/audit";
+
+// POST - Issue a password reset link for an admin (or a fresh invite link if
+// they never set a password). The old password keeps working until it's used.
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireAdmin(request, "admins:manage");
+    if (!auth.ok) return auth.response;
+
+    await connectDB();
+    const { username } = await request.json();
+    const admin = await Admin.findOne({
+      username: String(username || "").toLowerCase(),
+    });
+    if (!admin) {
+      return NextResponse.json({ error: "Admin not found" }, { status: 404 });
+    }
+    if (admin.status === "disabled") {
+      return NextResponse.json(
+        { error: "Enable this admin before resetting their password" },
+        { status: 400 }
+      );
+    }
+
+    const kind = admin.status === "invited" ? "invite" : "reset";
+    const token =
+      kind === "invite" ? issueInvite(admin) : issuePasswordReset(admin);
+    await admin.save();
+
+    const link = accountLink(request.nextUrl.origin, kind, token);
+    let emailed = false;
+    if (admin.email) {
+      try {
+        await sendMail({
+          to: admin.email,
+          subject:
+            kind === "invite"
+              ? "your zuckies admin invite"
+              : "reset your zuckies admin password",
+          text: `set your password here (link expires in ${
+            kind === "invite" ? "7 days" : "1 hour"
+          }):\n${link}\n\nif you didn't expect this, tell ${auth.admin.sub}.`,
+        });
+        emailed = true;
+      } catch (err) {
+        console.error("Failed to email admin reset link:", err);
+      }
+    }
+
+    console.log(
+      `🔑 ${auth.admin.sub} issued a ${kind} link for ${admin.username}`
+    );
+    await recordAuditEvent({
+      actor: { type: "admin", id: auth.admin.sub },
+      action: `admin.${kind}_link_issued`,
+      target: { type: "admin", id: admin.username },
+      source: "ui",
+      metadata: { emailed },
+    });
+    return NextResponse.json({ kind, link, emailed });
+  } catch (error) {
+    console.error("Admin reset POST error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,231 @@
+import { type NextRequest, NextResponse } from "next/server";
+import connectDB from "@/lib/mongodb";
+import Admin, { ADMIN_ROLES, type AdminRole } from "@/lib/models/admin";
+import { requireAdmin } from "@/lib/admin-auth";
+import {
+  accountLink,
+  issueInvite,
+  toPublicAdmin,
+  USERNAME_PATTERN,
+} from "@/lib/admin-accounts";
+import { sendMail } from "@/lib/mailer";
+import { disableTotp } from "@/lib/admin-mfa";
+import { recordAuditEvent } from "@/lib/audit";
+
+const isRole = (value: unknown): value is AdminRole =>
+  ADMIN_ROLES.includes(value as AdminRole);
+
+// Owners can't lock the team out by demoting or disabling the last owner
+async function isLastOwner(username: string) {
+  const owners = await Admin.find({ role: "owner", status: "active" })
+    .select({ username: 1 })
+    .lean();
+  return owners.length === 1 && owners[0].username === username;
+}
+
+// GET - List admin accounts
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireAdmin(request, "admins:manage");
+    if (!auth.ok) return auth.response;
+
+    await connectDB();
+    const admins = await Admin.find({}).sort({ created_at: 1 });
+
+    return NextResponse.json({ admins: admins.map(toPublicAdmin) });
+  } catch (error) {
+    console.error("Admin accounts GET error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Invite a new admin. Returns the invite link and emails it if we can.
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireAdmin(request, "admins:manage");
+    if (!auth.ok) return auth.response;
+
+    await connectDB();
+    const body = await request.json();
+    const username =
+      typeof body.username === "string"
+        ? body.username.toLowerCase().trim()
+        : "";
+    const email =
+      typeof body.email === "string" && body.email.trim()
+        ? body.email.toLowerCase().trim()
+        : undefined;
+    const role = body.role ?? "reviewer";
+
+    if (!USERNAME_PATTERN.test(username)) {
+      return NextResponse.json(
+        {
+          error:
+            "Username must be 2-32 characters: lowercase letters, numbers, dots, dashes or underscores",
+        },
+        { status: 400 }
+      );
+    }
+    if (!isRole(role)) {
+      return NextResponse.json(
+        { error: `Role must be one of: ${ADMIN_ROLES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+    if (await Admin.exists({ username })) {
+      return NextResponse.json(
+        { error: "That username is taken" },
+        { status: 409 }
+      );
+    }
+
+    const admin = new Admin({
+      username,
+      email,
+      display_name:
+        typeof body.display_name === "string" && body.display_name.trim()
+          ? body.display_name.trim()
+          : username,
+      role,
+      status: "invited",
+      invited_by: auth.admin.sub,
+    });
+    const token = issueInvite(admin);
+    await admin.save();
+
+    const link = accountLink(request.nextUrl.origin, "invite", token);
+    let emailed = false;
+    if (email) {
+      try {
+        await sendMail({
+          to: email,
+          subject: "you're invited to the zuckies admin dashboard",
+          text: `${auth.admin.sub} invited you as ${role.replace(
+            "_",
+            "-"
+          )}.\n\nset your password here (link expires in 7 days):\n${link}`,
+        });
+        emailed = true;
+      } catch (err) {
+        console.error("Failed to email admin invite:", err);
+      }
+    }
+
+    console.log(`📨 ${auth.admin.sub} invited admin ${username} (${role})`);
+    await recordAuditEvent({
+      actor: { type: "admin", id: auth.admin.sub },
+      action: "admin.invited",
+      target: { type: "admin", id: username },
+      source: "ui",
+      after: { role, email, status: admin.status },
+    });
+    return NextResponse.json({ admin: toPublicAdmin(admin), link, emailed });
+  } catch (error) {
+    console.error("Admin accounts POST error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH - Change an admin's role, enable/disable them, or turn off their
+// two-factor login when they've lost their device and recovery codes
+export async function PATCH(request: NextRequest) {
+  try {
+    const auth = await requireAdmin(request, "admins:manage");
+    if (!auth.ok) return auth.response;
+
+    await connectDB();
+    const body = await request.json();
+    const admin = await Admin.findOne({
+      username: String(body.username || "").toLowerCase(),
+    });
+    if (!admin) {
+      return NextResponse.json({ error: "Admin not found" }, { status: 404 });
+    }
+
+    if (body.role !== undefined && !isRole(body.role)) {
+      return NextResponse.json(
+        { error: `Role must be one of: ${ADMIN_ROLES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+    if (body.disabled !== undefined && typeof body.disabled !== "boolean") {
+      return NextResponse.json(
+        { error: "disabled must be true or false" },
+        { status: 400 }
+      );
+    }
+
+    const demoting = body.role !== undefined && body.role !== "owner";
+    const disabling = body.disabled === true;
+    if (admin.username === auth.admin.sub && (demoting || disabling)) {
+      return NextResponse.json(
+        { error: "You can't demote or disable your own account" },
+        { status: 400 }
+      );
+    }
+    if (
+      admin.role === "owner" &&
+      (demoting || disabling) &&
+      (await isLastOwner(admin.username))
+    ) {
+      return NextResponse.json(
+        { error: "There must always be at least one active owner" },
+        { status: 400 }
+      );
+    }
+
+    const accountSnapshot = () => ({
+      role: admin.role,
+      status: admin.status,
+      totp_enabled: admin.totp_enabled,
+    });
+    const before = accountSnapshot();
+
+    if (body.reset_mfa === true) {
+      if (admin.username === auth.admin.sub) {
+        return NextResponse.json(
+          {
+            error: "Turn off your own two-factor login from security settings",
+          },
+          { status: 400 }
+        );
+      }
+      disableTotp(admin);
+      console.warn(
+        `🔓 ${auth.admin.sub} reset two-factor login for ${admin.username}`
+      );
+    }
+
+    if (body.role !== undefined) admin.role = body.role;
+    if (body.disabled === true) admin.status = "disabled";
+    if (body.disabled === false && admin.status === "disabled") {
+      admin.status = admin.password_hash ? "active" : "invited";
+    }
+    await admin.save();
+
+    console.log(
+      `👥 ${auth.admin.sub} updated admin ${admin.username}: ${admin.role}, ${admin.status}`
+    );
+    await recordAuditEvent({
+      actor: { type: "admin", id: auth.admin.sub },
+      action: "admin.updated",
+      target: { type: "admin", id: admin.username },
+      source: "ui",
+      before,
+      after: accountSnapshot(),
+    });
+    return NextResponse.json({ admin: toPublicAdmin(admin) });
+  } catch (error) {
+    console.error("Admin accounts PATCH error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,124 @@
+import { type NextRequest, NextResponse } from "next/server";
+import Admin from "@/lib/models/admin";
+import { requireAdmin } from "@/lib/admin-auth";
+import {
+  confirmTotpEnrollment,
+  disableTotp,
+  startTotpEnrollment,
+  verifySecondFactor,
+} from "@/lib/admin-mfa";
+
+// Two-factor settings for the logged-in admin's own account
+
+// GET - Whether two-factor login is on
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireAdmin(request, "account:security");
+    if (!auth.ok) return auth.response;
+
+    const admin = await Admin.findOne({ username: auth.admin.sub });
+    if (!admin) {
+      return NextResponse.json({ error: "Admin not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      enabled: admin.totp_enabled,
+      recovery_codes_remaining: admin.recovery_code_hashes.length,
+    });
+  } catch (error) {
+    console.error("Admin TOTP GET error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - { action: "start" } returns a secret and otpauth URI;
+// { action: "confirm", code } turns it on and returns recovery codes
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireAdmin(request, "account:security");
+    if (!auth.ok) return auth.response;
+
+    const { action, code } = await request.json();
+    const admin = await Admin.findOne({ username: auth.admin.sub });
+    if (!admin) {
+      return NextResponse.json({ error: "Admin not found" }, { status: 404 });
+    }
+
+    if (admin.totp_enabled) {
+      return NextResponse.json(
+        { error: "Two-factor login is already on. Turn it off first." },
+        { status: 400 }
+      );
+    }
+
+    if (action === "start") {
+      const enrollment = startTotpEnrollment(admin);
+      await admin.save();
+      return NextResponse.json(enrollment);
+    }
+
+    if (action === "confirm") {
+      const recoveryCodes =
+        typeof code === "string" ? confirmTotpEnrollment(admin, code) : null;
+      if (!recoveryCodes) {
+        return NextResponse.json(
+          {
+            error:
+              "That code doesn't match. Check your authenticator app's clock and try the current code.",
+          },
+          { status: 400 }
+        );
+      }
+      await admin.save();
+      console.log(`🔐 Admin ${admin.username} turned on two-factor login`);
+      return NextResponse.json({
+        enabled: true,
+        recovery_codes: recoveryCodes,
+      });
+    }
+
+    return NextResponse.json(
+      { error: 'action must be "start" or "confirm"' },
+      { status: 400 }
+    );
+  } catch (error) {
+    console.error("Admin TOTP POST error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Turn two-factor login off. Needs a current code so a stolen
+// session token alone can't remove it.
+export async function DELETE(request: NextRequest) {
+  try {
+    const auth = await requireAdmin(request, "account:security");
+    if (!auth.ok) return auth.response;
+
+    const { code } = await request.json();
+    const admin = await Admin.findOne({ username: auth.admin.sub });
+    if (!admin) {
+      return NextResponse.json({ error: "Admin not found" }, { status: 404 });
+    }
+
+    if (typeof code !== "string" || !verifySecondFactor(admin, code)) {
+      return NextResponse.json({ error: "Invalid code" }, { status: 400 });
+    }
+
+    disableTotp(admin);
+    await admin.save();
+    console.log(`🔓 Admin ${admin.username} turned off two-factor login`);
+    return NextResponse.json({ enabled: false });
+  } catch (error) {
+    console.error("Admin TOTP DELETE error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,92 @@
+import { type NextRequest, NextResponse } from "next/server";
+import AuditEvent, { AUDIT_SOURCES } from "@/lib/models/audit-event";
+import { requireAdmin } from "@/lib/admin-auth";
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+const escapeRegex = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// GET - Browse the audit log, newest first. Filters: target, actor (prefix
+// match), action (prefix, e.g. "db."), source, from/to dates. Page with
+// ?before=<created_at of the last event>.
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireAdmin(request, "audit:read");
+    if (!auth.ok) return auth.response;
+
+    const params = request.nextUrl.searchParams;
+    const query: Record<string, unknown> = {};
+
+    const target = params.get("target")?.trim();
+    if (target) {
+      query["target.id"] = { $regex: `^${escapeRegex(target)}`, $options: "i" };
+    }
+    const actor = params.get("actor")?.trim();
+    if (actor) {
+      query["actor.id"] = { $regex: `^${escapeRegex(actor)}`, $options: "i" };
+    }
+    const action = params.get("action")?.trim();
+    if (action) {
+      query.action = { $regex: `^${escapeRegex(action)}` };
+    }
+    const source = params.get("source");
+    if (source) {
+      if (!AUDIT_SOURCES.includes(source as (typeof AUDIT_SOURCES)[number])) {
+        return NextResponse.json(
+          { error: `source must be one of: ${AUDIT_SOURCES.join(", ")}` },
+          { status: 400 }
+        );
+      }
+      query.source = source;
+    }
+
+    const createdAt: Record<string, Date> = {};
+    for (const [param, operator] of [
+      ["from", "$gte"],
+      ["to", "$lte"],
+      ["before", "$lt"],
+    ] as const) {
+      const value = params.get(param);
+      if (!value) continue;
+      const date = new Date(value);
+      if (isNaN(date.getTime())) {
+        return NextResponse.json(
+          { error: `${param} must be a date` },
+          { status: 400 }
+        );
+      }
+      createdAt[operator] = date;
+    }
+    if (Object.keys(createdAt).length > 0) query.created_at = createdAt;
+
+    const limit = Math.min(
+      Math.max(Number(params.get("limit")) || DEFAULT_LIMIT, 1),
+      MAX_LIMIT
+    );
+
+    const [events, actions] = await Promise.all([
+      AuditEvent.find(query)
+        .sort({ created_at: -1 })
+        .limit(limit + 1)
+        .lean(),
+      AuditEvent.distinct("action"),
+    ]);
+
+    const hasMore = events.length > limit;
+    const page = events.slice(0, limit);
+
+    return NextResponse.json({
+      events: page,
+      actions: actions.sort(),
+      next_before: hasMore ? page[page.length - 1].created_at : null,
+    });
+  } catch (error) {
+    console.error("Admin audit GET error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
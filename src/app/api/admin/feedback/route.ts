@@ -1,23 +1,13 @@
 import { type NextRequest, NextResponse } from "next/server";
 import connectDB from "@/lib/mongodb";
 import Feedback from "@/lib/models/feedback";
-import { verifyToken } from "@/lib/jwt";
+import { requireAdmin } from "@/lib/admin-auth";
 
 // GET - Fetch all feedback submissions
 export async function GET(request: NextRequest) {
   try {
-    // Verify admin token
-    const authHeader = request.headers.get("Authorization");
-    if (!authHeader || !authHeader.startsWith("Bearer ")) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    const token = authHeader.substring(7);
-    const decoded = verifyToken(token);
-
-    if (!decoded) {
-      return NextResponse.json({ error: "Invalid token" }, { status: 401 });
-    }
+    const auth = await requireAdmin(request, "feedback:read");
+    if (!auth.ok) return auth.response;
 
     await connectDB();
 
@@ -0,0 +1,180 @@
+import { type NextRequest, NextResponse } from "next/server";
+import connectDB from "@/lib/mongodb";
+import CustomQuestion from "@/lib/models/custom-question";
+import { toCustomQuestionKey } from "@/lib/custom-questions";
+import { QUESTION_KEYS } from "@/lib/onboarding-questions";
+import { requireAdmin } from "@/lib/admin-auth";
+
+// Keep only editable fields from a request body
+function pickQuestionFields(body: Record<string, unknown>) {
+  const fields: Record<string, unknown> = {};
+  if (typeof body.label === "string") fields.label = body.label.trim();
+  if (typeof body.prompt === "string") fields.prompt = body.prompt.trim();
+  if (typeof body.required === "boolean") fields.required = body.required;
+  if (typeof body.active === "boolean") fields.active = body.active;
+  if (Array.isArray(body.suggestions)) {
+    fields.suggestions = body.suggestions
+      .filter((s): s is string => typeof s === "string")
+      .map((s) => s.trim())
+      .filter(Boolean);
+  }
+  return fields;
+}
+
+// GET - List all custom questions in ask order
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireAdmin(request, "questions:read");
+    if (!auth.ok) return auth.response;
+
+    await connectDB();
+    const questions = await CustomQuestion.find({})
+      .sort({ order: 1, created_at: 1 })
+      .lean();
+
+    return NextResponse.json({ questions });
+  } catch (error) {
+    console.error("Admin questions GET error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Add a custom question at the end of the list
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireAdmin(request, "questions:write");
+    if (!auth.ok) return auth.response;
+
+    const body = await request.json();
+    const fields = pickQuestionFields(body);
+    if (!fields.label || !fields.prompt) {
+      return NextResponse.json(
+        { error: "label and prompt are required" },
+        { status: 400 }
+      );
+    }
+
+    const key = toCustomQuestionKey(
+      typeof body.key === "string" && body.key ? body.key : String(fields.label)
+    );
+    if (!key) {
+      return NextResponse.json(
+        { error: "Could not derive a key from the label" },
+        { status: 400 }
+      );
+    }
+    if ((QUESTION_KEYS as string[]).includes(key)) {
+      return NextResponse.json(
+        { error: `"${key}" is a built-in onboarding field` },
+        { status: 400 }
+      );
+    }
+
+    await connectDB();
+
+    if (await CustomQuestion.exists({ key })) {
+      return NextResponse.json(
+        { error: `A question with key "${key}" already exists` },
+        { status: 409 }
+      );
+    }
+
+    const last = await CustomQuestion.findOne({}).sort({ order: -1 }).lean();
+    const question = await CustomQuestion.create({
+      ...fields,
+      key,
+      order: (last?.order ?? -1) + 1,
+    });
+
+    console.log(`Custom question created: ${key}`);
+    return NextResponse.json({ question }, { status: 201 });
+  } catch (error) {
+    console.error("Admin questions POST error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH - Edit one question ({ id, ...fields }) or reorder all ({ order: [ids] })
+export async function PATCH(request: NextRequest) {
+  try {
+    const auth = await requireAdmin(request, "questions:write");
+    if (!auth.ok) return auth.response;
+
+    const body = await request.json();
+    await connectDB();
+
+    if (Array.isArray(body.order)) {
+      await CustomQuestion.bulkWrite(
+        body.order.map((id: string, index: number) => ({
+          updateOne: {
+            filter: { _id: id },
+            update: { $set: { order: index } },
+          },
+        }))
+      );
+      return NextResponse.json({ success: true });
+    }
+
+    if (!body.id) {
+      return NextResponse.json({ error: "id is required" }, { status: 400 });
+    }
+
+    // Keys are fixed once created so existing answers stay linked
+    const question = await CustomQuestion.findByIdAndUpdate(
+      body.id,
+      { $set: pickQuestionFields(body) },
+      { new: true, runValidators: true }
+    );
+    if (!question) {
+      return NextResponse.json(
+        { error: "Question not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ question });
+  } catch (error) {
+    console.error("Admin questions PATCH error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Remove a question (answers already given stay on applicants)
+export async function DELETE(request: NextRequest) {
+  try {
+    const auth = await requireAdmin(request, "questions:write");
+    if (!auth.ok) return auth.response;
+
+    const id = new URL(request.url).searchParams.get("id");
+    if (!id) {
+      return NextResponse.json({ error: "id is required" }, { status: 400 });
+    }
+
+    await connectDB();
+    const question = await CustomQuestion.findByIdAndDelete(id);
+    if (!question) {
+      return NextResponse.json(
+        { error: "Question not found" },
+        { status: 404 }
+      );
+    }
+
+    console.log(`Custom question deleted: ${question.key}`);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Admin questions DELETE error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,54 +1,159 @@
 import { type NextRequest, NextResponse } from "next/server";
 import connectDB from "@/lib/mongodb";
 import Applicant, { type ApplicationStatus } from "@/lib/models/applicant";
-import { signToken, verifyToken } from "@/lib/jwt";
+import {
+  signAdminMfaToken,
+  signAdminToken,
+  verifyAdminMfaToken,
+} from "@/lib/jwt";
+import { requireAdmin } from "@/lib/admin-auth";
+import { authenticateAdmin, ROLE_SCOPES } from "@/lib/admin-accounts";
+import { verifySecondFactor } from "@/lib/admin-mfa";
+import {
+  checkThrottle,
+  clearThrottle,
+  getClientIp,
+  recordThrottleFailure,
+} from "@/lib/auth-throttle";
+import Admin, { type IAdmin } from "@/lib/models/admin";
+import { applyReviewDecision } from "@/lib/review-decisions";
+import {
+  countApplicantsByStatus,
+  SUBMITTED_APPLICANTS,
+} from "@/lib/applicant-repository";
 
-// Admin credentials from environment
-const ADMIN_PASSWORD = process.env.ADMIN_SECRET || "sidequest-admin-2024";
-const ADMIN_USERNAME = process.env.ADMIN_USERNAME || "admin";
+// Admin token plus who it's for
+async function loginResponse(admin: IAdmin) {
+  admin.last_login_at = new Date();
+  await admin.save();
 
-// POST - Authenticate admin with username and password, generate token
+  // Generate admin token (admin role and audience, see signAdminToken)
+  const token = signAdminToken({
+    username: admin.username,
+    scopes: ROLE_SCOPES[admin.role],
+  });
+
+  return NextResponse.json({
+    token,
+    username: admin.username,
+    display_name: admin.display_name || admin.username,
+    role: admin.role,
+  });
+}
+
+// Admin logins are throttled under their own keys, so wrong admin passwords
+// can't lock applicants behind the same IP out of the chat, or the reverse
+function loginThrottleSubjects(username: string, request: NextRequest) {
+  const ip = getClientIp(request.headers);
+  return { email: `admin:${username}`, ip: ip && `admin:${ip}` };
+}
+
+// POST - Authenticate admin. Step 1: { username, password }. Admins with
+// two-factor login get { mfa_required, mfa_token } back and finish with
+// step 2: { mfa_token, code } (an authenticator or recovery code).
 export async function POST(request: NextRequest) {
+  // Only a body that isn't a JSON object is the client's fault
+  const body = await request.json().catch(() => null);
+  if (!body || typeof body !== "object") {
+    return NextResponse.json({ error: "Invalid request" }, { status: 400 });
+  }
+
   try {
-    const { username, password } = await request.json();
+    await connectDB();
+
+    if (typeof body.mfa_token === "string") {
+      const username = verifyAdminMfaToken(body.mfa_token);
+      if (!username || typeof body.code !== "string") {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+      }
+
+      // Code guesses count against the same admin / IP keys as passwords
+      const subjects = loginThrottleSubjects(username, request);
+      const throttle = await checkThrottle(subjects);
+      if (!throttle.allowed) {
+        return NextResponse.json(
+          {
+            error: "Too many attempts",
+            retry_after_seconds: throttle.retryAfterSeconds,
+          },
+          { status: 429 }
+        );
+      }
+
+      const admin = await Admin.findOne({ username, status: "active" });
+      const method = admin ? verifySecondFactor(admin, body.code) : null;
+      if (!admin || !method) {
+        await recordThrottleFailure(subjects);
+        return NextResponse.json({ error: "Invalid code" }, { status: 401 });
+      }
+
+      await clearThrottle(`admin:${username}`);
+      if (method === "recovery") {
+        console.warn(
+          `🔑 Admin ${username} used a recovery code (${admin.recovery_code_hashes.length} left)`
+        );
+      }
+      return loginResponse(admin);
+    }
 
-    // Verify username and password
-    if (username !== ADMIN_USERNAME || password !== ADMIN_PASSWORD) {
+    const { username, password } = body;
+    if (typeof username !== "string" || typeof password !== "string") {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    // Generate admin token (valid for 24 hours)
-    const token = signToken({
-      email: ADMIN_USERNAME,
-      sessionId: "admin-session",
-    });
+    const subjects = loginThrottleSubjects(username, request);
+    const throttle = await checkThrottle(subjects);
+    if (!throttle.allowed) {
+      return NextResponse.json(
+        {
+          error: "Too many attempts",
+          retry_after_seconds: throttle.retryAfterSeconds,
+        },
+        { status: 429 }
+      );
+    }
+
+    const admin = await authenticateAdmin(username, password);
+    if (!admin) {
+      await recordThrottleFailure(subjects);
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // With two-factor on, the counter is cleared once the code checks out -
+    // a correct password alone mustn't reset wrong code guesses
+    if (admin.totp_enabled) {
+      return NextResponse.json({
+        mfa_required: true,
+        mfa_token: signAdminMfaToken(admin.username),
+      });
+    }
 
-    return NextResponse.json({ token, username: ADMIN_USERNAME });
+    await clearThrottle(`admin:${username}`);
+    return loginResponse(admin);
   } catch (error) {
-    return NextResponse.json({ error: "Invalid request" }, { status: 400 });
+    console.error("Admin login error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
   }
 }
 
-// GET - List all applications (with optional status filter)
+// GET - List all applications (optional status filter, ?sort=score)
 export async function GET(request: NextRequest) {
   try {
+    const auth = await requireAdmin(request, "applications:read");
+    if (!auth.ok) return auth.response;
+
     await connectDB();
 
     const { searchParams } = new URL(request.url);
-    const authHeader = request.headers.get("authorization");
-    const token = authHeader?.replace("Bearer ", "");
     const status = searchParams.get("status") as ApplicationStatus | null;
     const email = searchParams.get("email");
-
-    // Verify token
-    if (!token || !verifyToken(token)) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
+    const sort = searchParams.get("sort"); // "score" for highest rubric score first
 
     // Build query - only show applicants who have submitted
-    const query: Record<string, unknown> = {
-      submitted_at: { $exists: true, $ne: null },
-    };
+    const query: Record<string, unknown> = { ...SUBMITTED_APPLICANTS };
 
     if (status) {
       query.application_status = status;
@@ -63,6 +168,7 @@ export async function GET(request: NextRequest) {
         email: 1,
         name: 1,
         engineering_area: 1,
+        mobile_platform: 1,
         skill_level: 1,
         career_goals: 1,
         github: 1,
@@ -70,34 +176,33 @@ export async function GET(request: NextRequest) {
         portfolio: 1,
         projects: 1,
         time_commitment: 1,
+        time_commitment_hours: 1,
+        answers: 1,
+        failed_phrase_attempts: 1,
+        last_failed_phrase_attempt: 1,
+        phrase_locked_until: 1,
         submitted_at: 1,
         application_status: 1,
-        review_notes: 1,
+        internal_notes: 1,
+        applicant_feedback: 1,
         reviewed_at: 1,
         reviewed_by: 1,
+        status_history: 1,
+        rubric_scores: 1,
+        rubric_score: 1,
+        rubric_proposal: 1,
         created_at: 1,
         updated_at: 1,
       })
-      .sort({ submitted_at: -1 })
+      .sort(
+        sort === "score"
+          ? { rubric_score: -1, submitted_at: -1 }
+          : { submitted_at: -1 }
+      )
       .lean();
 
     // Summary stats
-    const allSubmitted = await Applicant.find({
-      submitted_at: { $exists: true, $ne: null },
-    }).lean();
-    const stats = {
-      total: allSubmitted.length,
-      pending: allSubmitted.filter(
-        (a) => !a.application_status || a.application_status === "pending"
-      ).length,
-      accepted: allSubmitted.filter((a) => a.application_status === "accepted")
-        .length,
-      rejected: allSubmitted.filter((a) => a.application_status === "rejected")
-        .length,
-      waitlisted: allSubmitted.filter(
-        (a) => a.application_status === "waitlisted"
-      ).length,
-    };
+    const stats = await countApplicantsByStatus();
 
     return NextResponse.json({
       stats,
@@ -107,6 +212,7 @@ export async function GET(request: NextRequest) {
           name: app.name,
           email: app.email,
           engineering_area: app.engineering_area,
+          mobile_platform: app.mobile_platform,
           skill_level: app.skill_level,
           career_goals: app.career_goals,
           github: app.github,
@@ -114,11 +220,23 @@ export async function GET(request: NextRequest) {
           portfolio: app.portfolio,
           projects: app.projects,
           time_commitment: app.time_commitment,
+          time_commitment_hours: app.time_commitment_hours,
+          answers: app.answers,
           submitted_at: app.submitted_at,
           application_status: app.application_status,
-          review_notes: app.review_notes,
+          internal_notes: app.internal_notes,
+          applicant_feedback: app.applicant_feedback,
           reviewed_at: app.reviewed_at,
           reviewed_by: app.reviewed_by,
+          status_history: app.status_history || [],
+          rubric_scores: app.rubric_scores || [],
+          rubric_score: app.rubric_score,
+          rubric_proposal: app.rubric_proposal,
+        },
+        security: {
+          failed_phrase_attempts: app.failed_phrase_attempts || 0,
+          last_failed_phrase_attempt: app.last_failed_phrase_attempt,
+          phrase_locked_until: app.phrase_locked_until,
         },
         created_at: app.created_at,
         updated_at: app.updated_at,
@@ -133,24 +251,22 @@ export async function GET(request: NextRequest) {
   }
 }
 
-// PATCH - Update application status (for admin interface)
+// PATCH - Update application status and/or review notes (for admin
+// interface). Without application_status only the notes change.
 export async function PATCH(request: NextRequest) {
   try {
-    await connectDB();
-
-    const authHeader = request.headers.get("authorization");
-    const token = authHeader?.replace("Bearer ", "");
+    const auth = await requireAdmin(request, "applications:write");
+    if (!auth.ok) return auth.response;
 
-    // Verify token
-    if (!token || !verifyToken(token)) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
+    await connectDB();
 
     const body = await request.json();
-    const { email, application_status, review_notes, reviewed_by } = body;
+    const { email, application_status, applicant_feedback } = body;
+    // review_notes is the old name for internal_notes
+    const internal_notes = body.internal_notes ?? body.review_notes;
 
     // Validate status - convert "approved" to "accepted" for compatibility
-    let status: ApplicationStatus = application_status as ApplicationStatus;
+    let status: ApplicationStatus | undefined = application_status;
     if (application_status === "approved") {
       status = "accepted";
     }
@@ -161,7 +277,7 @@ export async function PATCH(request: NextRequest) {
       "rejected",
       "waitlisted",
     ];
-    if (!validStatuses.includes(status)) {
+    if (status !== undefined && !validStatuses.includes(status)) {
       return NextResponse.json(
         {
           error: `Invalid status. Must be one of: ${validStatuses.join(", ")}`,
@@ -170,51 +286,43 @@ export async function PATCH(request: NextRequest) {
       );
     }
 
-    // Find and update applicant
-    const applicant = await Applicant.findOne({ email: email?.toLowerCase() });
-
-    if (!applicant) {
-      return NextResponse.json(
-        { error: "Application not found" },
-        { status: 404 }
-      );
+    for (const note of [internal_notes, applicant_feedback]) {
+      if (note !== undefined && typeof note !== "string") {
+        return NextResponse.json(
+          { error: "Notes must be strings" },
+          { status: 400 }
+        );
+      }
     }
-
-    if (!applicant.submitted_at) {
-      return NextResponse.json(
-        { error: "Cannot review an incomplete application" },
-        { status: 400 }
-      );
+    if (
+      status === undefined &&
+      internal_notes === undefined &&
+      applicant_feedback === undefined
+    ) {
+      return NextResponse.json({ error: "Nothing to update" }, { status: 400 });
     }
 
-    // Update application status
-    const previousStatus = applicant.application_status;
-    applicant.application_status = status;
-    applicant.reviewed_at = new Date().toISOString();
-    applicant.reviewed_by = process.env.ADMIN_USERNAME || "admin";
+    const result = await applyReviewDecision(
+      {
+        email: email || "",
+        status,
+        internalNotes: internal_notes,
+        applicantFeedback: applicant_feedback,
+      },
+      { reviewer: auth.admin.sub, source: "ui" }
+    );
 
-    if (review_notes) {
-      applicant.review_notes = review_notes;
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.message },
+        { status: result.error === "not_found" ? 404 : 400 }
+      );
     }
 
-    await applicant.save();
-
-    console.log(
-      `Application status updated: ${applicant.email} - ${previousStatus} → ${status}`
-    );
-
     return NextResponse.json({
       success: true,
-      message: `Application ${status}!`,
-      application: {
-        email: applicant.email,
-        name: applicant.name,
-        previous_status: previousStatus,
-        new_status: status,
-        review_notes: applicant.review_notes,
-        reviewed_at: applicant.reviewed_at,
-        reviewed_by: applicant.reviewed_by,
-      },
+      message: status ? `Application ${status}!` : "Notes saved",
+      application: result.application,
     });
   } catch (error) {
     console.error("Admin PATCH error:", error);
@@ -0,0 +1,54 @@
+import { type NextRequest, NextResponse } from "next/server";
+import connectDB from "@/lib/mongodb";
+import { requireAdmin } from "@/lib/admin-auth";
+import { saveRubricScores } from "@/lib/rubric";
+
+// PUT - Save your rubric scores for an application:
+// { email, scores: [{ criterion, score, note? }], from_proposal? }.
+// An empty scores list removes your scorecard.
+export async function PUT(request: NextRequest) {
+  try {
+    const auth = await requireAdmin(request, "applications:write");
+    if (!auth.ok) return auth.response;
+
+    await connectDB();
+    const { email, scores, from_proposal } = await request.json();
+
+    if (
+      !Array.isArray(scores) ||
+      !scores.every(
+        (s) =>
+          s &&
+          typeof s.criterion === "string" &&
+          typeof s.score === "number" &&
+          (s.note === undefined || typeof s.note === "string")
+      )
+    ) {
+      return NextResponse.json(
+        { error: "scores must be a list of { criterion, score, note? }" },
+        { status: 400 }
+      );
+    }
+
+    const result = await saveRubricScores(String(email || ""), scores, {
+      reviewer: auth.admin.sub,
+      source: "ui",
+      fromProposal: from_proposal === true,
+    });
+
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.message },
+        { status: result.error === "not_found" ? 404 : 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true, rubric: result.rubric });
+  } catch (error) {
+    console.error("Admin scores PUT error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
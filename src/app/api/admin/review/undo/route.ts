@@ -0,0 +1,46 @@
+import { type NextRequest, NextResponse } from "next/server";
+import connectDB from "@/lib/mongodb";
+import { requireAdmin } from "@/lib/admin-auth";
+import { undoLastDecision } from "@/lib/review-decisions";
+
+// POST - Undo an application's most recent status decision: { email }
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireAdmin(request, "applications:write");
+    if (!auth.ok) return auth.response;
+
+    await connectDB();
+    const { email } = await request.json();
+
+    const result = await undoLastDecision(String(email || ""), {
+      reviewer: auth.admin.sub,
+      source: "ui",
+    });
+
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.message },
+        {
+          status:
+            result.error === "not_found"
+              ? 404
+              : result.error === "conflict"
+              ? 409
+              : 400,
+        }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `Decision undone - application is ${result.application.new_status} again`,
+      application: result.application,
+    });
+  } catch (error) {
+    console.error("Admin undo error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,146 @@
+import { type NextRequest, NextResponse } from "next/server";
+import connectDB from "@/lib/mongodb";
+import RubricCriterion from "@/lib/models/rubric-criterion";
+import { toCustomQuestionKey } from "@/lib/custom-questions";
+import { getRubricCriteria, RUBRIC_SOURCE_FIELDS } from "@/lib/rubric";
+import { requireAdmin } from "@/lib/admin-auth";
+
+// Keep only editable fields from a request body
+function pickCriterionFields(body: Record<string, unknown>) {
+  const fields: Record<string, unknown> = {};
+  if (typeof body.label === "string") fields.label = body.label.trim();
+  if (typeof body.description === "string") {
+    fields.description = body.description.trim();
+  }
+  if (typeof body.active === "boolean") fields.active = body.active;
+  if (Array.isArray(body.source_fields)) {
+    fields.source_fields = body.source_fields
+      .filter((f): f is string => typeof f === "string")
+      .map((f) => f.trim())
+      .filter(
+        (f) => RUBRIC_SOURCE_FIELDS.includes(f) || f.startsWith("answers.")
+      );
+  }
+  return fields;
+}
+
+// GET - All rubric criteria (inactive ones too) in scoring order
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireAdmin(request, "applications:read");
+    if (!auth.ok) return auth.response;
+
+    await connectDB();
+    const criteria = await getRubricCriteria({ includeInactive: true });
+
+    return NextResponse.json({
+      criteria,
+      source_fields: RUBRIC_SOURCE_FIELDS,
+    });
+  } catch (error) {
+    console.error("Admin rubric GET error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Add a criterion at the end of the rubric. Configured alongside the
+// custom questions, so it takes the same scope.
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireAdmin(request, "questions:write");
+    if (!auth.ok) return auth.response;
+
+    const body = await request.json();
+    const fields = pickCriterionFields(body);
+    if (!fields.label) {
+      return NextResponse.json({ error: "label is required" }, { status: 400 });
+    }
+
+    const key = toCustomQuestionKey(
+      typeof body.key === "string" && body.key ? body.key : String(fields.label)
+    );
+    if (!key) {
+      return NextResponse.json(
+        { error: "Could not derive a key from the label" },
+        { status: 400 }
+      );
+    }
+
+    await connectDB();
+
+    if (await RubricCriterion.exists({ key })) {
+      return NextResponse.json(
+        { error: `A criterion with key "${key}" already exists` },
+        { status: 409 }
+      );
+    }
+
+    const last = await RubricCriterion.findOne({}).sort({ order: -1 }).lean();
+    const criterion = await RubricCriterion.create({
+      ...fields,
+      key,
+      order: (last?.order ?? -1) + 1,
+    });
+
+    console.log(`Rubric criterion created: ${key}`);
+    return NextResponse.json({ criterion }, { status: 201 });
+  } catch (error) {
+    console.error("Admin rubric POST error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH - Edit one criterion ({ id, ...fields }) or reorder all ({ order: [ids] }).
+// There's no DELETE: deactivate instead, so existing scores keep their label.
+export async function PATCH(request: NextRequest) {
+  try {
+    const auth = await requireAdmin(request, "questions:write");
+    if (!auth.ok) return auth.response;
+
+    const body = await request.json();
+    await connectDB();
+
+    if (Array.isArray(body.order)) {
+      await RubricCriterion.bulkWrite(
+        body.order.map((id: string, index: number) => ({
+          updateOne: {
+            filter: { _id: id },
+            update: { $set: { order: index } },
+          },
+        }))
+      );
+      return NextResponse.json({ success: true });
+    }
+
+    if (!body.id) {
+      return NextResponse.json({ error: "id is required" }, { status: 400 });
+    }
+
+    // Keys are fixed once created so existing scores stay linked
+    const criterion = await RubricCriterion.findByIdAndUpdate(
+      body.id,
+      { $set: pickCriterionFields(body) },
+      { new: true, runValidators: true }
+    );
+    if (!criterion) {
+      return NextResponse.json(
+        { error: "Criterion not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ criterion });
+  } catch (error) {
+    console.error("Admin rubric PATCH error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,9 +1,11 @@
 import { type NextRequest, NextResponse } from "next/server";
-import ai from "@/app/api/chat/ai/config";
-import { googleAI } from "@genkit-ai/google-genai";
+import type { Model, PipelineStage, QueryFilter } from "mongoose";
+import { generateWithFallback } from "@/app/api/chat/ai/config";
 import connectDB from "@/lib/mongodb";
 import Applicant from "@/lib/models/applicant";
-import AdminSession from "@/lib/models/admin-session";
+import AdminSession, {
+  type IPendingDbOperation,
+} from "@/lib/models/admin-session";
 import Feedback from "@/lib/models/feedback";
 import Session from "@/lib/models/session";
 import { buildAdminPrompt } from "../prompt";
@@ -11,8 +13,79 @@ import {
   createAdminTools,
   DbOperationOptions,
   DbOperationResult,
+  RubricProposalInput,
+  StatusChangeInput,
+  StatusChangeResult,
 } from "@/app/api/admin/tools";
 import { v4 as uuidv4 } from "uuid";
+import { requireAdmin } from "@/lib/admin-auth";
+import { recordAuditEvent } from "@/lib/audit";
+import { findApplicant } from "@/lib/applicant-repository";
+import { applyReviewDecision } from "@/lib/review-decisions";
+import { getRubricCriteria, saveRubricProposal } from "@/lib/rubric";
+import {
+  adminConfirmed,
+  CONFIRM_THRESHOLD,
+  DRY_RUN_SAMPLE_SIZE,
+  generateOperationId,
+  type GuardedCollection,
+  normalizeUpdate,
+  operationFingerprint,
+  PENDING_OPERATION_TTL_MS,
+  sanitizeDocument,
+  validateDocument,
+  validateFields,
+  validateFilter,
+  validateUpdate,
+} from "@/lib/query-guard";
+
+// query_db writes audit each touched document up to this many; beyond that
+// one summary event records the filter and count
+const AUDIT_SNAPSHOT_LIMIT = 50;
+
+const ANALYTICS_TIMEOUT_MS = 10_000;
+
+// The reads guard checks and analytics need, typed against the collection's
+// own model
+function guardedModel<T>(model: Model<T>) {
+  return {
+    count: (filter: Record<string, unknown>) =>
+      model.countDocuments(filter as QueryFilter<T>).exec(),
+    sample: (filter: Record<string, unknown>, limit: number) =>
+      model
+        .find(filter as QueryFilter<T>)
+        .limit(limit)
+        .lean<Record<string, unknown>[]>()
+        .exec(),
+    aggregate: (pipeline: PipelineStage[]) =>
+      model
+        .aggregate<Record<string, unknown>>(pipeline)
+        .option({ maxTimeMS: ANALYTICS_TIMEOUT_MS }),
+  };
+}
+
+// Stamp updated_at on a query_db update, whichever operators it uses - a
+// plain field map becomes $set, and $inc / $unset keep their own keys
+function withUpdatedAt(update: Record<string, unknown>) {
+  const normalized = normalizeUpdate(update);
+  return {
+    ...normalized,
+    $set: {
+      ...(normalized.$set as Record<string, unknown> | undefined),
+      updated_at: new Date(),
+    },
+  };
+}
+
+// For guard checks and analytics that work the same on every collection
+const GUARDED_MODELS: Record<
+  GuardedCollection,
+  ReturnType<typeof guardedModel>
+> = {
+  applicants: guardedModel(Applicant),
+  feedback: guardedModel(Feedback),
+  sessions: guardedModel(Session),
+};
 
 // Suppress expected Genkit tool re-registration warnings
 const originalError = console.error;
@@ -27,6 +100,10 @@ console.error = toolErrorFilter;
 
 export async function POST(request: NextRequest) {
   try {
+    const auth = await requireAdmin(request, "support:chat");
+    if (!auth.ok) return auth.response;
+    const adminId = auth.admin.sub;
+
     // Connect to database
     await connectDB();
 
@@ -39,37 +116,222 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Get or create admin session
+    // Get or create admin session - sessions belong to the admin who started
+    // them, and another admin's session_id is treated as unknown
     let adminSession = session_id
       ? await AdminSession.findOne({ session_id })
       : null;
 
+    if (adminSession && adminSession.admin_id !== adminId) {
+      console.warn(
+        `✋ Admin ${adminId} tried to load session ${session_id} owned by ${adminSession.admin_id}`
+      );
+      return NextResponse.json({ error: "Session not found" }, { status: 404 });
+    }
+
     if (!adminSession) {
-      const newSessionId = session_id || `admin-${uuidv4()}`;
+      // Always mint the id server-side so a client can't claim an id up front
       adminSession = await AdminSession.create({
-        admin_id: "admin", // Default admin ID
-        session_id: newSessionId,
+        admin_id: adminId,
+        session_id: `admin-${uuidv4()}`,
         messages: [],
         notes: [],
       });
     }
 
-    // Fetch all submitted applications once
-    const applicants = await Applicant.find({
-      submitted_at: { $exists: true, $ne: null },
-    }).lean();
-
-    // Create callback for status updates
-    const onStatusChange = async (email: string, status: string) => {
-      await Applicant.findOneAndUpdate(
-        { email: email.toLowerCase() },
-        {
-          $set: {
-            application_status: status,
-            reviewed_at: new Date().toISOString(),
+    // Drop confirmations nobody acted on in time
+    adminSession.pending_operations = adminSession.pending_operations.filter(
+      (p) => p.expires_at > new Date()
+    );
+
+    // Park a write until the admin confirms its id. Previewing the same
+    // operation again reuses its id; a changed count gets a new one.
+    const queuePendingOperation = (
+      pending: Pick<
+        IPendingDbOperation,
+        "fingerprint" | "operation" | "collection" | "matched_count"
+      >
+    ): string => {
+      const existing = adminSession.pending_operations.find(
+        (p) =>
+          p.fingerprint === pending.fingerprint &&
+          p.matched_count === pending.matched_count
+      );
+      if (existing) return existing.operation_id;
+
+      const now = new Date();
+      const operationId = generateOperationId();
+      adminSession.pending_operations = adminSession.pending_operations.filter(
+        (p) => p.fingerprint !== pending.fingerprint
+      );
+      adminSession.pending_operations.push({
+        ...pending,
+        operation_id: operationId,
+        created_at: now,
+        expires_at: new Date(now.getTime() + PENDING_OPERATION_TTL_MS),
+      });
+      return operationId;
+    };
+
+    // Error message, or null once the admin has confirmed this exact
+    // operation in their own message (the id is then used up)
+    const confirmPendingOperation = (
+      operationId: string | undefined,
+      fingerprint: string,
+      matchedCount: number
+    ): string | null => {
+      const pending = adminSession.pending_operations.find(
+        (p) => p.operation_id === operationId
+      );
+      if (!operationId || !pending) {
+        return "Needs a confirmed operation id. Preview it first to get one.";
+      }
+      if (
+        pending.fingerprint !== fingerprint ||
+        pending.matched_count !== matchedCount
+      ) {
+        return `${operationId} doesn't match this operation or what it touches changed. Preview it again.`;
+      }
+      if (!adminConfirmed(message, operationId)) {
+        return `The admin hasn't confirmed ${operationId}. Ask them to reply with it.`;
+      }
+      adminSession.pending_operations = adminSession.pending_operations.filter(
+        (p) => p.operation_id !== operationId
+      );
+      console.log(
+        `🔓 ${adminId} confirmed ${operationId}: ${pending.operation} ${matchedCount} ${pending.collection}`
+      );
+      return null;
+    };
+
+    // Create callback for review decisions - one email applies straight
+    // away, a batch is previewed and waits for the admin to confirm
+    const onStatusChange = async (
+      input: StatusChangeInput
+    ): Promise<StatusChangeResult> => {
+      const emails = [
+        ...new Set(input.emails.map((e) => e.trim().toLowerCase())),
+      ].sort();
+
+      if (emails.length > 1) {
+        const fingerprint = operationFingerprint({
+          operation: "status_batch",
+          collection: "applicants",
+          filter: emails,
+          update: {
+            status: input.status,
+            internal_notes: input.internal_notes,
+            applicant_feedback: input.applicant_feedback,
           },
+        });
+
+        if (!input.confirm_batch_id) {
+          const outcomes = await Promise.all(
+            emails.map(async (email) => {
+              const applicant = await findApplicant({ email });
+              return applicant
+                ? {
+                    email,
+                    name: applicant.name,
+                    previous_status: applicant.application_status || "pending",
+                  }
+                : { email, error: "not found or not submitted" };
+            })
+          );
+          const pendingBatchId = queuePendingOperation({
+            fingerprint,
+            operation: "status_batch",
+            collection: "applicants",
+            matched_count: emails.length,
+          });
+          return { applied: false, pendingBatchId, outcomes };
         }
-      );
+
+        const error = confirmPendingOperation(
+          input.confirm_batch_id,
+          fingerprint,
+          emails.length
+        );
+        if (error) return { applied: false, outcomes: [], error };
+      }
+
+      const outcomes: StatusChangeResult["outcomes"] = [];
+      for (const email of emails) {
+        const result = await applyReviewDecision(
+          {
+            email,
+            status: input.status,
+            internalNotes: input.internal_notes,
+            applicantFeedback: input.applicant_feedback,
+          },
+          {
+            reviewer: adminId,
+            source: "admin_ai",
+            metadata: {
+              admin_message: message,
+              ...(input.confirm_batch_id && {
+                batch_id: input.confirm_batch_id,
+              }),
+            },
+          }
+        );
+        outcomes.push(
+          result.ok
+            ? {
+                email,
+                name: result.application.name,
+                previous_status: result.application.previous_status,
+              }
+            : { email, error: result.message }
+        );
+      }
+      return { applied: true, outcomes };
+    };
+
+    // Audit a query_db write, one event per touched document. Filters and
+    // updates are kept as JSON strings since they contain $-operators.
+    const auditDbWrite = async (
+      operation: "create" | "update" | "delete",
+      collection: string,
+      before: object[],
+      after: object[],
+      details: Record<string, unknown>
+    ) => {
+      const targetType = collection.replace(/s$/, "");
+      const targetId = (doc: object) => {
+        const d = doc as Record<string, unknown>;
+        return String(d.email || d.session_id || d._id);
+      };
+      const afterById = new Map(after.map((d) => [targetId(d), d]));
+      const touched = operation === "create" ? after : before;
+
+      for (const doc of touched) {
+        const id = targetId(doc);
+        await recordAuditEvent({
+          actor: { type: "admin", id: adminId },
+          action: `db.${operation}`,
+          target: { type: targetType, id },
+          source: "admin_ai",
+          before: operation === "create" ? undefined : doc,
+          after: afterById.get(id),
+          metadata: { collection, ...details, admin_message: message },
+        });
+      }
+
+      if (before.length >= AUDIT_SNAPSHOT_LIMIT) {
+        await recordAuditEvent({
+          actor: { type: "admin", id: adminId },
+          action: `db.${operation}_bulk`,
+          target: { type: targetType, id: `${collection} (bulk)` },
+          source: "admin_ai",
+          metadata: {
+            collection,
+            ...details,
+            audited_documents: before.length,
+            admin_message: message,
+          },
+        });
+      }
     };
 
     // Create callback for saving notes
@@ -128,6 +390,8 @@ export async function POST(request: NextRequest) {
         skip = 0,
         document,
         update,
+        dry_run,
+        confirm_operation_id,
       } = options;
 
       try {
@@ -143,6 +407,77 @@ export async function POST(request: NextRequest) {
             ? sort
             : undefined;
 
+        // Everything the model wrote goes through the allowlists first
+        const guardError =
+          validateFilter(collection, safeFilter) ||
+          validateFields(collection, Object.keys(safeProjection || {})) ||
+          validateFields(collection, Object.keys(safeSort || {})) ||
+          (operation === "update"
+            ? validateUpdate(collection, update)
+            : null) ||
+          (operation === "create"
+            ? validateDocument(collection, document)
+            : null);
+        if (guardError) {
+          console.warn(`✋ query_db blocked for ${adminId}: ${guardError}`);
+          return { success: false, error: guardError };
+        }
+
+        if (operation === "update" || operation === "delete") {
+          if (Object.keys(safeFilter).length === 0) {
+            return { success: false, error: "A filter is required for writes" };
+          }
+
+          const matchedCount = await GUARDED_MODELS[collection].count(
+            safeFilter
+          );
+          const fingerprint = operationFingerprint({
+            operation,
+            collection,
+            filter: safeFilter,
+            update,
+          });
+
+          if (dry_run) {
+            const sample = await GUARDED_MODELS[collection].sample(
+              safeFilter,
+              DRY_RUN_SAMPLE_SIZE
+            );
+
+            // Over the threshold: park it until the admin confirms the id
+            const pendingOperationId =
+              matchedCount > CONFIRM_THRESHOLD
+                ? queuePendingOperation({
+                    fingerprint,
+                    operation,
+                    collection,
+                    matched_count: matchedCount,
+                  })
+                : undefined;
+
+            return {
+              success: true,
+              matchedCount,
+              pendingOperationId,
+              data: sample.map((doc) => sanitizeDocument(collection, doc)),
+            };
+          }
+
+          if (matchedCount > CONFIRM_THRESHOLD) {
+            const error = confirmPendingOperation(
+              confirm_operation_id,
+              fingerprint,
+              matchedCount
+            );
+            if (error) {
+              return {
+                success: false,
+                error: `This matches ${matchedCount} documents. ${error}`,
+              };
+            }
+          }
+        }
+
         // Handle each collection separately to avoid TypeScript union issues
         if (collection === "applicants") {
           if (operation === "read") {
@@ -155,7 +490,10 @@ export async function POST(request: NextRequest) {
               .skip(skip)
               .limit(limit)
               .lean();
-            return { success: true, data: results };
+            return {
+              success: true,
+              data: results.map((doc) => sanitizeDocument(collection, doc)),
+            };
           }
           if (operation === "create") {
             if (!document)
@@ -164,23 +502,48 @@ export async function POST(request: NextRequest) {
               ...document,
               created_at: new Date(),
             });
+            await auditDbWrite(
+              "create",
+              "applicants",
+              [],
+              [newDoc.toObject()],
+              {}
+            );
             return { success: true, insertedId: newDoc?._id?.toString() };
           }
           if (operation === "update") {
             if (!update) return { success: false, error: "No update provided" };
-            const updateWithTimestamp = update.$set
-              ? { ...update, $set: { ...update.$set, updated_at: new Date() } }
-              : { $set: { ...update, updated_at: new Date() } };
+            const before = await Applicant.find(safeFilter)
+              .limit(AUDIT_SNAPSHOT_LIMIT)
+              .lean();
             const result = await Applicant.updateMany(
               safeFilter,
-              updateWithTimestamp
+              withUpdatedAt(update)
             );
+            const after = await Applicant.find({
+              _id: { $in: before.map((d) => d._id) },
+            }).lean();
+            await auditDbWrite("update", "applicants", before, after, {
+              filter: JSON.stringify(safeFilter),
+              update: JSON.stringify(update),
+              modified_count: result.modifiedCount,
+            });
             return { success: true, modifiedCount: result.modifiedCount };
           }
           if (operation === "delete") {
+            const before = await Applicant.find(safeFilter)
+              .limit(AUDIT_SNAPSHOT_LIMIT)
+              .lean();
             const result = await Applicant.updateMany(safeFilter, {
               $set: { deleted_at: new Date() },
             });
+            const after = await Applicant.find({
+              _id: { $in: before.map((d) => d._id) },
+            }).lean();
+            await auditDbWrite("delete", "applicants", before, after, {
+              filter: JSON.stringify(safeFilter),
+              modified_count: result.modifiedCount,
+            });
             return { success: true, modifiedCount: result.modifiedCount };
           }
         }
@@ -196,7 +559,10 @@ export async function POST(request: NextRequest) {
               .skip(skip)
               .limit(limit)
               .lean();
-            return { success: true, data: results };
+            return {
+              success: true,
+              data: results.map((doc) => sanitizeDocument(collection, doc)),
+            };
           }
           if (operation === "create") {
             if (!document)
@@ -205,23 +571,48 @@ export async function POST(request: NextRequest) {
               ...document,
               created_at: new Date(),
             });
+            await auditDbWrite(
+              "create",
+              "feedback",
+              [],
+              [newDoc.toObject()],
+              {}
+            );
             return { success: true, insertedId: newDoc?._id?.toString() };
           }
           if (operation === "update") {
             if (!update) return { success: false, error: "No update provided" };
-            const updateWithTimestamp = update.$set
-              ? { ...update, $set: { ...update.$set, updated_at: new Date() } }
-              : { $set: { ...update, updated_at: new Date() } };
+            const before = await Feedback.find(safeFilter)
+              .limit(AUDIT_SNAPSHOT_LIMIT)
+              .lean();
             const result = await Feedback.updateMany(
               safeFilter,
-              updateWithTimestamp
+              withUpdatedAt(update)
             );
+            const after = await Feedback.find({
+              _id: { $in: before.map((d) => d._id) },
+            }).lean();
+            await auditDbWrite("update", "feedback", before, after, {
+              filter: JSON.stringify(safeFilter),
+              update: JSON.stringify(update),
+              modified_count: result.modifiedCount,
+            });
             return { success: true, modifiedCount: result.modifiedCount };
           }
           if (operation === "delete") {
+            const before = await Feedback.find(safeFilter)
+              .limit(AUDIT_SNAPSHOT_LIMIT)
+              .lean();
             const result = await Feedback.updateMany(safeFilter, {
               $set: { deleted_at: new Date() },
             });
+            const after = await Feedback.find({
+              _id: { $in: before.map((d) => d._id) },
+            }).lean();
+            await auditDbWrite("delete", "feedback", before, after, {
+              filter: JSON.stringify(safeFilter),
+              modified_count: result.modifiedCount,
+            });
             return { success: true, modifiedCount: result.modifiedCount };
           }
         }
@@ -237,7 +628,10 @@ export async function POST(request: NextRequest) {
               .skip(skip)
               .limit(limit)
               .lean();
-            return { success: true, data: results };
+            return {
+              success: true,
+              data: results.map((doc) => sanitizeDocument(collection, doc)),
+            };
           }
           if (operation === "create") {
             if (!document)
@@ -246,23 +640,48 @@ export async function POST(request: NextRequest) {
               ...document,
               created_at: new Date(),
             });
+            await auditDbWrite(
+              "create",
+              "sessions",
+              [],
+              [newDoc.toObject()],
+              {}
+            );
             return { success: true, insertedId: newDoc?._id?.toString() };
           }
           if (operation === "update") {
             if (!update) return { success: false, error: "No update provided" };
-            const updateWithTimestamp = update.$set
-              ? { ...update, $set: { ...update.$set, updated_at: new Date() } }
-              : { $set: { ...update, updated_at: new Date() } };
+            const before = await Session.find(safeFilter)
+              .limit(AUDIT_SNAPSHOT_LIMIT)
+              .lean();
             const result = await Session.updateMany(
               safeFilter,
-              updateWithTimestamp
+              withUpdatedAt(update)
             );
+            const after = await Session.find({
+              _id: { $in: before.map((d) => d._id) },
+            }).lean();
+            await auditDbWrite("update", "sessions", before, after, {
+              filter: JSON.stringify(safeFilter),
+              update: JSON.stringify(update),
+              modified_count: result.modifiedCount,
+            });
             return { success: true, modifiedCount: result.modifiedCount };
           }
           if (operation === "delete") {
+            const before = await Session.find(safeFilter)
+              .limit(AUDIT_SNAPSHOT_LIMIT)
+              .lean();
             const result = await Session.updateMany(safeFilter, {
               $set: { deleted_at: new Date() },
             });
+            const after = await Session.find({
+              _id: { $in: before.map((d) => d._id) },
+            }).lean();
+            await auditDbWrite("delete", "sessions", before, after, {
+              filter: JSON.stringify(safeFilter),
+              modified_count: result.modifiedCount,
+            });
             return { success: true, modifiedCount: result.modifiedCount };
           }
         }
@@ -276,15 +695,35 @@ export async function POST(request: NextRequest) {
       }
     };
 
-    const systemPrompt = buildAdminPrompt();
+    // Read-only aggregations, already validated by the analytics tool
+    const onAnalytics = async (
+      collection: GuardedCollection,
+      pipeline: Record<string, unknown>[]
+    ) =>
+      GUARDED_MODELS[collection].aggregate(
+        pipeline as unknown as PipelineStage[]
+      );
 
-    // Create admin tools with applicants data and callbacks
+    // Create callback for rubric proposals - stored for a reviewer to accept
+    const onProposeScores = async (input: RubricProposalInput) => {
+      const result = await saveRubricProposal(input.email, input.scores, {
+        reviewer: adminId,
+        source: "admin_ai",
+        metadata: { admin_message: message },
+      });
+      return result.ok ? {} : { error: result.message };
+    };
+
+    const systemPrompt = buildAdminPrompt(await getRubricCriteria());
+
+    // Create admin tools with callbacks
     const tools = createAdminTools(
-      applicants,
       onStatusChange,
       onSaveNote,
       onGetNotes,
-      onDbOperation
+      onDbOperation,
+      onAnalytics,
+      onProposeScores
     );
 
     // Build message history from session
@@ -306,11 +745,11 @@ export async function POST(request: NextRequest) {
       timestamp: new Date(),
     });
 
-    // Generate response with tools
+    // Generate response with tools, falling back through the admin model chain
     let response;
+    let provider: string;
     try {
-      response = await ai.generate({
-        model: googleAI.model("gemini-2.5-flash"),
+      ({ response, provider } = await generateWithFallback("admin", {
         system: systemPrompt,
         messages: messageHistory,
         tools,
@@ -318,7 +757,7 @@ export async function POST(request: NextRequest) {
           temperature: 0.7,
         },
         maxTurns: 20, // Allow tool calls + final response
-      });
+      }));
     } catch (error) {
       console.error("AI generation error:", error);
       throw error;
@@ -332,6 +771,7 @@ export async function POST(request: NextRequest) {
       role: "assistant",
       content: textContent,
       timestamp: new Date(),
+      provider,
     });
 
     await adminSession.save();
@@ -339,6 +779,7 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({
       message: textContent,
       session_id: adminSession.session_id,
+      provider,
     });
   } catch (error) {
     console.error("Admin assistant error:", error);
@@ -1,21 +1,46 @@
 import ai from "@/app/api/chat/ai/config";
 import { z } from "genkit";
+import type { ApplicationStatus } from "@/lib/models/applicant";
+import { CONFIRM_THRESHOLD } from "@/lib/query-guard";
+import {
+  countApplicantsByStatus,
+  findApplicant,
+  listApplicants,
+  MAX_PAGE_SIZE,
+} from "@/lib/applicant-repository";
+import {
+  ANALYTICS_TEMPLATES,
+  buildAnalyticsPipeline,
+  DATE_FIELDS,
+  finalizeAnalyticsRows,
+  MAX_ANALYTICS_ROWS,
+  NUMERIC_FIELDS,
+  toMarkdownTable,
+} from "@/lib/analytics";
 
 /**
  * Admin Tools
  *
  * Tools for admin dashboard to manage applications and make review decisions.
- * These tools work with applicant data passed from the route handler.
- * No redundant DB connections - the route handler manages all database access.
+ * Applicant tools query MongoDB through lib/applicant-repository on every
+ * call, so they always see current data (e.g. a status changed earlier in the
+ * same turn). The route handler connects to the database first and provides
+ * callbacks for writes that need the admin's identity.
  *
  * Tools included:
- * - list_applicants: Filter and display applicants from provided data
- * - get_applicant: Get detailed profile from provided applicants list
+ * - list_applicants: Filter, search and page through applicants
+ * - get_applicant: Get detailed profile for one applicant
  * - update_status: Change application status (requires route handler callback)
- * - get_dashboard_stats: Compute metrics from provided applicants
+ * - propose_rubric_scores: Suggest rubric scores backed by quotes, for a
+ *   reviewer to accept or adjust (see lib/rubric)
+ * - get_dashboard_stats: Status counts computed in the database
+ * - run_analytics: Read-only aggregations (templates or validated pipelines)
+ *   returned as markdown tables (see lib/analytics)
  * - save_note: Save important information to memory for later recall
  * - get_notes: Retrieve saved notes from memory
- * - query_db: Flexible MongoDB CRUD operations (soft deletes only)
+ * - query_db: Flexible MongoDB CRUD operations (soft deletes only). Filters
+ *   and updates are allowlisted, writes are dry-run first, and big writes wait
+ *   for the admin to confirm (see lib/query-guard)
  *
  * @module admin/tools
  */
@@ -35,6 +60,10 @@ export interface DbOperationOptions {
   // For update operations
   update?: Record<string, any>;
   // For delete (soft) - filter is used to find documents
+  // For update/delete: only count and sample the matches, change nothing
+  dry_run?: boolean;
+  // For update/delete over the threshold: the id the admin confirmed
+  confirm_operation_id?: string;
 }
 
 export interface DbOperationResult {
@@ -42,25 +71,77 @@ export interface DbOperationResult {
   data?: any[];
   modifiedCount?: number;
   insertedId?: string;
+  // Dry runs: how many documents match, and the pending id if confirmation
+  // is needed
+  matchedCount?: number;
+  pendingOperationId?: string;
   error?: string;
 }
 
+// Review decision for one or more applicants
+export interface StatusChangeInput {
+  emails: string[];
+  status: ApplicationStatus;
+  internal_notes?: string;
+  applicant_feedback?: string;
+  // For batches: the id the admin confirmed
+  confirm_batch_id?: string;
+}
+
+export interface StatusChangeResult {
+  applied: boolean; // false = batch preview waiting for confirmation
+  pendingBatchId?: string;
+  outcomes: {
+    email: string;
+    name?: string;
+    previous_status?: string;
+    error?: string;
+  }[];
+  error?: string;
+}
+
+// Suggested rubric scores for one applicant
+export interface RubricProposalInput {
+  email: string;
+  scores: {
+    criterion: string;
+    score: number;
+    quote: string;
+    justification: string;
+  }[];
+}
+
+const STATUS_EMOJI: Record<string, string> = {
+  pending: "⏳",
+  accepted: "✅",
+  rejected: "❌",
+  waitlisted: "📋",
+};
+
+// "email", "session_id" or id - whatever names a document best
+const documentLabel = (doc: Record<string, any>) =>
+  doc.email || doc.session_id || String(doc._id);
+
 export function createAdminTools(
-  applicants: any[],
-  onStatusChange?: (email: string, status: string) => Promise<void>,
+  onStatusChange?: (input: StatusChangeInput) => Promise<StatusChangeResult>,
   onSaveNote?: (key: string, value: string) => Promise<void>,
   onGetNotes?: (key?: string) => Promise<string>,
-  onDbOperation?: (options: DbOperationOptions) => Promise<DbOperationResult>
+  onDbOperation?: (options: DbOperationOptions) => Promise<DbOperationResult>,
+  onAnalytics?: (
+    collection: DbOperationOptions["collection"],
+    pipeline: Record<string, unknown>[]
+  ) => Promise<Record<string, unknown>[]>,
+  onProposeScores?: (input: RubricProposalInput) => Promise<{ error?: string }>
 ) {
   // List applicants with filtering
   const listApplicantsTool = ai.defineTool(
     {
       name: "list_applicants",
       description:
-        "Search and filter applicants from the dashboard. filter by status (pending, accepted, rejected), search by name/email, or list all applicants.",
+        "Search and filter applicants, newest first or by rubric score. filter by status (pending, accepted, rejected, waitlisted), search by name/email, or list all applicants. results are paged - use page to see more.",
       inputSchema: z.object({
         status: z
-          .enum(["all", "pending", "accepted", "rejected"])
+          .enum(["all", "pending", "accepted", "rejected", "waitlisted"])
           .optional()
           .describe("Filter by application status"),
         search: z
@@ -71,60 +152,55 @@ export function createAdminTools(
           .number()
           .optional()
           .default(15)
-          .describe("Max results to return (max 50)"),
+          .describe(`Results per page (max ${MAX_PAGE_SIZE})`),
+        page: z
+          .number()
+          .optional()
+          .default(1)
+          .describe("Page number, starting at 1"),
+        sort: z
+          .enum(["newest", "score"])
+          .optional()
+          .describe("newest first (default) or highest rubric score first"),
       }),
       outputSchema: z.string(),
     },
     async (input) => {
       try {
-        const limit = Math.min(input.limit || 15, 50);
-
-        // Filter applicants from provided data (already filtered by submitted_at in route)
-        let filtered = [...applicants];
-
-        // Status filter
-        if (input.status && input.status !== "all") {
-          filtered = filtered.filter(
-            (app) => (app.application_status || "pending") === input.status
-          );
-        }
-
-        // Search filter
-        if (input.search) {
-          const searchLower = input.search.toLowerCase();
-          filtered = filtered.filter((app) => {
-            const name = app.name || "";
-            const email = app.email || "";
-            return (
-              name.toLowerCase().includes(searchLower) ||
-              email.toLowerCase().includes(searchLower)
-            );
-          });
-        }
-
-        // Limit results
-        const results = filtered.slice(0, limit);
+        const limit = Math.min(input.limit || 15, MAX_PAGE_SIZE);
+        const page = Math.max(Math.floor(input.page || 1), 1);
+
+        const { applicants: results, total } = await listApplicants({
+          status:
+            input.status && input.status !== "all" ? input.status : undefined,
+          search: input.search,
+          limit,
+          skip: (page - 1) * limit,
+          sort: input.sort,
+        });
 
         if (results.length === 0) {
-          return "no applicants found.";
+          return total > 0
+            ? `no applicants on page ${page} (${total} total match).`
+            : "no applicants found.";
         }
 
+        const first = (page - 1) * limit + 1;
+        const last = first + results.length - 1;
         const list = results
           .map((app, idx) => {
             const status = app.application_status || "pending";
-            const emoji =
-              status === "accepted"
-                ? "✅"
-                : status === "rejected"
-                ? "❌"
-                : "⏳";
-            return `${idx + 1}. ${app.name} (${app.email}) | ${
+            const emoji = STATUS_EMOJI[status] || "⏳";
+            return `${first + idx}. ${app.name} (${app.email}) | ${
               app.engineering_area
-            } | ${emoji} ${status}`;
+            } | ${emoji} ${status}${
+              app.rubric_score !== undefined ? ` | ★ ${app.rubric_score}` : ""
+            }`;
           })
           .join("\n");
 
-        return `${results.length} applicants (${filtered.length} total match):\n${list}`;
+        const more = last < total ? `\n(more on page ${page + 1})` : "";
+        return `applicants ${first}-${last} of ${total} matching:\n${list}${more}`;
       } catch (error) {
         return `error listing applicants: ${
           error instanceof Error ? error.message : "unknown error"
@@ -154,19 +230,10 @@ export function createAdminTools(
           return "provide either email or name";
         }
 
-        // Search from provided applicants data
-        let app = null;
-
-        if (input.email) {
-          app = applicants.find(
-            (a) => a.email?.toLowerCase() === input.email?.toLowerCase()
-          );
-        } else if (input.name) {
-          const nameLower = input.name.toLowerCase();
-          app = applicants.find((a) =>
-            a.name?.toLowerCase().includes(nameLower)
-          );
-        }
+        const app = await findApplicant({
+          email: input.email,
+          name: input.name,
+        });
 
         if (!app) {
           return "applicant not found.";
@@ -181,15 +248,58 @@ goals: ${app.career_goals}
 github: ${app.github || "not provided"}
 linkedin: ${app.linkedin || "not provided"}
 portfolio: ${app.portfolio || "not provided"}
-time commitment: ${app.time_commitment}
-submitted: ${app.submitted_at}
-`;
-
-        if (app.review_notes) {
-          return info + `notes: ${app.review_notes}`;
+time commitment: ${app.time_commitment}${
+          app.time_commitment_hours != null
+            ? ` (~${app.time_commitment_hours}h/week)`
+            : ""
         }
+submitted: ${app.submitted_at}${
+          app.failed_phrase_attempts
+            ? `\nfailed secret phrase attempts: ${app.failed_phrase_attempts}${
+                app.phrase_locked_until && app.phrase_locked_until > new Date()
+                  ? ` (locked until ${app.phrase_locked_until.toISOString()})`
+                  : ""
+              }`
+            : ""
+        }
+${Object.entries(app.answers || {})
+  .map(([key, value]) => `${key.replace(/_/g, " ")}: ${value}`)
+  .join("\n")}
+`;
 
-        return info;
+        const notes = [
+          app.internal_notes && `internal notes: ${app.internal_notes}`,
+          app.applicant_feedback &&
+            `feedback for applicant: ${app.applicant_feedback}`,
+          app.reviewed_by &&
+            `last decided by ${app.reviewed_by} at ${app.reviewed_at}`,
+          app.rubric_scores?.length &&
+            `rubric (aggregate ★ ${app.rubric_score}):\n${app.rubric_scores
+              .map(
+                (card) =>
+                  `- ${card.reviewer}: ${card.scores
+                    .map((s) => `${s.criterion} ${s.score}`)
+                    .join(", ")}`
+              )
+              .join("\n")}`,
+          app.rubric_proposal &&
+            `proposed rubric scores (not accepted yet): ${app.rubric_proposal.scores
+              .map((s) => `${s.criterion} ${s.score}`)
+              .join(", ")}`,
+          app.status_history?.length &&
+            `status history:\n${app.status_history
+              .map(
+                (entry) =>
+                  `- ${entry.timestamp.toISOString()} ${entry.from} → ${
+                    entry.to
+                  } by ${entry.actor}${
+                    entry.undone_at ? ` (undone by ${entry.undone_by})` : ""
+                  }${entry.notes ? `: ${entry.notes}` : ""}`
+              )
+              .join("\n")}`,
+        ].filter(Boolean);
+
+        return notes.length ? info + notes.join("\n") : info;
       } catch (error) {
         return `error fetching applicant: ${
           error instanceof Error ? error.message : "unknown error"
@@ -198,21 +308,44 @@ submitted: ${app.submitted_at}
     }
   );
 
-  // Update application status
+  // Review decisions - same effect as deciding from the dashboard
   const updateStatusTool = ai.defineTool(
     {
       name: "update_status",
-      description:
-        "Change an applicant's application status to pending, accepted, or rejected. allows moving applicants backward (e.g., from accepted back to pending for re-review).",
+      description: `Decide applications: set status to pending, accepted, rejected or waitlisted, recorded under the admin's name. allows moving applicants backward (e.g., from accepted back to pending for re-review).
+
+- internal_notes: reviewer-only notes on why (e.g. "weak github, strong goals"). never shown to the applicant.
+- applicant_feedback: what the applicant should hear about the decision. write it to them, kindly and directly.
+Leave a note out to keep the current one.
+
+For several applicants at once, pass emails. Batches are never applied on the first call: you get a preview and a batch id (like op-3f9a1c). Show the admin the preview, ask them to reply with the id, and only then call again with the same arguments plus confirm_batch_id. Never confirm on the admin's behalf.`,
       inputSchema: z.object({
-        email: z.string().describe("Applicant email address to update"),
+        email: z
+          .string()
+          .optional()
+          .describe("Applicant email address to update"),
+        emails: z
+          .array(z.string())
+          .max(MAX_PAGE_SIZE)
+          .optional()
+          .describe("Several applicant emails for a batch decision"),
         status: z
-          .enum(["pending", "accepted", "rejected"])
+          .enum(["pending", "accepted", "rejected", "waitlisted"])
           .describe("New status to set"),
-        notes: z
+        internal_notes: z
+          .string()
+          .optional()
+          .describe("Reviewer-only notes explaining the decision"),
+        applicant_feedback: z
+          .string()
+          .optional()
+          .describe("Feedback for the applicant about the decision"),
+        confirm_batch_id: z
           .string()
           .optional()
-          .describe("Optional review notes explaining the decision"),
+          .describe(
+            "For batches: the id from the preview, only once the admin has replied with it"
+          ),
       }),
       outputSchema: z.string(),
     },
@@ -222,21 +355,61 @@ submitted: ${app.submitted_at}
           return "status update not available in this context";
         }
 
-        // Find the applicant
-        const applicant = applicants.find(
-          (a) => a.email?.toLowerCase() === input.email?.toLowerCase()
-        );
+        const emails = [
+          ...(input.email ? [input.email] : []),
+          ...(input.emails || []),
+        ];
+        if (emails.length === 0) {
+          return "provide email, or emails for a batch";
+        }
 
-        if (!applicant) {
-          return `applicant with email ${input.email} not found`;
+        const result = await onStatusChange({
+          emails,
+          status: input.status,
+          internal_notes: input.internal_notes,
+          applicant_feedback: input.applicant_feedback,
+          confirm_batch_id: input.confirm_batch_id,
+        });
+
+        if (result.error) {
+          return `batch not applied: ${result.error}`;
         }
 
-        // Call the update handler with email
-        await onStatusChange(applicant.email, input.status);
+        const lines = result.outcomes.map((o) =>
+          o.error
+            ? `- ${o.email}: ❌ ${o.error}`
+            : `- ${o.name || o.email} (${o.email}): ${o.previous_status} → ${
+                input.status
+              }`
+        );
 
-        return `✅ ${applicant.name}'s application has been ${input.status}${
-          input.notes ? ` with note: ${input.notes}` : ""
-        }`;
+        if (!result.applied) {
+          return `batch preview - nothing changed yet. ${
+            result.outcomes.length
+          } applicant(s) would be ${input.status}:\n${lines.join(
+            "\n"
+          )}\n\n⚠️ show the admin this list and ask them to reply with \`${
+            result.pendingBatchId
+          }\` to go ahead. then call update_status again with the same arguments and confirm_batch_id="${
+            result.pendingBatchId
+          }".`;
+        }
+
+        const notes = [
+          input.internal_notes !== undefined && "internal notes saved",
+          input.applicant_feedback !== undefined && "applicant feedback saved",
+        ].filter(Boolean);
+        const done = result.outcomes.filter((o) => !o.error).length;
+        if (emails.length === 1) {
+          return done
+            ? `✅ ${lines[0].slice(2)}${
+                notes.length ? ` (${notes.join(", ")})` : ""
+              }`
+            : `couldn't update ${lines[0].slice(2)}`;
+        }
+        return `✅ ${done} of ${result.outcomes.length} applicant(s) updated${
+          notes.length ? ` (${notes.join(", ")})` : ""
+        }:\n${lines.join("\n")}`;
       } catch (error) {
         return `error updating status: ${
           error instanceof Error ? error.message : "unknown error"
@@ -245,30 +418,74 @@ submitted: ${app.submitted_at}
     }
   );
 
+  // Rubric suggestions - a reviewer accepts or adjusts them in the dashboard
+  const proposeScoresTool = ai.defineTool(
+    {
+      name: "propose_rubric_scores",
+      description: `Propose rubric scores (1-5 per criterion) for one applicant. call get_applicant first and score from what they actually wrote.
+
+Every score needs a quote: their exact words (copied, not paraphrased) from the answers the criterion is judged on, plus a one-line justification. Scores whose quote isn't in their answers are refused. If there's nothing to quote for a criterion, leave it out rather than guessing.
+
+Proposals are suggestions only - they show up on the applicant's rubric panel, where the reviewer accepts or adjusts them. Never present them as final scores.`,
+      inputSchema: z.object({
+        email: z.string().describe("Applicant email address"),
+        scores: z
+          .array(
+            z.object({
+              criterion: z.string().describe("Rubric criterion key"),
+              score: z.number().int().min(1).max(5),
+              quote: z
+                .string()
+                .describe("The applicant's exact words this score rests on"),
+              justification: z
+                .string()
+                .describe("Why the quote earns this score, in one line"),
+            })
+          )
+          .min(1),
+      }),
+      outputSchema: z.string(),
+    },
+    async (input) => {
+      try {
+        if (!onProposeScores) {
+          return "rubric proposals not available in this context";
+        }
+
+        const result = await onProposeScores(input);
+        if (result.error) {
+          return `proposal not saved: ${result.error}`;
+        }
+
+        const lines = input.scores.map(
+          (s) =>
+            `- ${s.criterion}: ${s.score}/5 - "${s.quote}" (${s.justification})`
+        );
+        return `📝 proposed rubric scores for ${
+          input.email
+        } (waiting on a reviewer):\n${lines.join(
+          "\n"
+        )}\n\nthe admin can accept or adjust them from the applicant's rubric panel.`;
+      } catch (error) {
+        return `error proposing scores: ${
+          error instanceof Error ? error.message : "unknown error"
+        }`;
+      }
+    }
+  );
+
   // Get dashboard stats
   const getStatsTool = ai.defineTool(
     {
       name: "get_dashboard_stats",
       description:
-        "Get overview statistics about applications: total, pending, accepted, rejected, and approval rate.",
+        "Get overview statistics about applications: total, pending, accepted, rejected, waitlisted, and approval rate.",
       inputSchema: z.object({}),
       outputSchema: z.string(),
     },
     async () => {
       try {
-        // Applicants are already filtered by submitted_at in route
-        const stats = {
-          total: applicants.length,
-          pending: applicants.filter(
-            (a) => !a.application_status || a.application_status === "pending"
-          ).length,
-          accepted: applicants.filter(
-            (a) => a.application_status === "accepted"
-          ).length,
-          rejected: applicants.filter(
-            (a) => a.application_status === "rejected"
-          ).length,
-        };
+        const stats = await countApplicantsByStatus();
 
         const approvalRate =
           stats.accepted + stats.rejected > 0
@@ -284,6 +501,7 @@ dashboard stats:
 - pending: ${stats.pending}
 - accepted: ${stats.accepted}
 - rejected: ${stats.rejected}
+- waitlisted: ${stats.waitlisted}
 - approval rate: ${approvalRate}%
         `.trim();
       } catch (error) {
@@ -294,6 +512,122 @@ dashboard stats:
     }
   );
 
+  // Aggregation analytics
+  const analyticsTool = ai.defineTool(
+    {
+      name: "run_analytics",
+      description: `Read-only analytics over the whole database using MongoDB aggregation. Use it for breakdowns, rates, averages, medians and trends - anything beyond simple counts. Nothing is ever changed.
+
+Only submitted applications and non-deleted documents are counted. Results come back as a markdown table - include the table in your reply as-is so it renders for the admin.
+
+Templates:
+- count_by: documents per value of group_by (e.g. applicants by engineering_area, feedback by category, sessions by state), with each group's share
+- status_breakdown (applicants only): pending/accepted/rejected/waitlisted counts and acceptance rate (accepted / decided), overall or per group_by - e.g. acceptance rate by skill_level
+- numeric_summary: count, avg, median, min, max of a numeric field, overall or per group_by. Fields: applicants ${NUMERIC_FIELDS.applicants.join(
+        ", "
+      )}; feedback ${NUMERIC_FIELDS.feedback.join(
+        ", "
+      )}; sessions ${NUMERIC_FIELDS.sessions.join(", ")}
+- over_time: documents per day/week/month of a date field. Fields: applicants ${DATE_FIELDS.applicants.join(
+        ", "
+      )} (default submitted_at); feedback ${DATE_FIELDS.feedback.join(
+        ", "
+      )}; sessions ${DATE_FIELDS.sessions.join(", ")}
+- custom: your own pipeline_json. Stages allowed: $match, $group, $project, $sort, $limit, $count. Expressions can use fields of the collection and common operators ($sum, $avg, $min, $max, $cond, $eq, $ifNull, $divide, $round, $dateToString, ...). No $lookup, $$ROOT or other variables.
+
+filter_json narrows any template first, e.g. {"engineering_area": "backend"}. Results are capped at ${MAX_ANALYTICS_ROWS} rows.
+
+Examples:
+- acceptance rate by skill level: template="status_breakdown", collection="applicants", group_by="skill_level"
+- median time commitment of backend applicants: template="numeric_summary", collection="applicants", field="time_commitment_hours", filter_json='{"engineering_area": "backend"}'
+- average rating per category: template="numeric_summary", collection="feedback", field="rating", group_by="category"
+- custom: pipeline_json='[{"$group": {"_id": "$tech_focus", "avg_hours": {"$avg": "$time_commitment_hours"}}}, {"$sort": {"avg_hours": -1}}]'`,
+      inputSchema: z.object({
+        template: z.enum(ANALYTICS_TEMPLATES).describe("Which analysis to run"),
+        collection: z
+          .enum(["applicants", "feedback", "sessions"])
+          .describe("Which collection to analyse"),
+        group_by: z
+          .string()
+          .optional()
+          .describe(
+            "Field to group by, e.g. skill_level, engineering_area, category, state"
+          ),
+        field: z
+          .string()
+          .optional()
+          .describe(
+            "numeric_summary: numeric field to summarise. over_time: date field to bucket by"
+          ),
+        interval: z
+          .enum(["day", "week", "month"])
+          .optional()
+          .describe("over_time bucket size (default: week)"),
+        filter_json: z
+          .string()
+          .optional()
+          .describe(
+            'Narrow the documents first, as a JSON filter. Example: \'{"application_status": "accepted"}\''
+          ),
+        pipeline_json: z
+          .string()
+          .optional()
+          .describe("custom template only: JSON array of pipeline stages"),
+      }),
+      outputSchema: z.string(),
+    },
+    async (input) => {
+      try {
+        if (!onAnalytics) {
+          return "analytics not available in this context";
+        }
+
+        let filter: Record<string, unknown> | undefined;
+        let pipeline: unknown;
+        try {
+          if (input.filter_json) filter = JSON.parse(input.filter_json);
+          if (input.pipeline_json) pipeline = JSON.parse(input.pipeline_json);
+        } catch (parseError) {
+          return `invalid JSON: ${
+            parseError instanceof Error ? parseError.message : "parse error"
+          }`;
+        }
+
+        const request = {
+          template: input.template,
+          collection: input.collection,
+          group_by: input.group_by,
+          field: input.field,
+          interval: input.interval,
+          filter,
+          pipeline,
+        };
+        const plan = buildAnalyticsPipeline(request);
+        if (typeof plan === "string") {
+          return `analytics error: ${plan}`;
+        }
+
+        const rows = finalizeAnalyticsRows(
+          request,
+          await onAnalytics(input.collection, plan.pipeline)
+        );
+        if (rows.length === 0) {
+          return `**${plan.title}**\n\nno matching data.`;
+        }
+
+        return `**${plan.title}**\n\n${toMarkdownTable(rows)}\n\n${
+          rows.length
+        } row(s)${
+          rows.length === MAX_ANALYTICS_ROWS ? " (capped - narrow it down)" : ""
+        }`;
+      } catch (error) {
+        return `error running analytics: ${
+          error instanceof Error ? error.message : "unknown error"
+        }`;
+      }
+    }
+  );
+
   // Save note/memory
   const saveNoteTool = ai.defineTool(
     {
@@ -358,6 +692,57 @@ dashboard stats:
     }
   );
 
+  /**
+   * Dry-run a write and describe it. `stop` means don't execute: nothing
+   * matches, the dry run failed, or the admin still has to confirm.
+   */
+  const previewWrite = async (
+    operation: DbOperationOptions
+  ): Promise<{ stop: boolean; message: string }> => {
+    const dryRun = await onDbOperation!({ ...operation, dry_run: true });
+    if (!dryRun.success) {
+      return {
+        stop: true,
+        message: `${operation.operation} error: ${dryRun.error}`,
+      };
+    }
+
+    const matched = dryRun.matchedCount || 0;
+    if (matched === 0) {
+      return {
+        stop: true,
+        message: `dry run: no documents in ${operation.collection} match - nothing changed.`,
+      };
+    }
+
+    // For updates, show the current values of the fields being changed
+    const updatedFields = operation.update
+      ? Object.keys(operation.update).some((key) => key.startsWith("$"))
+        ? Object.values(operation.update).flatMap((fields) =>
+            Object.keys(fields || {})
+          )
+        : Object.keys(operation.update)
+      : [];
+    const sample = (dryRun.data || [])
+      .map((doc) => {
+        const current = updatedFields
+          .map((field) => `${field}: ${JSON.stringify(doc[field] ?? null)}`)
+          .join(", ");
+        return `- ${documentLabel(doc)}${current ? ` (${current})` : ""}`;
+      })
+      .join("\n");
+    const message = `dry run: ${operation.operation} matches ${matched} document(s) in ${operation.collection}. sample:\n${sample}`;
+
+    if (dryRun.pendingOperationId && !operation.confirm_operation_id) {
+      return {
+        stop: true,
+        message: `${message}\n\n⚠️ nothing changed yet - this is over the ${CONFIRM_THRESHOLD}-document limit. show the admin this preview and ask them to reply with \`${dryRun.pendingOperationId}\` to go ahead. then call query_db again with the same arguments and confirm_operation_id="${dryRun.pendingOperationId}".`,
+      };
+    }
+
+    return { stop: false, message };
+  };
+
   // Flexible database CRUD tool
   const queryDbTool = ai.defineTool(
     {
@@ -365,7 +750,7 @@ dashboard stats:
       description: `Execute flexible MongoDB CRUD operations on the database. Supports read, create, update, and soft delete.
 
 Available collections:
-- applicants: User applications (fields: email, name, engineering_area, skill_level, career_goals, github, linkedin, portfolio, time_commitment, application_status, submitted_at, reviewed_at, deleted_at)
+- applicants: User applications (fields: email, name, engineering_area, skill_level, career_goals, github, linkedin, portfolio, time_commitment, time_commitment_hours, application_status, submitted_at, reviewed_at, deleted_at)
 - feedback: User feedback submissions (fields: session_id, rating, feedback, suggestions, category, created_at, deleted_at)
 - sessions: Chat sessions with full message content (fields: email, session_id, messages[{role, content, timestamp}], started_at, last_interaction, deleted_at)
 
@@ -375,6 +760,11 @@ Operations:
 3. UPDATE: Modify existing documents matching a filter
 4. DELETE: Soft delete - sets deleted_at timestamp (documents can be restored)
 
+Safety rules:
+- Only known fields of each collection and the operators listed below are allowed. secret_phrase_hash and secret phrases can never be read, filtered on or written.
+- Every update/delete is dry-run first and the result reports how many documents matched plus a sample.
+- If a write matches more than ${CONFIRM_THRESHOLD} documents, nothing is changed. You get an operation id (like op-3f9a1c). Show the admin the preview and ask them to reply with that id. Only after they've sent it, call query_db again with the same arguments plus confirm_operation_id. Never confirm on the admin's behalf.
+
 READ options:
 - raw_json=true: Returns full raw JSON data (useful for detailed inspection)
 - Sessions automatically show message content (truncated to 500 chars each)
@@ -387,11 +777,14 @@ Filter examples (JSON string):
 - In list: {"skill_level": {"$in": ["intermediate", "advanced"]}}
 - Exists: {"github": {"$exists": true}}
 - And/Or: {"$and": [...]} or {"$or": [...]}
+- Also allowed: $eq, $nin, $not, $elemMatch, $size, $nor. Anything else (e.g. $where, $expr) is rejected.
 
 Update examples (JSON string):
-- Set fields: {"$set": {"application_status": "accepted", "review_notes": "strong candidate"}}
+- Set fields: {"$set": {"internal_notes": "strong candidate", "time_commitment_hours": 10}}
 - Increment: {"$inc": {"recovery_attempts": 1}}
-- Unset: {"$unset": {"temporary_field": ""}}`,
+- Unset: {"$unset": {"temporary_field": ""}}
+- Only $set, $unset and $inc are allowed. _id, email, session_id and created_at can't be changed.
+- application_status, reviewed_by and reviewed_at are read-only here. To accept, reject, waitlist or reopen an application use update_status, which records who decided and keeps the status history.`,
       inputSchema: z.object({
         operation: z
           .enum(["read", "create", "update", "delete"])
@@ -415,7 +808,7 @@ Update examples (JSON string):
           .string()
           .optional()
           .describe(
-            'For UPDATE: MongoDB update operations as JSON string. Example: \'{"$set": {"application_status": "accepted"}}\''
+            'For UPDATE: MongoDB update operations as JSON string. Example: \'{"$set": {"internal_notes": "strong candidate"}}\''
           ),
         fields: z
           .array(z.string())
@@ -434,6 +827,12 @@ Update examples (JSON string):
           .number()
           .optional()
           .describe("For READ: results to skip for pagination"),
+        confirm_operation_id: z
+          .string()
+          .optional()
+          .describe(
+            "For UPDATE/DELETE over the confirmation threshold: the operation id from the dry run, only once the admin has replied with it"
+          ),
         raw_json: z
           .boolean()
           .optional()
@@ -508,12 +907,7 @@ Update examples (JSON string):
           if (input.collection === "applicants") {
             const formatted = results.map((doc, idx) => {
               const status = doc.application_status || "pending";
-              const emoji =
-                status === "accepted"
-                  ? "✅"
-                  : status === "rejected"
-                  ? "❌"
-                  : "⏳";
+              const emoji = STATUS_EMOJI[status] || "⏳";
 
               if (input.fields?.length) {
                 const fieldValues = input.fields
@@ -625,20 +1019,25 @@ Update examples (JSON string):
             }`;
           }
 
-          const result = await onDbOperation({
+          const operation: DbOperationOptions = {
             operation: "update",
             collection: input.collection,
             filter: safeFilter,
             update,
-          });
+            confirm_operation_id: input.confirm_operation_id,
+          };
+          const preview = await previewWrite(operation);
+          if (preview.stop) return preview.message;
+
+          const result = await onDbOperation(operation);
 
           if (!result.success) {
-            return `update error: ${result.error}`;
+            return `${preview.message}\n\nupdate error: ${result.error}`;
           }
 
-          return `✅ updated ${result.modifiedCount || 0} document(s) in ${
-            input.collection
-          }`;
+          return `${preview.message}\n\n✅ updated ${
+            result.modifiedCount || 0
+          } document(s) in ${input.collection}`;
         }
 
         // Handle DELETE (soft) operation
@@ -647,17 +1046,24 @@ Update examples (JSON string):
             return "delete operation requires filter_json to identify documents to delete (safety measure)";
           }
 
-          const result = await onDbOperation({
+          const operation: DbOperationOptions = {
             operation: "delete",
             collection: input.collection,
             filter: safeFilter,
-          });
+            confirm_operation_id: input.confirm_operation_id,
+          };
+          const preview = await previewWrite(operation);
+          if (preview.stop) return preview.message;
+
+          const result = await onDbOperation(operation);
 
           if (!result.success) {
-            return `delete error: ${result.error}`;
+            return `${preview.message}\n\ndelete error: ${result.error}`;
           }
 
-          return `✅ soft deleted ${result.modifiedCount || 0} document(s) in ${
+          return `${preview.message}\n\n✅ soft deleted ${
+            result.modifiedCount || 0
+          } document(s) in ${
             input.collection
           } (can be restored by unsetting deleted_at)`;
         }
@@ -675,7 +1081,9 @@ Update examples (JSON string):
     listApplicantsTool,
     getApplicantTool,
     updateStatusTool,
+    proposeScoresTool,
     getStatsTool,
+    analyticsTool,
     saveNoteTool,
     getNotesTool,
     queryDbTool,
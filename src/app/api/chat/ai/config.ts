@@ -1,29 +1,160 @@
-import { genkit, z } from "genkit";
+import {
+  genkit,
+  z,
+  type GenerateOptions,
+  type GenerateResponse,
+  type GenerateResponseChunk,
+} from "genkit";
 import { googleAI } from "@genkit-ai/google-genai";
+import openAICompatible from "@genkit-ai/compat-oai";
+import { defineScriptedModel, SCRIPTED_MODEL_NAME } from "./scripted-model";
+import { QUESTION_KEYS, type QuestionKey } from "@/lib/onboarding-questions";
+
+// Groq exposes an OpenAI-compatible API, so it plugs in through compat-oai
+const GROQ_API_KEY = process.env.GROQ_API_KEY;
 
 // Shared AI instance for tools and route
 const ai = genkit({
-  plugins: [googleAI()],
+  plugins: [
+    googleAI(),
+    ...(GROQ_API_KEY
+      ? [
+          openAICompatible({
+            name: "groq",
+            apiKey: GROQ_API_KEY,
+            baseURL: "https://api.groq.com/openai/v1",
+          }),
+        ]
+      : []),
+  ],
 });
 
-const saveDataSchema = z.object({
-  email: z.string().optional(),
-  name: z.string().optional(),
-  secret_phrase: z.string().optional(),
-  whatsapp: z.string().optional(),
-  engineering_area: z.string().optional(),
-  skill_level: z.string().optional(),
-  improvement_goals: z.string().optional(),
-  career_goals: z.string().optional(),
-  github: z.string().optional(),
-  linkedin: z.string().optional(),
-  portfolio: z.string().optional(),
-  projects: z.string().optional(),
-  time_commitment: z.string().optional(),
-  learning_style: z.string().optional(),
-  tech_focus: z.string().optional(),
-  success_definition: z.string().optional(),
-});
+// Offline mode: replay tool calls and replies from a fixture instead of an LLM
+const SCRIPTED_MODEL_FIXTURE = process.env.SCRIPTED_MODEL_FIXTURE;
+if (SCRIPTED_MODEL_FIXTURE) {
+  defineScriptedModel(ai, SCRIPTED_MODEL_FIXTURE);
+}
+
+// A model the routes can generate with, tried in chain order
+export interface ModelProvider {
+  model: string; // Genkit model name, e.g. "googleai/gemini-2.5-flash"
+  timeoutMs: number; // Give up if the first chunk hasn't arrived by then
+}
+
+export type ModelPurpose = "chat" | "admin";
+
+// Primary model first, then fallbacks. Override with CHAT_MODEL_CHAIN /
+// ADMIN_MODEL_CHAIN (comma-separated model names) without touching code.
+const DEFAULT_MODEL_CHAINS: Record<ModelPurpose, string[]> = {
+  chat: [
+    "googleai/gemini-3-flash-preview",
+    "googleai/gemini-2.5-flash",
+    "groq/llama-3.3-70b-versatile",
+  ],
+  admin: [
+    "googleai/gemini-2.5-flash",
+    "googleai/gemini-2.5-flash-lite",
+    "groq/llama-3.3-70b-versatile",
+  ],
+};
+
+const CHAIN_ENV: Record<ModelPurpose, string | undefined> = {
+  chat: process.env.CHAT_MODEL_CHAIN,
+  admin: process.env.ADMIN_MODEL_CHAIN,
+};
+
+const PROVIDER_TIMEOUT_MS = Number(process.env.MODEL_TIMEOUT_MS) || 30000;
+
+export function getModelChain(purpose: ModelPurpose): ModelProvider[] {
+  if (SCRIPTED_MODEL_FIXTURE) {
+    return [{ model: SCRIPTED_MODEL_NAME, timeoutMs: PROVIDER_TIMEOUT_MS }];
+  }
+
+  const models = CHAIN_ENV[purpose]
+    ? CHAIN_ENV[purpose]!.split(",")
+        .map((m) => m.trim())
+        .filter(Boolean)
+    : DEFAULT_MODEL_CHAINS[purpose];
+
+  return (
+    models
+      // Skip providers whose plugin isn't configured
+      .filter((model) => !model.startsWith("groq/") || !!GROQ_API_KEY)
+      .map((model) => ({ model, timeoutMs: PROVIDER_TIMEOUT_MS }))
+  );
+}
+
+/**
+ * Generate with the configured model chain for a purpose.
+ *
+ * Moves on to the next provider when one errors or times out before
+ * producing anything. Once a provider has streamed text or requested a tool,
+ * its error is rethrown instead - retrying would re-run tools and break state.
+ */
+export async function generateWithFallback(
+  purpose: ModelPurpose,
+  options: Omit<GenerateOptions, "model" | "abortSignal">,
+  onChunk?: (chunk: GenerateResponseChunk) => void
+): Promise<{ response: GenerateResponse; provider: string }> {
+  const chain = getModelChain(purpose);
+  let lastError: unknown = new Error(`No models configured for ${purpose}`);
+
+  for (const provider of chain) {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), provider.timeoutMs);
+    let committed = false;
+
+    try {
+      const { stream, response } = ai.generateStream({
+        ...options,
+        model: provider.model,
+        abortSignal: controller.signal,
+      });
+
+      for await (const chunk of stream) {
+        clearTimeout(timer);
+        if (chunk.text || chunk.toolRequests.length > 0) {
+          committed = true;
+        }
+        onChunk?.(chunk);
+      }
+
+      const result = await response;
+      console.log(`🤖 ${purpose} answered by ${provider.model}`);
+      return { response: result, provider: provider.model };
+    } catch (error) {
+      if (committed) throw error;
+
+      console.error(
+        `Model ${provider.model} failed${
+          controller.signal.aborted ? " (timed out)" : ""
+        }, trying next provider:`,
+        error
+      );
+      lastError = error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  throw lastError;
+}
+
+// One optional string per registry question, plus the explicit edit flag
+const saveDataSchema = z
+  .object(
+    Object.fromEntries(
+      QUESTION_KEYS.map((key) => [key, z.string().optional()])
+    ) as Record<QuestionKey, z.ZodOptional<z.ZodString>>
+  )
+  .extend({
+    edit: z
+      .boolean()
+      .optional()
+      .describe(
+        "Set to true ONLY when the user explicitly asked to change an earlier answer. Edits don't advance the state."
+      ),
+  });
 
 export default ai;
 export { saveDataSchema };
@@ -1,4 +1,8 @@
 import type { OnboardingState } from "@/lib/models/session";
+import {
+  ONBOARDING_QUESTIONS,
+  type QuestionState,
+} from "@/lib/onboarding-questions";
 
 // Welcome message
 export const WELCOME_MESSAGE = `yo! 👋
@@ -9,28 +13,13 @@ i'm the onboarding ai for **michael perry tettey's** mentorship program - traine
 
 let's get started. first, *drop your email* - this is how we'll identify you if you come back later.`;
 
-// Default suggestions for fallback
+// Default suggestions for fallback - question steps come from the registry
 export const DEFAULT_SUGGESTIONS: Record<OnboardingState, string[]> = {
-  AWAITING_EMAIL: [],
-  AWAITING_SECRET_PHRASE: [],
-  AWAITING_NAME: [],
-  AWAITING_WHATSAPP: [],
-  AWAITING_ENGINEERING_AREA: ["frontend", "backend", "full stack", "mobile"],
-  AWAITING_SKILL_LEVEL: ["beginner", "intermediate", "advanced"],
-  AWAITING_IMPROVEMENT_GOALS: ["system design", "clean code", "testing"],
-  AWAITING_CAREER_GOALS: ["land first job", "get promoted", "freelance"],
-  AWAITING_GITHUB: ["don't have one", "will share later"],
-  AWAITING_LINKEDIN: ["don't have one", "prefer not to share"],
-  AWAITING_PORTFOLIO: ["no portfolio yet", "working on it"],
-  AWAITING_PROJECTS: ["todo app", "portfolio", "nothing yet"],
-  AWAITING_TIME_COMMITMENT: ["5 hours/week", "10 hours/week", "15+ hours/week"],
-  AWAITING_LEARNING_STYLE: ["hands-on", "videos", "reading docs"],
-  AWAITING_TECH_FOCUS: ["javascript", "python", "rust", "go"],
-  AWAITING_SUCCESS_DEFINITION: [
-    "ship projects",
-    "get hired",
-    "build confidence",
-  ],
+  ...(Object.fromEntries(
+    ONBOARDING_QUESTIONS.map((q) => [q.state, [...q.suggestions]])
+  ) as Record<QuestionState, string[]>),
+  // Custom questions carry their own suggestions on the session
+  AWAITING_CUSTOM_QUESTIONS: [],
   COMPLETED: [
     "⭐ rate my experience",
     "check my status",
@@ -48,3 +37,29 @@ export const DEFAULT_SUGGESTIONS: Record<OnboardingState, string[]> = {
     "roast my github @handle",
   ],
 };
+
+// Short progress labels streamed to the client while a tool is running
+export const TOOL_PROGRESS_LABELS: Record<string, string> = {
+  save_and_continue: "saving your answer",
+  save_custom_answer: "saving your answer",
+  complete_onboarding: "submitting your application",
+  verify_secret_phrase: "checking your secret phrase",
+  send_login_code: "sending your login code",
+  verify_login_code: "checking your code",
+  start_fresh: "clearing old data",
+  find_user_profile: "looking you up",
+  update_profile: "updating your profile",
+  check_application_status: "checking your status",
+  initiate_recovery: "starting account recovery",
+  verify_recovery_answer: "verifying your answer",
+  reset_secret_phrase: "resetting your secret phrase",
+  search_giphy: "finding a meme",
+  start_meme_war: "loading memes",
+  analyze_url: "reading that link",
+  fetch_with_jina: "fetching that page",
+  roast_github_profile: "fetching github",
+  roast_github_repo: "fetching github repo",
+  roast_url: "reading that site",
+  submit_feedback: "saving your feedback",
+  summarize_conversation: "catching up on our chat",
+};
@@ -1,4 +1,10 @@
 import type { ISession } from "@/lib/models/session";
+import {
+  CUSTOM_QUESTIONS_STATE,
+  getOnboardingPath,
+  ONBOARDING_QUESTIONS,
+  type OnboardingQuestion,
+} from "@/lib/onboarding-questions";
 
 // Helper function to determine seasonal/holiday context
 function getSeasonalContext(month: number): string {
@@ -441,14 +447,14 @@ ${
     ? `🎉 **THEY ARE ACCEPTED!** Welcome them warmly to the mentorship program! You can now provide full mentoring support.`
     : session.applicant_data?.application_status === "rejected"
     ? `Their application was not accepted. Be kind and encourage them to keep learning. They can still ask general questions.${
-        session.applicant_data?.review_notes
-          ? `\nReview feedback: ${session.applicant_data.review_notes}`
+        session.applicant_data?.applicant_feedback
+          ? `\nReview feedback: ${session.applicant_data.applicant_feedback}`
           : ""
       }`
     : session.applicant_data?.application_status === "waitlisted"
     ? `They are on the waitlist. Encourage them and let them know they'll be notified when a spot opens up.${
-        session.applicant_data?.review_notes
-          ? `\nNote: ${session.applicant_data.review_notes}`
+        session.applicant_data?.applicant_feedback
+          ? `\nNote: ${session.applicant_data.applicant_feedback}`
           : ""
       }`
     : `Their application is **pending review**. The mentor hasn't reviewed it yet. Be helpful but don't promise acceptance.`
@@ -860,8 +866,32 @@ Say: "we chatted about your backend projects and you asked about docker deployme
 `;
 }
 
+const questionLabel = (q: OnboardingQuestion) =>
+  `${q.label}${q.required ? "" : " (optional)"}`;
+
+// "WHAT TO ASK NEXT" lines, one per question on this applicant's path
+function generateQuestionFlow(questions: OnboardingQuestion[]): string {
+  return questions
+    .map((q, i) => {
+      const next = questions[i + 1];
+      const then = next
+        ? `next: ${questionLabel(next)}${
+            i === questions.length - 2 ? " (final!)" : ""
+          }`
+        : `next: the mentor's extra questions (${CUSTOM_QUESTIONS_STATE}), if any`;
+      return `- ${q.state}: "${q.prompt}" → ${then}`;
+    })
+    .concat(
+      `- ${CUSTOM_QUESTIONS_STATE}: ask the mentor's extra questions one at a time (the current one is under CURRENT SESSION STATUS), save each with save_custom_answer → DONE! Goes directly to FREE_CHAT`
+    )
+    .join("\n");
+}
+
 // Helper function for Onboarding Mode instructions
 function generateOnboardingModeInstructions(session: ISession): string {
+  // Branching rules decide which questions this applicant gets
+  const path = getOnboardingPath(session.applicant_data);
+
   return `
 ## ⚠️ CRITICAL TOOL CALLING REQUIREMENTS ⚠️
 
@@ -870,9 +900,11 @@ function generateOnboardingModeInstructions(session: ISession): string {
 ### AVAILABLE TOOLS SUMMARY
 
 **Data Saving Tools:**
-- \`save_and_continue\` - Save any user data (email, name, goals, URLs, secret phrase, etc.)
+- \`save_and_continue\` - Save the answer for the CURRENT step, plus any later answers the user volunteered in the same message (e.g. "I'm Kofi, backend, intermediate" → name, engineering_area, skill_level in ONE call). Pass \`edit: true\` when the user explicitly changes an earlier answer. If it returns \`"saved": false\`, follow its \`instruction\`
 - \`find_user_profile\` - Check if returning user by email
 - \`verify_secret_phrase\` - Verify secret phrase for returning users
+- \`send_login_code\` - Email a one-time login code to a returning user who can't remember their phrase
+- \`verify_login_code\` - Check the code they got by email; restores their session like verify_secret_phrase
 - \`verify_recovery_answer\` - Answer verification questions during account recovery
 - \`reset_secret_phrase\` - Set new secret phrase after recovery verification
 - \`initiate_recovery\` - Start account recovery process for forgotten phrase
@@ -970,7 +1002,7 @@ NEVER call multiple save_and_continue or data-modifying tools at the same time!
   5. If returning user: welcome them back and ask for secret phrase verification
   6. If new user: ask them to create a secret phrase
 
-- If state is AWAITING_SECRET_PHRASE AND this is a RETURNING USER → Call verify_secret_phrase with {"secret_phrase": "their_phrase"}
+- If state is AWAITING_SECRET_PHRASE AND this is a RETURNING USER → Call verify_secret_phrase with {"secret_phrase": "their_phrase"}. If it returns \`"verified": false\`, relay its instruction (wrong phrase, wait before retrying, or locked out) and don't retry before \`retry_after_seconds\`
 - If state is AWAITING_SECRET_PHRASE AND this is a NEW USER → Call save_and_continue with {"secret_phrase": "their_phrase"}
 - If user provided GitHub URL → Call analyze_url first, then save_and_continue
 - If user provided LinkedIn URL → Call save_and_continue directly (LinkedIn blocks scraping)
@@ -989,7 +1021,16 @@ NEVER call multiple save_and_continue or data-modifying tools at the same time!
 - DO NOT ask "what was the secret phrase you were given" - they CREATE it, not receive it
 
 **🔐 ACCOUNT RECOVERY FLOW (when user forgets secret phrase):**
-When a returning user says they forgot their secret phrase, you have TWO options:
+When a returning user says they forgot their secret phrase, FIRST offer to email them a login code:
+
+0. **EMAIL CODE** (preferred - quickest and safest):
+   - Call \`send_login_code\` (no arguments). It emails a 6-digit code to the address they gave
+   - Ask them to type the code, then call \`verify_login_code\` with exactly what they typed
+   - If it returns \`"verified": false\`, follow its \`instruction\` (wrong code, expired, or send a new one)
+   - NEVER make up, guess or repeat a code yourself
+   - If sending fails, fall back to the options below
+
+Otherwise you have TWO options:
 
 1. **RECOVER** - Use if they want to try to verify their identity:
    - Call \`initiate_recovery\` with their email
@@ -1006,7 +1047,7 @@ When a returning user says they forgot their secret phrase, you have TWO options
 
 **⚠️ RECOVERY SUGGESTIONS - ALWAYS SET THESE:**
 - After INSUFFICIENT_INFO response: set_suggestions({suggestions: ["i'll try to remember", "let's start fresh"]})
-- After incorrect secret phrase: set_suggestions({suggestions: ["let me try again", "i forgot my phrase", "start fresh"]})
+- After incorrect secret phrase: set_suggestions({suggestions: ["let me try again", "email me a code", "i forgot my phrase", "start fresh"]})
 - After verification question: set_suggestions with example answers relevant to the field
 
 **Recovery Verification Questions (ask these WITHOUT revealing stored values):**
@@ -1079,14 +1120,16 @@ Users won't always give you the info you asked for. They might ask questions or
 - Incomplete or invalid answers
 - "idk", "hmm", "..." type responses
 
-**INPUT VALIDATION (validate before saving):**
-- Email: must contain @ and a domain (user@domain.com)
-- WhatsApp: should start with + or be a valid phone format, clean it up before saving
-- URLs: if user gives just username for github/linkedin, construct the full URL
+**INPUT VALIDATION (the tools check and normalize answers):**
+- Pass what the user gave - the tools turn it into the stored format:
+  - Email: lowercased, must be a real address (user@domain.com)
+  - WhatsApp: converted to +countrycode format (local numbers get +233)
   - GitHub: "theniitettey" → "https://github.com/theniitettey"
   - LinkedIn: "john-doe" → "https://linkedin.com/in/john-doe"
-  - Portfolio: add "https://" if missing
-- If input doesn't match expected format → Ask for clarification, don't save garbage
+  - Portfolio: "https://" added if missing
+  - Time commitment: needs a number of hours (per day or per week)
+- If a save comes back \`"error": "invalid_value"\` (or "Not updated"), ask the user for exactly what the instruction says, then save again
+- Don't save questions, jokes or gibberish as answers
 
 **DO NOT**:
 - Skip tool calling when user provides VALID data
@@ -1111,13 +1154,14 @@ Users can ask to go back or jump to a different step! Use the \`change_state\` t
 4. When they answer, use \`save_and_continue\` to save and advance
 
 **Available states to navigate to:**
-- AWAITING_NAME, AWAITING_WHATSAPP, AWAITING_ENGINEERING_AREA
-- AWAITING_SKILL_LEVEL, AWAITING_IMPROVEMENT_GOALS, AWAITING_CAREER_GOALS
-- AWAITING_GITHUB, AWAITING_LINKEDIN, AWAITING_PORTFOLIO
-- AWAITING_PROJECTS, AWAITING_TIME_COMMITMENT, AWAITING_LEARNING_STYLE
-- AWAITING_TECH_FOCUS, AWAITING_SUCCESS_DEFINITION
+${path
+  .filter((q) => q.navigable)
+  .map((q) => `- ${q.state}`)
+  .join("\n")}
 
-**⚠️ CANNOT navigate to:** AWAITING_EMAIL, AWAITING_SECRET_PHRASE (security-sensitive)
+**⚠️ CANNOT navigate to:** ${ONBOARDING_QUESTIONS.filter((q) => !q.navigable)
+    .map((q) => q.state)
+    .join(", ")} (security-sensitive)
 
 **Example flow:**
 User: "wait you didn't say anything about my github"
@@ -1154,7 +1198,9 @@ If you notice:
 - Current state: ${session.state}
 - Is returning user pending verification: ${
     session.pending_verification
-      ? "YES - USE verify_secret_phrase TOOL (or clear_pending_states if user wants out)"
+      ? session.pending_login_code
+        ? "YES - A LOGIN CODE WAS EMAILED: use verify_login_code for the code (or verify_secret_phrase for their phrase)"
+        : "YES - USE verify_secret_phrase TOOL, or send_login_code if they forgot it (or clear_pending_states if user wants out)"
       : "NO - Use save_and_continue"
   }
 - Is in account recovery: ${
@@ -1162,6 +1208,13 @@ If you notice:
       ? "YES - verify recovery answers OR clear if user wants out"
       : "NO"
   }
+${
+  session.pending_custom_question
+    ? `- Current extra question from the mentor: "${
+        session.pending_custom_question.prompt
+      }"${session.pending_custom_question.required ? "" : " (optional)"}`
+    : ""
+}
 ${
   session.pending_verification
     ? `- Returning user name: ${
@@ -1171,26 +1224,15 @@ ${
 }
 
 ## WHAT TO ASK NEXT (based on state)
-After saving the user's response, tell them what's coming next. Here's the flow:
-- AWAITING_EMAIL: "drop your email" → next: secret phrase
-- AWAITING_SECRET_PHRASE: "choose a secret phrase (new) / enter your phrase (returning)" → next: your name
-- AWAITING_NAME: "what should i call you?" → next: whatsapp number
-- AWAITING_WHATSAPP: "whatsapp number for the group" → next: engineering focus area
-- AWAITING_ENGINEERING_AREA: "frontend, backend, full stack, mobile?" → next: skill level
-- AWAITING_SKILL_LEVEL: "beginner, intermediate, advanced?" → next: what you want to improve
-- AWAITING_IMPROVEMENT_GOALS: "what do you want to get better at?" → next: career goals
-- AWAITING_CAREER_GOALS: "where do you want to be career-wise?" → next: github (optional)
-- AWAITING_GITHUB: "github link? (optional, say 'skip' if none)" → next: linkedin (optional)
-- AWAITING_LINKEDIN: "linkedin? (optional)" → next: portfolio (optional)
-- AWAITING_PORTFOLIO: "portfolio site? (optional)" → next: projects
-- AWAITING_PROJECTS: "what have you built?" → next: time commitment
-- AWAITING_TIME_COMMITMENT: "how many hours/week can you dedicate?" → next: learning style
-- AWAITING_LEARNING_STYLE: "how do you learn best?" → next: tech focus
-- AWAITING_TECH_FOCUS: "what tech do you want to focus on?" → next: success definition (final!)
-- AWAITING_SUCCESS_DEFINITION: "how will you know you've succeeded?" → DONE! Goes directly to FREE_CHAT
+After saving the user's response, tell them what's coming next. This is the flow for THIS user - some steps are skipped or added based on their earlier answers, so it can change as they answer:
+${generateQuestionFlow(path)}
 - FREE_CHAT: Free interaction mode - chat about anything, meme wars, coding help, etc. (default state after completing onboarding)
 
 ## State Flow (for your reference)
-1. Email → 2. Secret Phrase → 3. Name → 4. WhatsApp → 5. Engineering Area → 6. Skill Level → 7. Improvement Goals → 8. Career Goals → 9. GitHub (optional) → 10. LinkedIn (optional) → 11. Portfolio (optional) → 12. Projects → 13. Time Commitment → 14. Learning Style → 15. Tech Focus → 16. Success Definition → 17. FREE_CHAT (auto-set after completion)
+${[
+  ...path.map((q, i) => `${i + 1}. ${questionLabel(q)}`),
+  `${path.length + 1}. extra questions from the mentor`,
+  `${path.length + 2}. FREE_CHAT (auto-set after completion)`,
+].join(" → ")}
 `;
 }
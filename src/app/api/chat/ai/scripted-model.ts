@@ -0,0 +1,163 @@
+import fs from "fs";
+import path from "path";
+import type { Genkit, MessageData, Part } from "genkit";
+
+/**
+ * Scripted Model
+ *
+ * A fake Genkit model that replays tool calls and replies from a fixture file
+ * instead of calling a real LLM. Enabled by setting SCRIPTED_MODEL_FIXTURE to a
+ * fixture path, which replaces every model chain in config.ts with this model.
+ *
+ * Fixture format (JSON):
+ * {
+ *   "turns": [
+ *     {
+ *       "user": "kofi@example.com",
+ *       "tool_calls": [
+ *         [{ "name": "save_and_continue", "input": { "email": "kofi@example.com" } }]
+ *       ],
+ *       "reply": "nice! now pick a secret phrase"
+ *     }
+ *   ]
+ * }
+ *
+ * A turn is picked by matching the latest user message (case-insensitive,
+ * trimmed). When the same message appears several times in a conversation
+ * (e.g. "skip"), the n-th occurrence uses the n-th matching turn.
+ * Each entry in tool_calls is one round of parallel tool calls; after the
+ * last round the model answers with the reply text. A turn's optional
+ * "expect" block is ignored here - scripts/replay-fixtures.ts checks it
+ * against the session and applicant once the turn is done.
+ *
+ * @module ai/scripted-model
+ */
+
+export const SCRIPTED_MODEL_NAME = "scripted/fixture";
+
+export interface ScriptedToolCall {
+  name: string;
+  input?: Record<string, unknown>;
+}
+
+// What a turn should leave behind, checked by the replay script
+export interface ScriptedExpectation {
+  state?: string; // Session state after the turn
+  action?: string | null; // pending_action reported to the client
+  session?: Record<string, unknown>; // Dot paths into the Session document
+  applicant?: Record<string, unknown> | null; // null: no Applicant yet
+  secret_phrase?: string; // Phrase the Applicant's hash must accept
+}
+
+export interface ScriptedTurn {
+  user: string;
+  tool_calls?: ScriptedToolCall[][];
+  reply: string;
+  expect?: ScriptedExpectation;
+}
+
+export interface ScriptedFixture {
+  turns: ScriptedTurn[];
+}
+
+// Set when the model is defined; the replay script switches it per fixture
+let activeFixturePath: string | undefined;
+
+export function setScriptedFixture(fixturePath: string) {
+  activeFixturePath = fixturePath;
+}
+
+// Read on every call so fixtures can be edited without restarting the server
+export function loadFixture(fixturePath: string): ScriptedFixture {
+  const resolved = path.resolve(process.cwd(), fixturePath);
+  const fixture = JSON.parse(fs.readFileSync(resolved, "utf8"));
+  if (!Array.isArray(fixture?.turns)) {
+    throw new Error(`Scripted fixture ${resolved} has no "turns" array`);
+  }
+  return fixture as ScriptedFixture;
+}
+
+const normalize = (text: string) => text.toLowerCase().trim();
+
+const messageText = (message: MessageData) =>
+  message.content
+    .map((part) => part.text || "")
+    .join("")
+    .trim();
+
+export function defineScriptedModel(ai: Genkit, fixturePath: string) {
+  setScriptedFixture(fixturePath);
+  return ai.defineModel(
+    {
+      name: SCRIPTED_MODEL_NAME,
+      label: "Scripted fixture model",
+      apiVersion: "v2",
+      supports: {
+        multiturn: true,
+        tools: true,
+        systemRole: true,
+      },
+    },
+    async (request, { sendChunk }) => {
+      const fixture = loadFixture(activeFixturePath || fixturePath);
+      const messages = request.messages;
+
+      // Find the latest user message and count earlier identical ones
+      let lastUserIndex = -1;
+      for (let i = messages.length - 1; i >= 0; i--) {
+        if (messages[i].role === "user") {
+          lastUserIndex = i;
+          break;
+        }
+      }
+      if (lastUserIndex < 0) {
+        throw new Error("Scripted model: no user message in request");
+      }
+
+      const userText = normalize(messageText(messages[lastUserIndex]));
+      const occurrence = messages
+        .slice(0, lastUserIndex)
+        .filter(
+          (m) => m.role === "user" && normalize(messageText(m)) === userText
+        ).length;
+
+      const candidates = fixture.turns.filter(
+        (turn) => normalize(turn.user) === userText
+      );
+      const turn = candidates[occurrence];
+      if (!turn) {
+        throw new Error(
+          `Scripted model: no turn for user message "${userText}" (occurrence ${
+            occurrence + 1
+          })`
+        );
+      }
+
+      // Each model message after the user message is one finished tool round
+      const round = messages
+        .slice(lastUserIndex + 1)
+        .filter((m) => m.role === "model").length;
+      const toolRounds = turn.tool_calls || [];
+
+      let content: Part[];
+      if (round < toolRounds.length) {
+        content = toolRounds[round].map((call, i) => ({
+          toolRequest: {
+            name: call.name,
+            input: call.input || {},
+            ref: `scripted-${round}-${i}`,
+          },
+        }));
+      } else {
+        content = [{ text: turn.reply }];
+      }
+
+      sendChunk({ content });
+
+      return {
+        message: { role: "model", content },
+        finishReason: "stop",
+      };
+    }
+  );
+}
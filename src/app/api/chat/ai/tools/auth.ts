@@ -2,10 +2,32 @@ import type { ISession } from "@/lib/models/session";
 import ai from "../config";
 import { z } from "genkit";
 import { verifyToken, signToken } from "@/lib/jwt";
-import { hashSecretPhrase } from "../utils";
+import {
+  checkLoginCode,
+  generateLoginCode,
+  hashLoginCode,
+  hashSecretPhrase,
+  verifySecretPhrase,
+} from "../utils";
+import { sendMail } from "@/lib/mailer";
 import Session from "@/lib/models/session";
+import Applicant from "@/lib/models/applicant";
+import {
+  checkThrottle,
+  clearThrottle,
+  recordThrottleFailure,
+  LOGIN_CODE_SEND_IP_THROTTLE,
+  LOGIN_CODE_SEND_THROTTLE,
+  type FailureResult,
+} from "@/lib/auth-throttle";
 import { logToolExecution } from "./logger";
 
+const LOGIN_CODE_TTL_MS = 10 * 60 * 1000;
+
+// "kofi@example.com" -> "k***@example.com"
+const maskEmail = (email: string) =>
+  email.replace(/^(.)[^@]*(@.*)$/, "$1***$2");
+
 /**
  * Authentication Tools
  *
@@ -18,6 +40,8 @@ import { logToolExecution } from "./logger";
  * - extend_session: Refresh the authentication token
  * - logout_user: Full logout with session cleanup
  * - verify_secret_phrase: Verify returning user's secret phrase
+ * - send_login_code: Email a one-time login code to a returning user
+ * - verify_login_code: Check the emailed code and restore their session
  * - get_session_info: Retrieve detailed session information
  *
  * @module ai/tools/auth
@@ -28,6 +52,7 @@ export function createAuthTools(
     token?: string;
     tokenEmail?: string;
     sessionId: string;
+    ip?: string; // Client IP, for throttling phrase and code guesses
   },
   session: ISession,
   saveSession: () => Promise<void>,
@@ -204,6 +229,65 @@ Has Pending Action: ${session.pending_action || "NONE"}`;
     }
   );
 
+  // Take over the returning user's old session once they've proven who they
+  // are - shared by the secret phrase and email code checks
+  const restorePendingSession = async (method: string) => {
+    const pendingData = session.pending_verification!;
+    session.applicant_data = { ...pendingData.existing_applicant_data };
+    session.state = pendingData.existing_state;
+
+    await Session.deleteOne({
+      session_id: pendingData.existing_session_id,
+    });
+    session.pending_verification = undefined;
+    session.pending_login_code = undefined;
+    markPendingSave();
+
+    console.log(`✅ ${method} verified, session restored to:`, session.state);
+    return `Verified! Welcome back ${
+      session.applicant_data.name
+    }. Your previous session has been restored. You were at the "${session.state
+      .replace("AWAITING_", "")
+      .toLowerCase()
+      .replace(/_/g, " ")}" step. Let's continue from there!`;
+  };
+
+  // Proving ownership clears earlier wrong phrase guesses
+  const resetPhraseAttempts = async (email: string) => {
+    try {
+      await clearThrottle(email);
+      await Applicant.updateOne(
+        { email, failed_phrase_attempts: { $gt: 0 } },
+        {
+          $set: { failed_phrase_attempts: 0 },
+          $unset: { phrase_locked_until: 1 },
+        }
+      );
+    } catch (err) {
+      console.error("Failed to reset phrase attempts:", err);
+    }
+  };
+
+  // Mirror wrong phrase / code guesses on the applicant so admins can see them
+  const recordFailedAttempt = async (email: string, failure: FailureResult) => {
+    try {
+      await Applicant.updateOne(
+        { email },
+        {
+          $set: {
+            failed_phrase_attempts: failure.failures,
+            last_failed_phrase_attempt: new Date(),
+            ...(failure.lockedUntil
+              ? { phrase_locked_until: failure.lockedUntil }
+              : {}),
+          },
+        }
+      );
+    } catch (err) {
+      console.error("Failed to record phrase attempt:", err);
+    }
+  };
+
   const verifySecretPhraseTool = ai.defineTool(
     {
       name: "verify_secret_phrase",
@@ -221,37 +305,262 @@ Has Pending Action: ${session.pending_action || "NONE"}`;
         return "No verification pending.";
       }
 
-      const hashedInput = hashSecretPhrase(input.secret_phrase);
+      const email = session.pending_verification.existing_applicant_data.email;
+      const subjects = { email, ip: authContext.ip };
+
+      // Too many wrong guesses for this email or from this client - wait
+      const throttle = await checkThrottle(subjects);
+      if (!throttle.allowed) {
+        console.log(
+          `⏳ verify_secret_phrase throttled (${throttle.subject}, ${throttle.reason})`
+        );
+        return JSON.stringify({
+          verified: false,
+          error: throttle.reason === "locked" ? "locked_out" : "slow_down",
+          retry_after_seconds: throttle.retryAfterSeconds,
+          instruction:
+            throttle.reason === "locked"
+              ? `Too many wrong secret phrases. Tell the user verification is locked for about ${Math.ceil(
+                  throttle.retryAfterSeconds / 60
+                )} minute(s). Offer account recovery (initiate_recovery) or start_fresh instead. Don't check any phrase until then.`
+              : `Tell the user to wait ${throttle.retryAfterSeconds} seconds before trying another phrase. Don't call verify_secret_phrase again until then.`,
+        });
+      }
+
       const storedHash =
         session.pending_verification.existing_applicant_data.secret_phrase;
 
       console.log("Comparing hashes...");
+      const { valid, needsRehash } = await verifySecretPhrase(
+        input.secret_phrase,
+        storedHash
+      );
+
+      if (valid) {
+        if (email) await resetPhraseAttempts(email);
+        const restored = await restorePendingSession("Secret phrase");
+
+        // Old SHA-256 hash - upgrade it now that we know the phrase
+        if (needsRehash) {
+          const upgradedHash = await hashSecretPhrase(input.secret_phrase);
+          session.applicant_data.secret_phrase = upgradedHash;
+          try {
+            await Applicant.updateOne(
+              {
+                email: session.applicant_data.email,
+                secret_phrase_hash: storedHash,
+              },
+              { $set: { secret_phrase_hash: upgradedHash } }
+            );
+          } catch (err) {
+            console.error("Failed to upgrade Applicant secret hash:", err);
+          }
+          console.log("🔐 Secret phrase hash upgraded to scrypt");
+        }
+
+        return restored;
+      } else {
+        console.log("❌ Secret phrase verification failed");
 
-      if (hashedInput === storedHash) {
-        const pendingData = session.pending_verification;
-        session.applicant_data = { ...pendingData.existing_applicant_data };
-        session.state = pendingData.existing_state;
+        const failure = await recordThrottleFailure(subjects);
+        if (email) await recordFailedAttempt(email, failure);
+
+        return JSON.stringify({
+          verified: false,
+          error: failure.lockedUntil ? "locked_out" : "incorrect_phrase",
+          attempts_remaining: failure.attemptsRemaining,
+          retry_after_seconds: failure.retryAfterSeconds,
+          instruction: failure.lockedUntil
+            ? `Wrong phrase, and that was the last attempt - verification is locked for about ${Math.ceil(
+                failure.retryAfterSeconds / 60
+              )} minute(s). Offer account recovery (initiate_recovery) or start_fresh (deletes their old data).`
+            : `The phrase doesn't match what was set before. ${
+                failure.attemptsRemaining
+              } attempt(s) left before a temporary lockout${
+                failure.retryAfterSeconds
+                  ? `, and they must wait ${failure.retryAfterSeconds} seconds before the next one`
+                  : ""
+              }. Ask if they want to try again, recover their account, or start fresh (start_fresh deletes their old data).`,
+        });
+      }
+    }
+  );
 
-        await Session.deleteOne({
-          session_id: pendingData.existing_session_id,
+  const sendLoginCodeTool = ai.defineTool(
+    {
+      name: "send_login_code",
+      description:
+        "Email a one-time login code to a RETURNING user who can't remember their secret phrase, as a safer alternative to account recovery. Only works after their email was saved and they were asked to verify. Then ask them for the 6-digit code and call verify_login_code.",
+      inputSchema: z.object({}),
+      outputSchema: z.string(),
+    },
+    async () => {
+      logToolExecution("send_login_code", {});
+
+      const email = session.pending_verification?.existing_applicant_data.email;
+      if (!email) {
+        return "No returning user is waiting to verify. Ask for their email and save it with save_and_continue first.";
+      }
+
+      // Sends are counted per address and per client, across sessions
+      const sendSubjects = {
+        email: `login-code:${email}`,
+        ip: authContext.ip && `login-code:${authContext.ip}`,
+      };
+      const throttle = await checkThrottle(sendSubjects);
+      if (!throttle.allowed) {
+        console.log(
+          `⏳ send_login_code throttled (${throttle.subject}, ${throttle.reason})`
+        );
+        return JSON.stringify({
+          sent: false,
+          error: throttle.reason === "locked" ? "too_many_codes" : "too_soon",
+          retry_after_seconds: throttle.retryAfterSeconds,
+          instruction:
+            throttle.reason === "locked"
+              ? `Too many login codes were sent. Tell the user no more can be sent for about ${Math.ceil(
+                  throttle.retryAfterSeconds / 60
+                )} minute(s). Offer the secret phrase again, account recovery (initiate_recovery), or start_fresh.`
+              : `A code was sent recently. Ask them to check their inbox (and spam folder). A new code can be sent in ${throttle.retryAfterSeconds} seconds.`,
         });
-        session.pending_verification = undefined;
+      }
+
+      const now = new Date();
+
+      const code = generateLoginCode();
+      try {
+        await sendMail({
+          to: email,
+          subject: "your zuckies login code",
+          text: `your login code is ${code}\n\nit expires in ${
+            LOGIN_CODE_TTL_MS / 60000
+          } minutes. if you didn't ask for this, you can ignore this email.`,
+        });
+      } catch (err) {
+        console.error("Failed to send login code:", err);
+        return JSON.stringify({
+          sent: false,
+          error: "mail_failed",
+          instruction:
+            "The email couldn't be sent. Apologize and offer the secret phrase again, account recovery (initiate_recovery), or start_fresh.",
+        });
+      }
+
+      await recordThrottleFailure(sendSubjects, {
+        email: LOGIN_CODE_SEND_THROTTLE,
+        ip: LOGIN_CODE_SEND_IP_THROTTLE,
+      });
+
+      session.pending_login_code = {
+        email,
+        code_hash: hashLoginCode(code, session.session_id),
+        expires_at: new Date(now.getTime() + LOGIN_CODE_TTL_MS),
+        attempts: 0,
+        sent_at: now,
+      };
+      markPendingSave();
+
+      return `CODE_SENT: A 6-digit login code was emailed to ${maskEmail(
+        email
+      )}. It expires in ${
+        LOGIN_CODE_TTL_MS / 60000
+      } minutes. Ask them to type it here, then call verify_login_code. Never guess or repeat the code yourself.`;
+    }
+  );
+
+  const verifyLoginCodeTool = ai.defineTool(
+    {
+      name: "verify_login_code",
+      description: session.pending_login_code
+        ? '**A LOGIN CODE WAS EMAILED** - When the user types a code (usually 6 digits), call this tool with { code: "exactly what they typed" }.'
+        : "Check an emailed one-time login code. Only use after send_login_code.",
+      inputSchema: z.object({
+        code: z.string().describe("The code the user typed"),
+      }),
+      outputSchema: z.string(),
+    },
+    async (input) => {
+      logToolExecution("verify_login_code", input);
+
+      const pending = session.pending_login_code;
+      if (!pending || !session.pending_verification) {
+        return "No login code is pending. Use send_login_code first.";
+      }
+
+      if (new Date(pending.expires_at) < new Date()) {
+        session.pending_login_code = undefined;
         markPendingSave();
+        return JSON.stringify({
+          verified: false,
+          error: "code_expired",
+          instruction:
+            "That code has expired. Offer to send a new one with send_login_code.",
+        });
+      }
 
+      // Wrong codes count against the same email / IP limits as phrases
+      const subjects = { email: pending.email, ip: authContext.ip };
+      const throttle = await checkThrottle(subjects);
+      if (!throttle.allowed) {
         console.log(
-          "✅ Secret phrase verified, session restored to:",
-          session.state
+          `⏳ verify_login_code throttled (${throttle.subject}, ${throttle.reason})`
         );
-        return `Verified! Welcome back ${
-          session.applicant_data.name
-        }. Your previous session has been restored. You were at the "${session.state
-          .replace("AWAITING_", "")
-          .toLowerCase()
-          .replace(/_/g, " ")}" step. Let's continue from there!`;
-      } else {
-        console.log("❌ Secret phrase verification failed");
-        return "Incorrect secret phrase. The phrase doesn't match what was set before. Ask them if they want to try again OR if they want to start fresh (which will delete their old data). If they want to start fresh, use the start_fresh tool.";
+        return JSON.stringify({
+          verified: false,
+          error: throttle.reason === "locked" ? "locked_out" : "slow_down",
+          retry_after_seconds: throttle.retryAfterSeconds,
+          instruction:
+            throttle.reason === "locked"
+              ? `Too many wrong attempts. Tell the user verification is locked for about ${Math.ceil(
+                  throttle.retryAfterSeconds / 60
+                )} minute(s). Offer account recovery (initiate_recovery) or start_fresh instead. Don't check any code until then.`
+              : `Tell the user to wait ${throttle.retryAfterSeconds} seconds before trying the code again. Don't call verify_login_code again until then.`,
+        });
+      }
+
+      if (!checkLoginCode(input.code, pending.code_hash, session.session_id)) {
+        const failure = await recordThrottleFailure(subjects);
+        await recordFailedAttempt(pending.email, failure);
+        pending.attempts = failure.failures;
+        console.log(`❌ Wrong login code (${failure.failures} attempt(s))`);
+
+        if (failure.lockedUntil) {
+          session.pending_login_code = undefined;
+          markPendingSave();
+          return JSON.stringify({
+            verified: false,
+            error: "locked_out",
+            retry_after_seconds: failure.retryAfterSeconds,
+            instruction: `Wrong code, and that was the last attempt - verification is locked for about ${Math.ceil(
+              failure.retryAfterSeconds / 60
+            )} minute(s). Offer account recovery (initiate_recovery) or start_fresh (deletes their old data).`,
+          });
+        }
+
+        session.markModified("pending_login_code");
+        markPendingSave();
+        return JSON.stringify({
+          verified: false,
+          error: "incorrect_code",
+          attempts_remaining: failure.attemptsRemaining,
+          retry_after_seconds: failure.retryAfterSeconds,
+          instruction: `That code doesn't match. Ask them to check the latest email and type the code again (${
+            failure.attemptsRemaining
+          } attempt(s) left before a temporary lockout${
+            failure.retryAfterSeconds
+              ? `, and they must wait ${failure.retryAfterSeconds} seconds before the next one`
+              : ""
+          }).`,
+        });
+      }
+
+      await resetPhraseAttempts(pending.email);
+      try {
+        await clearThrottle(`login-code:${pending.email}`);
+      } catch (err) {
+        console.error("Failed to reset login code sends:", err);
       }
+      return restorePendingSession("Login code");
     }
   );
 
@@ -262,5 +571,7 @@ Has Pending Action: ${session.pending_action || "NONE"}`;
     extendSessionTool,
     logoutTool,
     verifySecretPhraseTool,
+    sendLoginCodeTool,
+    verifyLoginCodeTool,
   ];
 }
@@ -12,7 +12,12 @@ export function createTools(
   session: ISession,
   saveSession: () => Promise<void>,
   markPendingSave: () => void,
-  authContext: { token?: string; tokenEmail?: string; sessionId: string }
+  authContext: {
+    token?: string;
+    tokenEmail?: string;
+    sessionId: string;
+    ip?: string;
+  }
 ) {
   const authTools = createAuthTools(
     authContext,
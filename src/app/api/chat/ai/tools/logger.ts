@@ -4,10 +4,19 @@ export function logToolExecution(name: string, input: any) {
   console.log(`🛠️ Tool executing: ${name}${suffix}`);
 }
 
+// Never write secrets to the logs
+const REDACTED_KEYS = ["secret_phrase", "new_phrase", "code"];
+
 function summarizeInput(input: any): string {
   if (input === null || input === undefined) return "";
   if (typeof input === "string") return input;
   if (typeof input === "object") {
+    input = Object.fromEntries(
+      Object.entries(input).map(([key, value]) => [
+        key,
+        REDACTED_KEYS.includes(key) ? "[redacted]" : value,
+      ])
+    );
     const preferredKeys = [
       "handle",
       "url",
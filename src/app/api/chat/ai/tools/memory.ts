@@ -134,6 +134,7 @@ This helps fix buggy state persistence issues.`,
 
       // Clear all pending states
       session.pending_verification = undefined;
+      session.pending_login_code = undefined;
       session.pending_recovery = undefined;
       session.pending_action = null;
 
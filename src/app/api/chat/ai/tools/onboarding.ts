@@ -9,7 +9,23 @@ import Session, {
 import Applicant from "@/lib/models/applicant";
 import { saveDataSchema } from "../config";
 import { hashSecretPhrase } from "../utils";
+import {
+  findNextCustomQuestion,
+  getActiveCustomQuestions,
+} from "@/lib/custom-questions";
+import {
+  CUSTOM_QUESTIONS_STATE,
+  getFirstUnansweredState,
+  getNextQuestionState,
+  getOnboardingPath,
+  getQuestionByKey,
+  getQuestionByState,
+  getRequiredQuestions,
+  normalizeAnswer,
+  QUESTION_KEYS,
+} from "@/lib/onboarding-questions";
 import { logToolExecution } from "./logger";
+import { recordAuditEvent } from "@/lib/audit";
 
 /**
  * Onboarding Tools
@@ -21,6 +37,7 @@ import { logToolExecution } from "./logger";
  * - save_and_continue: Save user data and advance to next onboarding step
  * - verify_secret_phrase: Verify returning user's secret phrase
  * - start_fresh: Delete old application data and start new
+ * - save_custom_answer: Save the answer to an admin-defined custom question
  * - complete_onboarding: Mark onboarding as complete and transition to FREE_CHAT
  * - set_suggestions: Set clickable button suggestions for the user
  *
@@ -40,36 +57,94 @@ export function createOnboardingTools(
       return "Save NEW user data. **DO NOT USE THIS TOOL FOR SECRET PHRASE** - The user is a RETURNING user. Use verify_secret_phrase tool instead.";
     }
 
-    const stateFieldMap: Record<OnboardingState, string> = {
-      AWAITING_EMAIL: "email",
-      AWAITING_SECRET_PHRASE: "secret_phrase",
-      AWAITING_NAME: "name",
-      AWAITING_WHATSAPP: "whatsapp",
-      AWAITING_ENGINEERING_AREA: "engineering_area",
-      AWAITING_SKILL_LEVEL: "skill_level",
-      AWAITING_IMPROVEMENT_GOALS: "improvement_goals",
-      AWAITING_CAREER_GOALS: "career_goals",
-      AWAITING_GITHUB: "github",
-      AWAITING_LINKEDIN: "linkedin",
-      AWAITING_PORTFOLIO: "portfolio",
-      AWAITING_PROJECTS: "projects",
-      AWAITING_TIME_COMMITMENT: "time_commitment",
-      AWAITING_LEARNING_STYLE: "learning_style",
-      AWAITING_TECH_FOCUS: "tech_focus",
-      AWAITING_SUCCESS_DEFINITION: "success_definition",
-      COMPLETED: "",
-      FREE_CHAT: "",
-    };
-
-    const currentField = stateFieldMap[session.state];
-    if (!currentField) {
+    const currentQuestion = getQuestionByState(session.state);
+    if (!currentQuestion) {
       return "Save user data and advance to next step.";
     }
 
-    return `**CRITICAL TOOL CALL REQUIRED NOW** - The user has provided their ${currentField.replace(
-      /_/g,
-      " "
-    )}. You MUST immediately call this tool with the parameter { ${currentField}: "the exact value user provided" }. Do NOT skip this step. Call the tool first, then respond to the user.`;
+    return `**CRITICAL TOOL CALL REQUIRED NOW** - The user has provided their ${currentQuestion.label}. You MUST immediately call this tool with the parameter { ${currentQuestion.key}: "the exact value user provided" }. If the same message also answers later questions, include those fields in the same call. Do NOT skip this step. Call the tool first, then respond to the user.`;
+  };
+
+  // Next step on this applicant's path - branching rules can skip or insert
+  // questions based on earlier answers. Non-question states keep fixed order.
+  const getNextState = (): OnboardingState | undefined => {
+    const next = getNextQuestionState(session.state, session.applicant_data);
+    if (next) return next;
+
+    const currentIndex = ONBOARDING_STATES.indexOf(session.state);
+    return currentIndex >= 0 && currentIndex < ONBOARDING_STATES.length - 1
+      ? ONBOARDING_STATES[currentIndex + 1]
+      : undefined;
+  };
+
+  // Fields a save_and_continue call may write: the current question's field
+  // plus any still-unanswered later ones the user volunteered, or for an
+  // explicit edit any editable field on this applicant's path. The path is
+  // worked out with the incoming answers so branch questions can be filled too.
+  const getWritableFields = (
+    edit: boolean,
+    incoming: Partial<IApplicantData>
+  ): string[] => {
+    const path = getOnboardingPath({ ...session.applicant_data, ...incoming });
+    if (edit) {
+      return path.filter((q) => q.navigable).map((q) => q.key);
+    }
+
+    const currentQuestion = getQuestionByState(session.state);
+    if (!currentQuestion) return [];
+    // Email and secret phrase run returning-user checks, so they go alone
+    if (!currentQuestion.navigable) return [currentQuestion.key];
+
+    return [
+      currentQuestion.key,
+      ...path
+        .filter((q) => q.navigable && !session.applicant_data[q.key])
+        .map((q) => q.key)
+        .filter((key) => key !== currentQuestion.key),
+    ];
+  };
+
+  // Structured refusal the model can act on, logged with the state it hit
+  const rejectWrite = (
+    error: string,
+    fields: string[],
+    expected: string[],
+    instruction: string
+  ) => {
+    console.warn(
+      `✋ save_and_continue rejected [${fields.join(", ")}] at ${
+        session.state
+      }: ${error}`
+    );
+    return JSON.stringify({
+      saved: false,
+      error,
+      state: session.state,
+      rejected_fields: fields,
+      expected_fields: expected,
+      instruction,
+    });
+  };
+
+  // Ask the next unanswered custom question, or move on to COMPLETED
+  const advanceCustomQuestions = async () => {
+    let next;
+    try {
+      const questions = await getActiveCustomQuestions();
+      next = findNextCustomQuestion(questions, session.applicant_data.answers);
+    } catch (err) {
+      console.error("Failed to load custom questions:", err);
+    }
+
+    if (next) {
+      session.state = CUSTOM_QUESTIONS_STATE;
+      session.pending_custom_question = next;
+      session.suggestions = [...next.suggestions];
+    } else {
+      session.state = "COMPLETED";
+      session.pending_custom_question = undefined;
+    }
+    return next;
   };
 
   const saveAndContinueTool = ai.defineTool(
@@ -82,18 +157,109 @@ export function createOnboardingTools(
     async (input) => {
       logToolExecution("save_and_continue", input);
 
-      const dataToSave = { ...input } as Partial<IApplicantData>;
+      const { edit = false, ...fields } = input;
+      const keys = Object.keys(fields).filter(
+        (key) => fields[key as keyof typeof fields] !== undefined
+      );
+      const writable = getWritableFields(
+        edit,
+        fields as Partial<IApplicantData>
+      );
+
+      if (keys.length === 0) {
+        return rejectWrite(
+          "no_fields",
+          keys,
+          writable,
+          "Call save_and_continue again with the user's answer in the expected field."
+        );
+      }
+
+      // Returning users verify their phrase instead of overwriting it
+      if (
+        keys.includes("secret_phrase") &&
+        session.state === "AWAITING_SECRET_PHRASE" &&
+        session.pending_verification
+      ) {
+        return rejectWrite(
+          "use_verify_secret_phrase",
+          keys,
+          [],
+          "This is a returning user. Call verify_secret_phrase with what they typed instead."
+        );
+      }
+
+      // Only the current step's field (plus unanswered later ones) may be
+      // written, unless this is an edit
+      const currentQuestion = getQuestionByState(session.state);
+      const outOfOrder = keys.filter((key) => !writable.includes(key));
+      if (!edit && currentQuestion && !keys.includes(currentQuestion.key)) {
+        return rejectWrite(
+          "missing_current_field",
+          keys,
+          writable,
+          `The current step is ${session.state}. Include the user's ${currentQuestion.label} as ${currentQuestion.key} - later answers can only be saved alongside it. If the user hasn't answered it yet, ask for it first.`
+        );
+      }
+      if (outOfOrder.length > 0) {
+        if (edit) {
+          return rejectWrite(
+            "not_editable",
+            outOfOrder,
+            writable,
+            "These fields can't be edited here. Email and secret phrase are locked; other fields may not apply to this user."
+          );
+        }
+        return rejectWrite(
+          "out_of_order",
+          outOfOrder,
+          writable,
+          currentQuestion
+            ? `The current step is ${session.state}. These fields are already answered, don't apply to this user, or can't be saved at this step. Call again without them; if the user explicitly asked to change an earlier answer, save that with edit: true.`
+            : `${session.state} is not an onboarding question. Use save_custom_answer for the mentor's extra questions, or save_and_continue with edit: true if the user asked to change an earlier answer.`
+        );
+      }
+
+      // Validate and canonicalize every answer - nothing is saved if one fails
+      const dataToSave: Partial<IApplicantData> = {};
+      const invalid: string[] = [];
+      const hints: string[] = [];
+      for (const key of keys) {
+        const result = normalizeAnswer(
+          key,
+          fields[key as keyof typeof fields]!
+        );
+        if (!result.ok) {
+          invalid.push(key);
+          hints.push(
+            `${getQuestionByKey(key)?.label || key}: ${result.error}. ${
+              result.hint
+            }`
+          );
+          continue;
+        }
+        Object.assign(dataToSave, { [key]: result.value }, result.extras);
+      }
+      if (invalid.length > 0) {
+        return rejectWrite(
+          "invalid_value",
+          invalid,
+          writable,
+          `Not saved. ${hints.join(" ")}`
+        );
+      }
 
       // Hash secret phrase before storing
       if (dataToSave.secret_phrase) {
-        dataToSave.secret_phrase = hashSecretPhrase(dataToSave.secret_phrase);
+        dataToSave.secret_phrase = await hashSecretPhrase(
+          dataToSave.secret_phrase
+        );
         console.log("Secret phrase hashed and saved");
       }
 
       // Special handling for email - check if returning user
       if (dataToSave.email) {
-        const normalizedEmail = dataToSave.email.toLowerCase().trim();
-        dataToSave.email = normalizedEmail;
+        const normalizedEmail = dataToSave.email;
 
         const existingUserSession = await Session.findOne({
           "applicant_data.email": normalizedEmail,
@@ -119,13 +285,7 @@ export function createOnboardingTools(
 
             // Continue as new user - move to next step
             session.applicant_data.email = normalizedEmail;
-            const currentIndex = ONBOARDING_STATES.indexOf(session.state);
-            if (
-              currentIndex >= 0 &&
-              currentIndex < ONBOARDING_STATES.length - 1
-            ) {
-              session.state = ONBOARDING_STATES[currentIndex + 1];
-            }
+            session.state = getNextState() || session.state;
             markPendingSave();
             return `Email saved: ${normalizedEmail}. Note: We found an old incomplete session with this email (no secret phrase was set), so we've cleared it. You're starting fresh! Ask them to choose a new secret phrase.`;
           }
@@ -147,88 +307,131 @@ export function createOnboardingTools(
         }
       }
 
-      // Normalize URLs - construct full URLs from usernames
-      // Handle skip variations - store as N/A
-      const skipPatterns =
-        /^(skip|skipped|n\/a|na|none|nope|nah|don't have|dont have|later|no|-)$/i;
-
-      if (dataToSave.github) {
-        let github = dataToSave.github.trim();
-        // Check if user is skipping
-        if (skipPatterns.test(github)) {
-          dataToSave.github = "N/A";
-          console.log("GitHub skipped, storing as N/A");
-        } else {
-          // Remove @ if present
-          github = github.replace(/^@/, "");
-          // If it's just a username (no slashes, no dots except in domain)
-          if (!github.includes("github.com")) {
-            // Extract username if they gave a partial URL or just username
-            const usernameMatch = github.match(/([a-zA-Z0-9_-]+)\/?$/);
-            if (usernameMatch) {
-              github = `https://github.com/${usernameMatch[1]}`;
-            }
-          } else if (!github.startsWith("http")) {
-            github = `https://${github}`;
+      // Merge applicant data
+      session.applicant_data = { ...session.applicant_data, ...dataToSave };
+      console.log(
+        `✅ save_and_continue accepted [${keys.join(", ")}] at ${
+          session.state
+        }${edit ? " (edit)" : ""}`
+      );
+
+      // Edits change earlier answers in place - the current step stays put
+      if (edit) {
+        if (session.applicant_data.submitted_at && session.applicant_email) {
+          try {
+            await Applicant.findOneAndUpdate(
+              { email: session.applicant_email },
+              { $set: { ...dataToSave, updated_at: new Date() } }
+            );
+          } catch (err) {
+            console.error("Failed to update Applicant record:", err);
           }
-          dataToSave.github = github;
-          console.log("Normalized GitHub URL:", github);
         }
+
+        markPendingSave();
+        return `Updated ${keys
+          .map((key) => getQuestionByKey(key)?.label || key)
+          .join(", ")}. The state is still ${
+          session.state
+        }. Confirm the change, then carry on from where you were.`;
       }
 
-      if (dataToSave.linkedin) {
-        let linkedin = dataToSave.linkedin.trim();
-        // Check if user is skipping
-        if (skipPatterns.test(linkedin)) {
-          dataToSave.linkedin = "N/A";
-          console.log("LinkedIn skipped, storing as N/A");
-        } else {
-          // Remove @ if present
-          linkedin = linkedin.replace(/^@/, "");
-          if (!linkedin.includes("linkedin.com")) {
-            // It's just a username/slug
-            const usernameMatch = linkedin.match(/([a-zA-Z0-9_-]+)\/?$/);
-            if (usernameMatch) {
-              linkedin = `https://linkedin.com/in/${usernameMatch[1]}`;
-            }
-          } else if (!linkedin.startsWith("http")) {
-            linkedin = `https://${linkedin}`;
-          }
-          dataToSave.linkedin = linkedin;
-          console.log("Normalized LinkedIn URL:", linkedin);
-        }
+      // Jump to the first step still missing an answer - one message can
+      // cover several questions
+      const oldState = session.state;
+      session.state = getFirstUnansweredState(session.applicant_data);
+      if (session.state !== oldState) {
+        console.log(`State advanced: ${oldState} -> ${session.state}`);
       }
 
-      if (dataToSave.portfolio) {
-        let portfolio = dataToSave.portfolio.trim();
-        // Check if user is skipping
-        if (skipPatterns.test(portfolio)) {
-          dataToSave.portfolio = "N/A";
-          console.log("Portfolio skipped, storing as N/A");
-        } else {
-          // Add https:// if missing and it looks like a domain
-          if (!portfolio.startsWith("http") && portfolio.includes(".")) {
-            portfolio = `https://${portfolio}`;
-          }
-          dataToSave.portfolio = portfolio;
-          console.log("Normalized Portfolio URL:", portfolio);
+      const satisfied = keys
+        .map((key) => getQuestionByKey(key))
+        .filter((q) => !!q)
+        .map((q) => `${q.state} (${q.label})`)
+        .join(", ");
+
+      // Built-in questions done - continue with the admin's custom ones
+      if (session.state === CUSTOM_QUESTIONS_STATE) {
+        const next = await advanceCustomQuestions();
+        if (next) {
+          markPendingSave();
+          return `Data saved successfully. Steps satisfied: ${satisfied}. The new state is now ${CUSTOM_QUESTIONS_STATE}. Acknowledge the input, then ask this extra question from the mentor: "${next.prompt}". Save the answer with save_custom_answer.`;
         }
       }
 
-      // Merge applicant data
-      session.applicant_data = { ...session.applicant_data, ...dataToSave };
+      // Mark for save at end (don't save here to avoid parallel save errors)
+      markPendingSave();
+      return `Data saved successfully. Steps satisfied: ${satisfied}. The new state is now ${
+        session.state
+      }. Acknowledge ${
+        keys.length > 1 ? "everything they shared" : "the input"
+      } and ask the question for ${session.state}.`;
+    }
+  );
 
-      // Auto-advance state
-      const currentIndex = ONBOARDING_STATES.indexOf(session.state);
-      if (currentIndex < ONBOARDING_STATES.length - 1) {
-        const oldState = session.state;
-        session.state = ONBOARDING_STATES[currentIndex + 1];
-        console.log(`State advanced: ${oldState} -> ${session.state}`);
+  const saveCustomAnswerTool = ai.defineTool(
+    {
+      name: "save_custom_answer",
+      description: session.pending_custom_question
+        ? `**CRITICAL TOOL CALL REQUIRED NOW** - The user is answering the mentor's extra question "${session.pending_custom_question.prompt}". Call this tool with { answer: "the exact value user provided" } before responding.`
+        : "Save an answer to one of the mentor's extra (custom) questions. Pass key only when the user wants to change an earlier answer.",
+      inputSchema: z.object({
+        answer: z.string().describe("The user's answer"),
+        key: z
+          .string()
+          .optional()
+          .describe(
+            "Custom question key - only needed to change an earlier answer"
+          ),
+      }),
+      outputSchema: z.string(),
+    },
+    async (input) => {
+      logToolExecution("save_custom_answer", input);
+
+      const key = input.key || session.pending_custom_question?.key;
+      if (!key) {
+        return "No custom question is being asked right now. Use save_and_continue for regular onboarding answers.";
       }
 
-      // Mark for save at end (don't save here to avoid parallel save errors)
+      const questions = await getActiveCustomQuestions();
+      const question = questions.find((q) => q.key === key);
+      if (!question) {
+        return `Unknown custom question "${key}". Available keys: ${
+          questions.map((q) => q.key).join(", ") || "none"
+        }.`;
+      }
+
+      const answer = input.answer.trim();
+      session.applicant_data.answers = {
+        ...session.applicant_data.answers,
+        [key]: answer,
+      };
+
+      // Answer changed after submitting - keep the Applicant record in sync
+      if (session.applicant_data.submitted_at && session.applicant_email) {
+        try {
+          await Applicant.findOneAndUpdate(
+            { email: session.applicant_email },
+            { $set: { [`answers.${key}`]: answer } }
+          );
+        } catch (err) {
+          console.error("Failed to update Applicant answers:", err);
+        }
+      }
+
+      if (session.state !== CUSTOM_QUESTIONS_STATE) {
+        markPendingSave();
+        return `Answer to "${question.label}" updated to "${answer}". Let the user know.`;
+      }
+
+      const next = await advanceCustomQuestions();
       markPendingSave();
-      return `Data saved successfully. The new state is now ${session.state}. Acknowledge the input and ask the question for ${session.state}.`;
+
+      if (next) {
+        return `Answer saved. Acknowledge it, then ask the next extra question: "${next.prompt}".`;
+      }
+      return `Answer saved. That was the last question - the state is now ${session.state}. Call complete_onboarding to submit the application.`;
     }
   );
 
@@ -259,11 +462,26 @@ export function createOnboardingTools(
 
       // Delete the old session
       const oldSessionId = session.pending_verification.existing_session_id;
+      const oldSession = await Session.findOne({
+        session_id: oldSessionId,
+      }).lean();
       await Session.deleteOne({ session_id: oldSessionId });
       console.log("Deleted old session:", oldSessionId);
 
       // Clear pending verification and reset to fresh start
       const email = session.applicant_data.email;
+      await recordAuditEvent({
+        actor: { type: "applicant", id: email || session.session_id },
+        action: "applicant.start_fresh",
+        target: { type: "session", id: oldSessionId },
+        source: "applicant_ai",
+        before: oldSession
+          ? { state: oldSession.state, ...oldSession.applicant_data }
+          : undefined,
+        after: { email },
+        reason: "Couldn't verify as the returning user and chose to start over",
+        metadata: { email, new_session_id: session.session_id },
+      });
       session.pending_verification = undefined;
       session.applicant_data = { email }; // Keep only the email
       session.state = "AWAITING_SECRET_PHRASE";
@@ -286,28 +504,27 @@ export function createOnboardingTools(
     },
     async () => {
       // Check for required fields before completing
-      const requiredFields = [
-        { key: "email", label: "email" },
-        { key: "secret_phrase", label: "secret phrase" },
-        { key: "name", label: "name" },
-        { key: "whatsapp", label: "whatsapp number" },
-        { key: "engineering_area", label: "engineering area" },
-        { key: "skill_level", label: "skill level" },
-        { key: "improvement_goals", label: "improvement goals" },
-        { key: "career_goals", label: "career goals" },
-        { key: "projects", label: "projects" },
-        { key: "time_commitment", label: "time commitment" },
-        { key: "learning_style", label: "learning style" },
-        { key: "tech_focus", label: "tech focus" },
-        { key: "success_definition", label: "success definition" },
-      ];
-
       const missingFields: string[] = [];
-      for (const field of requiredFields) {
-        const value = session.applicant_data[field.key as keyof IApplicantData];
+      for (const question of getRequiredQuestions(session.applicant_data)) {
+        const value = session.applicant_data[question.key];
         if (!value || (typeof value === "string" && value.trim() === "")) {
-          missingFields.push(field.label);
+          missingFields.push(question.label);
+        }
+      }
+
+      // Required custom questions count too
+      try {
+        const customQuestions = await getActiveCustomQuestions();
+        for (const question of customQuestions) {
+          if (
+            question.required &&
+            !session.applicant_data.answers?.[question.key]?.trim()
+          ) {
+            missingFields.push(question.label);
+          }
         }
+      } catch (err) {
+        console.error("Failed to load custom questions:", err);
       }
 
       if (missingFields.length > 0) {
@@ -319,30 +536,22 @@ export function createOnboardingTools(
 
       // Set completion data - go directly to FREE_CHAT for natural conversation
       session.state = "FREE_CHAT" as OnboardingState;
+      session.pending_custom_question = undefined;
       session.applicant_data.submitted_at = new Date().toISOString();
       session.applicant_data.application_status = "pending";
 
       // Create or update Applicant record (secure, standalone storage)
-      const applicantData = {
-        email: session.applicant_data.email,
-        secret_phrase_hash: session.applicant_data.secret_phrase, // Already hashed
-        name: session.applicant_data.name,
-        whatsapp: session.applicant_data.whatsapp,
-        engineering_area: session.applicant_data.engineering_area,
-        skill_level: session.applicant_data.skill_level,
-        improvement_goals: session.applicant_data.improvement_goals,
-        career_goals: session.applicant_data.career_goals,
-        github: session.applicant_data.github,
-        linkedin: session.applicant_data.linkedin,
-        portfolio: session.applicant_data.portfolio,
-        projects: session.applicant_data.projects,
-        time_commitment: session.applicant_data.time_commitment,
-        learning_style: session.applicant_data.learning_style,
-        tech_focus: session.applicant_data.tech_focus,
-        success_definition: session.applicant_data.success_definition,
+      const applicantData: Record<string, unknown> = {
+        answers: session.applicant_data.answers || {},
+        time_commitment_hours: session.applicant_data.time_commitment_hours,
         submitted_at: session.applicant_data.submitted_at,
         application_status: "pending" as const,
       };
+      for (const key of QUESTION_KEYS) {
+        // Secret phrase is already hashed and stored under its own name
+        const field = key === "secret_phrase" ? "secret_phrase_hash" : key;
+        applicantData[field] = session.applicant_data[key];
+      }
 
       try {
         await Applicant.findOneAndUpdate(
@@ -398,6 +607,7 @@ Celebrate the submission, but be clear this is just the first step!`;
   );
   return [
     saveAndContinueTool,
+    saveCustomAnswerTool,
     startFreshTool,
     completeOnboardingTool,
     setSuggestionsTool,
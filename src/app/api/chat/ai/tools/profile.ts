@@ -5,6 +5,16 @@ import Session from "@/lib/models/session";
 import ai from "../config";
 import { z } from "genkit";
 import { logToolExecution } from "./logger";
+import {
+  getOnboardingPath,
+  getQuestionByState,
+  isInOnboardingPath,
+  NAVIGABLE_QUESTIONS,
+  normalizeAnswer,
+  ONBOARDING_QUESTIONS,
+  POST_ONBOARDING_STATES,
+  type QuestionKey,
+} from "@/lib/onboarding-questions";
 
 /**
  * Profile Management Tools
@@ -21,6 +31,38 @@ import { logToolExecution } from "./logger";
  * @module ai/tools/profile
  */
 
+// Every question except the security-sensitive ones can be edited
+const EDITABLE_FIELDS = NAVIGABLE_QUESTIONS.map((q) => q.key) as [
+  QuestionKey,
+  ...QuestionKey[]
+];
+
+const NAVIGABLE_STATES: OnboardingState[] = [
+  ...NAVIGABLE_QUESTIONS.map((q) => q.state as OnboardingState),
+  ...POST_ONBOARDING_STATES,
+];
+
+const LOCKED_STATES = ONBOARDING_QUESTIONS.filter((q) => !q.navigable)
+  .map((q) => q.state)
+  .join(" or ");
+
+// Numbered list of the steps on this applicant's path
+function describeStatePath(data: IApplicantData): string {
+  const path = getOnboardingPath(data);
+  return [
+    ...path.map(
+      (q, i) =>
+        `${i + 1}. ${q.state} - ${q.label}${q.required ? "" : " (optional)"}`
+    ),
+    `${path.length + 1}. COMPLETED - finished onboarding`,
+    `${path.length + 2}. FREE_CHAT - post-completion free interaction`,
+  ].join("\n");
+}
+
+function isStateNavigable(state: string, data: IApplicantData): boolean {
+  return !getQuestionByState(state) || isInOnboardingPath(state, data);
+}
+
 export function createProfileTools(
   session: ISession,
   markPendingSave: () => void
@@ -31,24 +73,7 @@ export function createProfileTools(
       description:
         "Update a user's profile information after they have completed onboarding. Use this when a user wants to change their GitHub, LinkedIn, portfolio, goals, skill level, or any other profile field. NOT for email changes.",
       inputSchema: z.object({
-        field: z
-          .enum([
-            "name",
-            "whatsapp",
-            "engineering_area",
-            "skill_level",
-            "improvement_goals",
-            "career_goals",
-            "github",
-            "linkedin",
-            "portfolio",
-            "projects",
-            "time_commitment",
-            "learning_style",
-            "tech_focus",
-            "success_definition",
-          ])
-          .describe("The field to update"),
+        field: z.enum(EDITABLE_FIELDS).describe("The field to update"),
         value: z.string().describe("The new value for the field"),
       }),
       outputSchema: z.string(),
@@ -59,50 +84,17 @@ export function createProfileTools(
       const { field, value } = input;
       const oldValue = session.applicant_data[field as keyof IApplicantData];
 
-      // URL normalization for url fields
-      if (["github", "linkedin", "portfolio"].includes(field)) {
-        let url = value.trim();
-
-        // Check if user is skipping
-        const skipPatterns =
-          /^(skip|skipped|n\/a|na|none|nope|nah|don't have|dont have|later|no|-)$/i;
-        if (skipPatterns.test(url)) {
-          session.applicant_data[field as keyof IApplicantData] =
-            "N/A" as never;
-          console.log(`${field} skipped, storing as N/A`);
-        } else {
-          url = url.replace(/^@/, ""); // Remove @ if present
-
-          if (field === "github") {
-            if (!url.includes("github.com")) {
-              const usernameMatch = url.match(/([a-zA-Z0-9_-]+)\/?$/);
-              if (usernameMatch) {
-                url = `https://github.com/${usernameMatch[1]}`;
-              }
-            } else if (!url.startsWith("http")) {
-              url = `https://${url}`;
-            }
-          } else if (field === "linkedin") {
-            if (!url.includes("linkedin.com")) {
-              const usernameMatch = url.match(/([a-zA-Z0-9_-]+)\/?$/);
-              if (usernameMatch) {
-                url = `https://linkedin.com/in/${usernameMatch[1]}`;
-              }
-            } else if (!url.startsWith("http")) {
-              url = `https://${url}`;
-            }
-          } else if (field === "portfolio") {
-            if (!url.startsWith("http") && url.includes(".")) {
-              url = `https://${url}`;
-            }
-          }
-
-          session.applicant_data[field as keyof IApplicantData] = url as never;
-          console.log(`Normalized ${field} URL:`, url);
-        }
-      } else {
-        session.applicant_data[field as keyof IApplicantData] = value as never;
+      // Same validation and normalization as save_and_continue
+      const result = normalizeAnswer(field, value);
+      if (!result.ok) {
+        console.log(`update_profile rejected ${field}: ${result.error}`);
+        return `Not updated: ${result.error}. ${result.hint}`;
       }
+      session.applicant_data = {
+        ...session.applicant_data,
+        [field]: result.value,
+        ...result.extras,
+      };
 
       session.updated_at = new Date();
       markPendingSave();
@@ -113,6 +105,7 @@ export function createProfileTools(
         try {
           const updateData: Record<string, unknown> = {
             [field]: session.applicant_data[field as keyof IApplicantData],
+            ...result.extras,
             updated_at: new Date(),
           };
           await Applicant.findOneAndUpdate({ email }, { $set: updateData });
@@ -142,47 +135,13 @@ export function createProfileTools(
 
 This is useful both during onboarding AND after completion if they want to revisit/update something.
 
-States available (in order):
-1. AWAITING_EMAIL - email address
-2. AWAITING_SECRET_PHRASE - secret phrase for login
-3. AWAITING_NAME - their name
-4. AWAITING_WHATSAPP - whatsapp number
-5. AWAITING_ENGINEERING_AREA - frontend/backend/fullstack/mobile
-6. AWAITING_SKILL_LEVEL - beginner/intermediate/advanced
-7. AWAITING_IMPROVEMENT_GOALS - what they want to improve
-8. AWAITING_CAREER_GOALS - career objectives
-9. AWAITING_GITHUB - github link (optional)
-10. AWAITING_LINKEDIN - linkedin (optional)
-11. AWAITING_PORTFOLIO - portfolio site (optional)
-12. AWAITING_PROJECTS - projects they've built
-13. AWAITING_TIME_COMMITMENT - hours per week
-14. AWAITING_LEARNING_STYLE - how they learn best
-15. AWAITING_TECH_FOCUS - technologies to focus on
-16. AWAITING_SUCCESS_DEFINITION - how they define success
-17. COMPLETED - finished onboarding
-18. FREE_CHAT - post-completion free interaction
-
-DO NOT change to AWAITING_EMAIL or AWAITING_SECRET_PHRASE (security-sensitive).`,
+States available for this user (in order - some steps are skipped or added based on their answers):
+${describeStatePath(session.applicant_data)}
+
+DO NOT change to ${LOCKED_STATES} (security-sensitive).`,
       inputSchema: z.object({
         target_state: z
-          .enum([
-            "AWAITING_NAME",
-            "AWAITING_WHATSAPP",
-            "AWAITING_ENGINEERING_AREA",
-            "AWAITING_SKILL_LEVEL",
-            "AWAITING_IMPROVEMENT_GOALS",
-            "AWAITING_CAREER_GOALS",
-            "AWAITING_GITHUB",
-            "AWAITING_LINKEDIN",
-            "AWAITING_PORTFOLIO",
-            "AWAITING_PROJECTS",
-            "AWAITING_TIME_COMMITMENT",
-            "AWAITING_LEARNING_STYLE",
-            "AWAITING_TECH_FOCUS",
-            "AWAITING_SUCCESS_DEFINITION",
-            "COMPLETED",
-            "FREE_CHAT",
-          ])
+          .enum(NAVIGABLE_STATES as [OnboardingState, ...OnboardingState[]])
           .describe("The state to change to"),
         reason: z
           .string()
@@ -198,110 +157,25 @@ DO NOT change to AWAITING_EMAIL or AWAITING_SECRET_PHRASE (security-sensitive).`
       const oldState = session.state;
       const wasCompleted = oldState === "COMPLETED";
 
-      // Get the current value for this field (if any)
-      const stateFieldMap: Record<string, keyof IApplicantData> = {
-        AWAITING_NAME: "name",
-        AWAITING_WHATSAPP: "whatsapp",
-        AWAITING_ENGINEERING_AREA: "engineering_area",
-        AWAITING_SKILL_LEVEL: "skill_level",
-        AWAITING_IMPROVEMENT_GOALS: "improvement_goals",
-        AWAITING_CAREER_GOALS: "career_goals",
-        AWAITING_GITHUB: "github",
-        AWAITING_LINKEDIN: "linkedin",
-        AWAITING_PORTFOLIO: "portfolio",
-        AWAITING_PROJECTS: "projects",
-        AWAITING_TIME_COMMITMENT: "time_commitment",
-        AWAITING_LEARNING_STYLE: "learning_style",
-        AWAITING_TECH_FOCUS: "tech_focus",
-        AWAITING_SUCCESS_DEFINITION: "success_definition",
-      };
+      // Steps can drop out of the path based on earlier answers
+      if (!isStateNavigable(target_state, session.applicant_data)) {
+        return `Cannot move to ${target_state} - that step doesn't apply to this user based on their earlier answers. Pick a state from their path instead.`;
+      }
 
-      const field = stateFieldMap[target_state];
-      const currentValue = field
-        ? session.applicant_data[field] || "(not set)"
+      // Get the current value for this field (if any)
+      const question = getQuestionByState(target_state);
+      const currentValue = question
+        ? session.applicant_data[question.key] || "(not set)"
         : null;
 
-      // Human-readable state names
-      const stateNames: Record<string, string> = {
-        AWAITING_NAME: "name",
-        AWAITING_WHATSAPP: "whatsapp number",
-        AWAITING_ENGINEERING_AREA: "engineering area",
-        AWAITING_SKILL_LEVEL: "skill level",
-        AWAITING_IMPROVEMENT_GOALS: "improvement goals",
-        AWAITING_CAREER_GOALS: "career goals",
-        AWAITING_GITHUB: "github",
-        AWAITING_LINKEDIN: "linkedin",
-        AWAITING_PORTFOLIO: "portfolio",
-        AWAITING_PROJECTS: "projects",
-        AWAITING_TIME_COMMITMENT: "time commitment",
-        AWAITING_LEARNING_STYLE: "learning style",
-        AWAITING_TECH_FOCUS: "tech focus",
-        AWAITING_SUCCESS_DEFINITION: "success definition",
-      };
-
-      // Suggested answers for each state
-      const stateSuggestions: Record<string, string[]> = {
-        AWAITING_NAME: ["keep current name", "change it"],
-        AWAITING_WHATSAPP: ["keep current number", "new number"],
-        AWAITING_ENGINEERING_AREA: [
-          "frontend",
-          "backend",
-          "full stack",
-          "mobile",
-        ],
-        AWAITING_SKILL_LEVEL: ["beginner", "intermediate", "advanced"],
-        AWAITING_IMPROVEMENT_GOALS: [
-          "system design",
-          "clean code",
-          "testing",
-          "keep current",
-        ],
-        AWAITING_CAREER_GOALS: [
-          "get hired",
-          "freelance",
-          "promotion",
-          "keep current",
-        ],
-        AWAITING_GITHUB: ["here's my github", "skip github", "keep current"],
-        AWAITING_LINKEDIN: [
-          "here's my linkedin",
-          "skip linkedin",
-          "keep current",
-        ],
-        AWAITING_PORTFOLIO: [
-          "here's my portfolio",
-          "no portfolio",
-          "keep current",
-        ],
-        AWAITING_PROJECTS: [
-          "here are my projects",
-          "still building",
-          "keep current",
-        ],
-        AWAITING_TIME_COMMITMENT: [
-          "5 hours/week",
-          "10 hours/week",
-          "15+ hours/week",
-        ],
-        AWAITING_LEARNING_STYLE: [
-          "hands-on coding",
-          "watching videos",
-          "reading docs",
-        ],
-        AWAITING_TECH_FOCUS: ["javascript", "python", "rust", "keep current"],
-        AWAITING_SUCCESS_DEFINITION: [
-          "ship projects",
-          "get hired",
-          "build confidence",
-        ],
-      };
-
       // Change the state
       session.state = target_state as OnboardingState;
-      session.suggestions = stateSuggestions[target_state] || [];
+      session.suggestions = question
+        ? [...(question.editSuggestions || question.suggestions)]
+        : [];
       markPendingSave();
 
-      const humanState = stateNames[target_state];
+      const humanState = question?.label;
 
       console.log(
         `State changed: ${oldState} -> ${target_state}${
@@ -372,6 +246,11 @@ After they respond, use save_and_continue to save the new value and advance to t
       Name: ${applicant.name || "Not provided"}
       WhatsApp: ${applicant.whatsapp || "Not provided"}
       Engineering Area: ${applicant.engineering_area || "Not provided"}
+      ${
+        applicant.mobile_platform
+          ? `Mobile Platform: ${applicant.mobile_platform}`
+          : ""
+      }
       Skill Level: ${applicant.skill_level || "Not provided"}
       Improvement Goals: ${applicant.improvement_goals || "Not provided"}
       Career Goals: ${applicant.career_goals || "Not provided"}
@@ -385,7 +264,11 @@ After they respond, use save_and_continue to save the new value and advance to t
       Success Definition: ${applicant.success_definition || "Not provided"}
       ${applicant.submitted_at ? `Submitted At: ${applicant.submitted_at}` : ""}
       ${applicant.reviewed_at ? `Reviewed At: ${applicant.reviewed_at}` : ""}
-      ${applicant.review_notes ? `Review Notes: ${applicant.review_notes}` : ""}
+      ${
+        applicant.applicant_feedback
+          ? `Feedback: ${applicant.applicant_feedback}`
+          : ""
+      }
       Created: ${applicant.created_at?.toLocaleDateString() || "Unknown"}
       Recovery Attempts: ${applicant.recovery_attempts || 0}
       
@@ -423,6 +306,11 @@ After they respond, use save_and_continue to save the new value and advance to t
       Name: ${profile.name || "Not provided"}
       WhatsApp: ${profile.whatsapp || "Not provided"}
       Engineering Area: ${profile.engineering_area || "Not provided"}
+      ${
+        profile.mobile_platform
+          ? `Mobile Platform: ${profile.mobile_platform}`
+          : ""
+      }
       Skill Level: ${profile.skill_level || "Not provided"}
       Improvement Goals: ${profile.improvement_goals || "Not provided"}
       Career Goals: ${profile.career_goals || "Not provided"}
@@ -469,7 +357,7 @@ After they respond, use save_and_continue to save the new value and advance to t
       // Check Applicant model first (source of truth for completed apps)
       const email = session.applicant_data?.email;
       let status = session.applicant_data?.application_status || "pending";
-      let reviewNotes = session.applicant_data?.review_notes;
+      let feedback = session.applicant_data?.applicant_feedback;
       let reviewedAt = session.applicant_data?.reviewed_at;
 
       if (email) {
@@ -477,13 +365,16 @@ After they respond, use save_and_continue to save the new value and advance to t
         if (applicant && applicant.application_status) {
           // Only sync from Applicant model if it has a defined status
           status = applicant.application_status;
-          reviewNotes = applicant.review_notes;
+          feedback = applicant.applicant_feedback;
           reviewedAt = applicant.reviewed_at;
 
           // Sync back to session if different
-          if (session.applicant_data.application_status !== status) {
+          if (
+            session.applicant_data.application_status !== status ||
+            session.applicant_data.applicant_feedback !== feedback
+          ) {
             session.applicant_data.application_status = status;
-            session.applicant_data.review_notes = reviewNotes;
+            session.applicant_data.applicant_feedback = feedback;
             session.applicant_data.reviewed_at = reviewedAt;
             markPendingSave();
           }
@@ -501,7 +392,7 @@ After they respond, use save_and_continue to save the new value and advance to t
         
         KAISHHH!!! ${name}, you made it! Welcome to the mentorship program! The mentor has reviewed your application and you're in!
         
-        ${reviewNotes ? `**Mentor's note:** ${reviewNotes}` : ""}
+        ${feedback ? `**Mentor's note:** ${feedback}` : ""}
         ${
           reviewedAt
             ? `Reviewed on: ${new Date(reviewedAt).toLocaleDateString()}`
@@ -515,8 +406,8 @@ After they respond, use save_and_continue to save the new value and advance to t
         Hey ${name}, I have to be real with you - your application wasn't accepted this time.
         
         ${
-          reviewNotes
-            ? `**Feedback:** ${reviewNotes}`
+          feedback
+            ? `**Feedback:** ${feedback}`
             : "This doesn't mean you can't grow and try again later!"
         }
         
@@ -527,8 +418,8 @@ After they respond, use save_and_continue to save the new value and advance to t
         Hey ${name}! You're on the waitlist. This means your application was good, but spots are currently full.
         
         ${
-          reviewNotes
-            ? `**Note:** ${reviewNotes}`
+          feedback
+            ? `**Note:** ${feedback}`
             : "You'll be notified when a spot opens up!"
         }
         
@@ -2,12 +2,27 @@ import type { ISession } from "@/lib/models/session";
 import ai from "../config";
 import { z } from "genkit";
 import Applicant, {
+  type IRecoveryLogEntry,
   VERIFIABLE_FIELDS,
   MIN_VERIFICATION_SCORE,
 } from "@/lib/models/applicant";
-import Session from "@/lib/models/session";
-import { OnboardingState } from "@/lib/models/session";
-import { hashSecretPhrase } from "../utils";
+import Session, {
+  type IApplicantData,
+  type OnboardingState,
+} from "@/lib/models/session";
+import { QUESTION_KEYS } from "@/lib/onboarding-questions";
+import { hashSecretPhrase, verifySecretPhrase } from "../utils";
+import {
+  canonicalizeRecoveryValue,
+  getVerifiableFields,
+  matchesRecoveryAnswer,
+} from "@/lib/recovery-verification";
+import {
+  checkThrottle,
+  clearThrottle,
+  recordThrottleFailure,
+  RECOVERY_THROTTLE,
+} from "@/lib/auth-throttle";
 import { logToolExecution } from "./logger";
 
 /**
@@ -25,10 +40,38 @@ import { logToolExecution } from "./logger";
  * @module ai/tools/recovery
  */
 
+// Wrong answers are counted per account, not per recovery, so starting a new
+// recovery (or a new session) doesn't buy more guesses
+const recoveryKey = (email: string) => `recovery:${email}`;
+
 export function createRecoveryTools(
   session: ISession,
   markPendingSave: () => void
 ) {
+  // Keep every verify outcome on the applicant (last 50) for admins
+  const recordOutcome = async (
+    field: string,
+    outcome: IRecoveryLogEntry["outcome"]
+  ) => {
+    if (!session.pending_recovery) return;
+    console.log(`🔑 Recovery check ${field}: ${outcome}`);
+    try {
+      await Applicant.updateOne(
+        { email: session.pending_recovery.email },
+        {
+          $push: {
+            recovery_log: {
+              $each: [{ field, outcome, at: new Date() }],
+              $slice: -50,
+            },
+          },
+        }
+      );
+    } catch (err) {
+      console.error("Failed to record recovery outcome:", err);
+    }
+  };
+
   const initiateRecoveryTool = ai.defineTool(
     {
       name: "initiate_recovery",
@@ -63,11 +106,20 @@ export function createRecoveryTools(
         return "NO_SECRET_PHRASE: Account exists but no secret phrase was set. They can just continue registration normally.";
       }
 
-      // Calculate what verifiable fields they have
-      const availableFields = VERIFIABLE_FIELDS.filter((f) => {
-        const value = profile?.[f.key as keyof typeof profile];
-        return value && typeof value === "string" && value.trim().length > 0;
+      // Locked out by earlier wrong answers, from this session or any other
+      const throttle = await checkThrottle({
+        email: recoveryKey(normalizedEmail),
       });
+      if (!throttle.allowed) {
+        return `RATE_LIMITED: Recovery for this account is locked after too many incorrect answers. Ask them to wait about ${Math.ceil(
+          throttle.retryAfterSeconds / 60
+        )} minute(s) before trying again, or try to remember their secret phrase. Don't start recovery again until then.`;
+      }
+
+      // Calculate what verifiable fields they have (skipped ones don't count)
+      const availableFields = getVerifiableFields(
+        applicant ? applicant.toObject() : existingSession?.applicant_data
+      );
 
       const totalPossibleScore = availableFields.reduce(
         (sum, f) => sum + f.weight,
@@ -189,56 +241,46 @@ DO NOT tell them what values are on file - ask them to provide the info themselv
         return "ERROR: Account no longer exists. Recovery cancelled.";
       }
 
-      // Use Applicant model as source of truth if available
-      const profile = applicant || existingSession?.applicant_data;
-      const storedValue = profile?.[input.field as keyof typeof profile];
-      const fieldConfig = VERIFIABLE_FIELDS.find((f) => f.key === input.field);
-
-      if (!fieldConfig || !storedValue) {
-        return `ERROR: Field '${input.field}' is not available for verification.`;
+      // Too many wrong answers for this account - recovery is over for now
+      const subjects = { email: recoveryKey(session.pending_recovery.email) };
+      const throttle = await checkThrottle(subjects);
+      if (!throttle.allowed) {
+        await recordOutcome(input.field, "locked");
+        return `FAILED: ❌ Recovery is locked after too many incorrect answers, for about ${Math.ceil(
+          throttle.retryAfterSeconds / 60
+        )} minute(s). Don't check any more answers. They can try remembering their secret phrase or start fresh (deletes old data).`;
       }
 
-      // Normalize and compare values
-      const normalizedStored = String(storedValue).toLowerCase().trim();
-      const normalizedAnswer = input.user_answer.toLowerCase().trim();
+      // Use Applicant model as source of truth if available
+      const profile = applicant
+        ? applicant.toObject()
+        : existingSession?.applicant_data;
+      const storedValue = (profile as Record<string, unknown> | undefined)?.[
+        input.field
+      ];
+      const fieldConfig = VERIFIABLE_FIELDS.find((f) => f.key === input.field);
 
-      // For URLs, extract the key part (username/path)
-      let isMatch = false;
       if (
-        input.field === "github" ||
-        input.field === "linkedin" ||
-        input.field === "portfolio"
+        !fieldConfig ||
+        canonicalizeRecoveryValue(input.field, storedValue) === null
       ) {
-        // Extract username/path from both
-        const storedPath = normalizedStored
-          .replace(/^https?:\/\//, "")
-          .replace(/^www\./, "")
-          .replace(/\/$/, "");
-        const answerPath = normalizedAnswer
-          .replace(/^https?:\/\//, "")
-          .replace(/^www\./, "")
-          .replace(/\/$/, "")
-          .replace(/^@/, "");
-
-        isMatch =
-          storedPath.includes(answerPath) || answerPath.includes(storedPath);
-      } else if (input.field === "whatsapp") {
-        // Compare just digits
-        const storedDigits = normalizedStored.replace(/\D/g, "");
-        const answerDigits = normalizedAnswer.replace(/\D/g, "");
-        isMatch =
-          storedDigits === answerDigits ||
-          storedDigits.endsWith(answerDigits) ||
-          answerDigits.endsWith(storedDigits);
-      } else {
-        // Exact or fuzzy match for name/engineering_area
-        isMatch =
-          normalizedStored === normalizedAnswer ||
-          normalizedStored.includes(normalizedAnswer) ||
-          normalizedAnswer.includes(normalizedStored);
+        await recordOutcome(input.field, "unavailable");
+        return `ERROR: Field '${
+          input.field
+        }' is not available for verification. Ask about one of: ${
+          getVerifiableFields(profile)
+            .map((f) => f.key)
+            .join(", ") || "none"
+        }.`;
       }
 
-      session.pending_recovery.attempts += 1;
+      // Exact match after per-field canonicalization
+      const isMatch = matchesRecoveryAnswer(
+        input.field,
+        storedValue,
+        input.user_answer
+      );
+      await recordOutcome(input.field, isMatch ? "match" : "mismatch");
 
       if (isMatch) {
         // Add to verified fields and update score
@@ -260,15 +302,9 @@ The user has proven their identity. Now use reset_secret_phrase tool to let them
         }
 
         // Need more verification - find next field
-        const availableFields = VERIFIABLE_FIELDS.filter((f) => {
-          const value = profile?.[f.key as keyof typeof profile];
-          return (
-            value &&
-            typeof value === "string" &&
-            value.trim().length > 0 &&
-            !session.pending_recovery?.verified_fields.includes(f.key)
-          );
-        });
+        const availableFields = getVerifiableFields(profile).filter(
+          (f) => !session.pending_recovery?.verified_fields.includes(f.key)
+        );
 
         if (availableFields.length === 0) {
           return `PARTIAL_VERIFIED: ✅ ${fieldConfig.label} matches, but score is only ${session.pending_recovery.verification_score}/${MIN_VERIFICATION_SCORE}.
@@ -288,19 +324,25 @@ Need ${
 
 Ask them to verify their ${nextField.label} next.`;
       } else {
+        const failure = await recordThrottleFailure(subjects, {
+          email: RECOVERY_THROTTLE,
+        });
+        session.pending_recovery.attempts = failure.failures;
         markPendingSave();
 
-        if (session.pending_recovery.attempts >= 5) {
-          return `FAILED: ❌ Too many incorrect attempts (${session.pending_recovery.attempts}).
+        if (failure.lockedUntil) {
+          return `FAILED: ❌ Too many incorrect attempts (${failure.failures}).
 
-For security, recovery is locked. They can:
+For security, recovery for this account is locked for about ${Math.ceil(
+            failure.retryAfterSeconds / 60
+          )} minute(s), even if they start over. They can:
 1. Try remembering their secret phrase
 2. Start fresh with a new account (will delete old data)`;
         }
 
         return `INCORRECT: ❌ ${fieldConfig.label} doesn't match our records.
 
-Attempts: ${session.pending_recovery.attempts}/5
+Attempts left: ${failure.attemptsRemaining}/${RECOVERY_THROTTLE.maxFailures}
 Ask if they want to try again with the correct ${fieldConfig.label}, verify a different field, or give up.`;
       }
     }
@@ -345,8 +387,25 @@ Ask if they want to try again with the correct ${fieldConfig.label}, verify a di
         return "ERROR: Account no longer exists.";
       }
 
+      // The new phrase has to actually replace the old one
+      const { valid: isSamePhrase } = await verifySecretPhrase(
+        input.new_phrase,
+        applicant?.secret_phrase_hash ||
+          existingSession?.applicant_data?.secret_phrase
+      );
+      if (isSamePhrase) {
+        return "SAME_PHRASE: That's the phrase already on the account. Ask them to choose a different secret phrase.";
+      }
+
       // Hash the new secret phrase
-      const hashedPhrase = hashSecretPhrase(input.new_phrase);
+      const hashedPhrase = await hashSecretPhrase(input.new_phrase);
+
+      // Recovered - earlier wrong answers no longer count against them
+      try {
+        await clearThrottle(recoveryKey(recoveryEmail));
+      } catch (err) {
+        console.error("Failed to reset recovery attempts:", err);
+      }
 
       // Update Applicant model if exists (source of truth)
       if (applicant) {
@@ -372,29 +431,22 @@ Ask if they want to try again with the correct ${fieldConfig.label}, verify a di
           await Session.deleteOne({ session_id: existingSession.session_id });
         }
       } else if (applicant) {
-        // Only Applicant record exists, set up session from it
-        session.applicant_data = {
-          email: applicant.email,
-          secret_phrase: hashedPhrase,
-          name: applicant.name,
-          whatsapp: applicant.whatsapp,
-          engineering_area: applicant.engineering_area,
-          skill_level: applicant.skill_level,
-          improvement_goals: applicant.improvement_goals,
-          career_goals: applicant.career_goals,
-          github: applicant.github,
-          linkedin: applicant.linkedin,
-          portfolio: applicant.portfolio,
-          projects: applicant.projects,
-          time_commitment: applicant.time_commitment,
-          learning_style: applicant.learning_style,
-          tech_focus: applicant.tech_focus,
-          success_definition: applicant.success_definition,
+        // Only Applicant record exists, set up session from it - every
+        // registry answer plus the submission and review details
+        const restored: IApplicantData = {
+          time_commitment_hours: applicant.time_commitment_hours,
+          answers: applicant.answers,
           application_status: applicant.application_status,
           submitted_at: applicant.submitted_at,
-          review_notes: applicant.review_notes,
+          applicant_feedback: applicant.applicant_feedback,
           reviewed_at: applicant.reviewed_at,
         };
+        for (const key of QUESTION_KEYS) {
+          // The Applicant keeps the phrase hash under its own name
+          restored[key] =
+            key === "secret_phrase" ? hashedPhrase : applicant[key];
+        }
+        session.applicant_data = restored;
         session.state = "FREE_CHAT" as OnboardingState; // Applicant records are for completed users - put in FREE_CHAT mode
         // Link session to the standalone Applicant record
         session.applicant_email = applicant.email;
@@ -1,9 +1,79 @@
 import crypto from "crypto";
+import { hashScrypt, verifyScrypt } from "@/lib/scrypt-hash";
 
-// Hash function for secret phrase
-export function hashSecretPhrase(phrase: string): string {
+// Phrases are matched case- and whitespace-insensitively
+function normalizePhrase(phrase: string): string {
+  return phrase.toLowerCase().trim();
+}
+
+// Unsalted SHA-256 hex digest - the original format, kept only for migration
+function legacyHash(phrase: string): string {
   return crypto
     .createHash("sha256")
-    .update(phrase.toLowerCase().trim())
+    .update(normalizePhrase(phrase))
+    .digest("hex");
+}
+
+export function isLegacySecretHash(stored: string): boolean {
+  return /^[a-f0-9]{64}$/i.test(stored);
+}
+
+// Hash function for secret phrase (salted scrypt, see lib/scrypt-hash)
+export async function hashSecretPhrase(phrase: string): Promise<string> {
+  return hashScrypt(normalizePhrase(phrase));
+}
+
+/**
+ * Check a phrase against a stored hash in constant time.
+ *
+ * Understands both the scrypt format and legacy SHA-256 hashes. `needsRehash`
+ * is set when the phrase matched but the hash is in an old format - callers
+ * should then store a fresh hashSecretPhrase() of the phrase.
+ */
+export async function verifySecretPhrase(
+  phrase: string,
+  stored: string | undefined
+): Promise<{ valid: boolean; needsRehash: boolean }> {
+  if (!stored) return { valid: false, needsRehash: false };
+
+  if (isLegacySecretHash(stored)) {
+    const valid = crypto.timingSafeEqual(
+      Buffer.from(legacyHash(phrase), "hex"),
+      Buffer.from(stored.toLowerCase(), "hex")
+    );
+    return { valid, needsRehash: valid };
+  }
+
+  const result = await verifyScrypt(normalizePhrase(phrase), stored);
+  if (!result) {
+    console.error("Unrecognized secret phrase hash format");
+    return { valid: false, needsRehash: false };
+  }
+  return result;
+}
+
+// Six random digits for an emailed login code
+export function generateLoginCode(): string {
+  return crypto.randomInt(0, 1_000_000).toString().padStart(6, "0");
+}
+
+// Login codes are short-lived, so a keyed SHA-256 is enough - the session id
+// as key stops a stored hash from being reused on another session
+export function hashLoginCode(code: string, sessionId: string): string {
+  return crypto
+    .createHmac("sha256", sessionId)
+    .update(code.replace(/\s/g, ""))
     .digest("hex");
 }
+
+export function checkLoginCode(
+  code: string,
+  storedHash: string,
+  sessionId: string
+): boolean {
+  const given = Buffer.from(hashLoginCode(code, sessionId), "hex");
+  const stored = Buffer.from(storedHash, "hex");
+  return (
+    given.length === stored.length && crypto.timingSafeEqual(given, stored)
+  );
+}
@@ -1,5 +1,4 @@
 import { type NextRequest, NextResponse } from "next/server";
-import { googleAI } from "@genkit-ai/google-genai";
 import connectDB from "@/lib/mongodb";
 import { signToken, verifyToken } from "@/lib/jwt";
 import Session, {
@@ -10,11 +9,21 @@ import Session, {
   type IMessage,
 } from "@/lib/models/session";
 import Applicant, { type IApplicant } from "@/lib/models/applicant";
-import { DEFAULT_SUGGESTIONS, WELCOME_MESSAGE } from "./ai/constants";
+import {
+  DEFAULT_SUGGESTIONS,
+  TOOL_PROGRESS_LABELS,
+  WELCOME_MESSAGE,
+} from "./ai/constants";
 import { generateStateFallback } from "./ai/fallbacks";
+import {
+  getAnsweredStates,
+  getStatePath,
+  QUESTION_KEYS,
+} from "@/lib/onboarding-questions";
 import { buildSystemPrompt } from "./ai/prompt";
 import { createTools } from "./ai/tools";
-import ai from "./ai/config";
+import { generateWithFallback } from "./ai/config";
+import { getClientIp } from "@/lib/auth-throttle";
 
 // Suppress expected Genkit tool re-registration warnings
 const originalError = console.error;
@@ -105,27 +114,24 @@ export async function POST(request: NextRequest) {
       let recentMessages: IMessage[] = [];
 
       if (applicantProfile) {
-        // Restore full profile from Applicant model
-        restoredData.email = applicantProfile.email;
-        restoredData.secret_phrase = applicantProfile.secret_phrase_hash;
-        restoredData.name = applicantProfile.name;
-        restoredData.whatsapp = applicantProfile.whatsapp;
-        restoredData.engineering_area = applicantProfile.engineering_area;
-        restoredData.skill_level = applicantProfile.skill_level;
-        restoredData.improvement_goals = applicantProfile.improvement_goals;
-        restoredData.career_goals = applicantProfile.career_goals;
-        restoredData.github = applicantProfile.github;
-        restoredData.linkedin = applicantProfile.linkedin;
-        restoredData.portfolio = applicantProfile.portfolio;
-        restoredData.projects = applicantProfile.projects;
-        restoredData.time_commitment = applicantProfile.time_commitment;
-        restoredData.learning_style = applicantProfile.learning_style;
-        restoredData.tech_focus = applicantProfile.tech_focus;
-        restoredData.success_definition = applicantProfile.success_definition;
-        restoredData.application_status = applicantProfile.application_status;
-        restoredData.submitted_at = applicantProfile.submitted_at;
-        restoredData.review_notes = applicantProfile.review_notes;
-        restoredData.reviewed_at = applicantProfile.reviewed_at;
+        // Restore full profile from Applicant model - every registry answer
+        // plus the submission and review details. Internal notes stay with
+        // the admins - only the feedback comes along
+        Object.assign(restoredData, {
+          time_commitment_hours: applicantProfile.time_commitment_hours,
+          answers: applicantProfile.answers,
+          application_status: applicantProfile.application_status,
+          submitted_at: applicantProfile.submitted_at,
+          applicant_feedback: applicantProfile.applicant_feedback,
+          reviewed_at: applicantProfile.reviewed_at,
+        });
+        for (const key of QUESTION_KEYS) {
+          // The Applicant keeps the phrase hash under its own name
+          restoredData[key] =
+            key === "secret_phrase"
+              ? applicantProfile.secret_phrase_hash
+              : applicantProfile[key];
+        }
 
         // Returning completed user goes to FREE_CHAT
         initialState = "FREE_CHAT";
@@ -203,6 +209,8 @@ export async function POST(request: NextRequest) {
         server_state: {
           session_id: session.session_id,
           state: session.state,
+          path: getStatePath(session.applicant_data),
+          answered: getAnsweredStates(session.applicant_data),
           completed: isCompleted,
           application_status: hasApplicationStatus
             ? session.applicant_data?.application_status
@@ -301,6 +309,8 @@ what can i help you with today? wanna chat, have a meme war, get some coding hel
         server_state: {
           session_id: session.session_id,
           state: session.state,
+          path: getStatePath(session.applicant_data),
+          answered: getAnsweredStates(session.applicant_data),
           completed: isCompleted,
           application_status: hasApplicationStatus
             ? session.applicant_data?.application_status
@@ -390,6 +400,8 @@ what can i help you with today? wanna chat, have a meme war, get some coding hel
         server_state: {
           session_id: session.session_id,
           state: session.state,
+          path: getStatePath(session.applicant_data),
+          answered: getAnsweredStates(session.applicant_data),
           completed: isCompleted,
           application_status: hasApplicationStatus
             ? session.applicant_data?.application_status
@@ -426,221 +438,270 @@ what can i help you with today? wanna chat, have a meme war, get some coding hel
       token,
       tokenEmail: email,
       sessionId: session_id,
+      ip: getClientIp(request.headers),
     });
 
-    try {
-      const systemPrompt = buildSystemPrompt(session);
-
-      // Build message history for Genkit - use simpler format
-      const messages = session.messages.map((msg) => ({
-        role: (msg.role === "assistant" ? "model" : msg.role) as
-          | "user"
-          | "model",
-        content: [{ text: msg.content }],
-      }));
-
-      // Single AI generate call - NO RETRY (retrying re-runs tools which breaks state)
-      let response;
-      try {
-        response = await ai.generate({
-          model: googleAI.model("gemini-3-flash-preview"),
-          system: systemPrompt,
-          messages: messages,
-          tools,
-          config: {
-            temperature: 0.7,
-          },
-          maxTurns: 20, // Increased to allow more tool calls + final response
-        });
-
-        // Log the full response object for debugging
-        console.log("-🤖AI Response: ", response.text);
-      } catch (genError) {
-        console.error("AI generate error:", genError);
-        // Don't retry - just use fallback
-        response = null;
-      }
-
-      // Generate fallback message based on state if AI failed
-      let aiText = response?.text?.trim();
-      if (!aiText) {
-        console.log("No AI text, generating state-based fallback...");
+    const encoder = new TextEncoder();
 
-        // Check if meme war was just started (pending_action = meme_war)
-        if (session.pending_action === "meme_war") {
-          console.log(
-            "Meme war detected but no AI text - using meme war fallback"
-          );
-          aiText = `oya now! ⚔️ meme war started!
+    return new Response(
+      new ReadableStream({
+        async start(controller) {
+          const send = (data: Record<string, unknown>) => {
+            controller.enqueue(
+              encoder.encode(`data: ${JSON.stringify(data)}\n\n`)
+            );
+          };
+
+          try {
+            const systemPrompt = buildSystemPrompt(session);
+
+            // Build message history for Genkit - use simpler format
+            const messages = session.messages.map((msg) => ({
+              role: (msg.role === "assistant" ? "model" : msg.role) as
+                | "user"
+                | "model",
+              content: [{ text: msg.content }],
+            }));
+
+            // Text forwarded to the client as it arrives from the model
+            let streamedText = "";
+            let lastMessageIndex: number | null = null;
+
+            // Generate with the provider chain - a provider is only retried if it failed
+            // before producing anything (retrying re-runs tools which breaks state)
+            let response;
+            let provider: string | undefined;
+            try {
+              const result = await generateWithFallback(
+                "chat",
+                {
+                  system: systemPrompt,
+                  messages: messages,
+                  tools,
+                  config: {
+                    temperature: 0.7,
+                  },
+                  maxTurns: 20, // Increased to allow more tool calls + final response
+                },
+                (chunk) => {
+                  if (chunk.role !== "model") return;
+
+                  // Let the client know which tool is running
+                  for (const part of chunk.toolRequests) {
+                    const toolName = part.toolRequest.name;
+                    send({
+                      type: "tool",
+                      name: toolName,
+                      label:
+                        TOOL_PROGRESS_LABELS[toolName] ||
+                        toolName.replace(/_/g, " "),
+                    });
+                  }
+
+                  let text = chunk.text;
+                  if (!text) return;
+
+                  // Separate text from different model turns (before/after tool calls)
+                  if (
+                    lastMessageIndex !== null &&
+                    chunk.index !== lastMessageIndex &&
+                    streamedText.trim()
+                  ) {
+                    text = `\n\n${text}`;
+                  }
+                  lastMessageIndex = chunk.index;
+
+                  streamedText += text;
+                  send({ type: "chunk", text });
+                }
+              );
+              response = result.response;
+              provider = result.provider;
+
+              // Log the full response object for debugging
+              console.log("-🤖AI Response: ", response.text);
+            } catch (genError) {
+              console.error("AI generate error:", genError);
+              // Every provider failed - use fallback
+              response = null;
+            }
+
+            // Prefer what the client already saw so the stored message matches it
+            let aiText = streamedText.trim() || response?.text?.trim();
+            if (!aiText) {
+              console.log("No AI text, generating state-based fallback...");
+
+              // Check if meme war was just started (pending_action = meme_war)
+              if (session.pending_action === "meme_war") {
+                console.log(
+                  "Meme war detected but no AI text - using meme war fallback"
+                );
+                aiText = `oya now! ⚔️ meme war started!
 
 let the battle begin! drop your best meme and let's see what you got 😤
 
 (the AI tried to send a meme but something went wrong - but the war is still on! 🔥)`;
-        } else {
-          aiText = generateStateFallback(
-            session.state,
-            session.applicant_data?.name,
-            !!session.pending_verification
-          );
-        }
-      }
-
-      // Save final message and any pending tool changes
-      session.messages.push({ role: "assistant", content: aiText });
-      if (needsSave) {
-        console.log("Saving pending tool changes...");
-      }
-      await saveSession();
-
-      // Reload session from DB to get the most up-to-date state after tool execution
-      const updatedSession = await Session.findOne({ session_id });
-      const finalState = updatedSession?.state || session.state;
-      // Only mark as completed if they have actually finished onboarding (have application_status)
-      const hasCompletedOnboarding =
-        !!updatedSession?.applicant_data?.application_status;
-      const isCompleted =
-        (finalState === "COMPLETED" || finalState === "FREE_CHAT") &&
-        hasCompletedOnboarding;
-      const pendingAction = updatedSession?.pending_action || null;
-
-      // Clear pending action after reading it
-      if (pendingAction && updatedSession) {
-        updatedSession.pending_action = null;
-        await updatedSession.save();
-      }
-
-      // Get AI-generated suggestions or fall back to defaults
-      const finalSuggestions =
-        updatedSession?.suggestions && updatedSession.suggestions.length > 0
-          ? updatedSession.suggestions
-          : DEFAULT_SUGGESTIONS[finalState as OnboardingState] || [];
-
-      console.log("Response received, text length:", aiText.length);
-      console.log("Final state after tools:", finalState);
-      console.log("Pending action:", pendingAction);
-      console.log("Suggestions:", finalSuggestions);
-
-      // Generate token for response (refresh if needed)
-      const responseToken = generateResponseToken();
-
-      // Get applicant data for completed users from cached session data
-      // No need to query Applicant model on every request - check_application_status tool
-      // already syncs the status when user explicitly asks, and status changes are rare
-      let applicationStatus:
-        | "pending"
-        | "accepted"
-        | "rejected"
-        | "waitlisted"
-        | undefined = undefined;
-      let userName: string | undefined;
-
-      // Only include application_status if user has one (completed onboarding with results)
-      if (isCompleted && updatedSession?.applicant_data?.application_status) {
-        applicationStatus = updatedSession.applicant_data.application_status as
-          | "pending"
-          | "accepted"
-          | "rejected"
-          | "waitlisted";
-        userName = updatedSession.applicant_data.name;
-      }
-
-      return new Response(
-        new ReadableStream({
-          start(controller) {
-            const encoder = new TextEncoder();
-
-            // Send response in larger chunks - client handles the typing animation
-            let charIndex = 0;
-            const chunkSize = 100; // Larger chunks since client animates
-
-            const sendNextChunk = () => {
-              if (charIndex >= aiText.length) {
-                // Send final event with updated state info from DB
-                const finalData = JSON.stringify({
-                  type: "done",
-                  token: responseToken,
-                  server_state: {
-                    session_id: session.session_id,
-                    state: finalState,
-                    completed: isCompleted,
-                    action: pendingAction,
-                    application_status: isCompleted
-                      ? applicationStatus
-                      : undefined,
-                    user_name: isCompleted ? userName : undefined,
-                  },
-                  suggestions: finalSuggestions,
-                });
-                controller.enqueue(encoder.encode(`data: ${finalData}\n\n`));
-                controller.close();
-                return;
+              } else {
+                aiText = generateStateFallback(
+                  session.state,
+                  session.applicant_data?.name,
+                  !!session.pending_verification,
+                  session.pending_custom_question?.prompt
+                );
               }
-
-              // Send larger chunks - client-side animation handles the natural feel
-              const chunk = aiText.slice(charIndex, charIndex + chunkSize);
-              charIndex += chunkSize;
-
-              const data = JSON.stringify({
-                type: "chunk",
-                text: chunk,
-              });
-              controller.enqueue(encoder.encode(`data: ${data}\n\n`));
-
-              // Faster delivery - client handles animation timing
-              setTimeout(sendNextChunk, 10);
-            };
-
-            sendNextChunk();
-          },
-        }),
-        {
-          headers: {
-            "Content-Type": "text/event-stream",
-            "Cache-Control": "no-cache",
-            Connection: "keep-alive",
-          },
-        }
-      );
-    } catch (aiError) {
-      console.error("AI error:", aiError);
-
-      // Use state-based fallback instead of generic error
-      const fallbackMessage = generateStateFallback(
-        session.state,
-        session.applicant_data?.name,
-        !!session.pending_verification
-      );
-      session.messages.push({ role: "assistant", content: fallbackMessage });
-
-      // Still save any pending changes from tools that ran before error
-      if (needsSave) {
-        console.log("Saving pending tool changes despite AI error...");
-      }
-      await saveSession();
-
-      // Reload to get updated state
-      const updatedSession = await Session.findOne({ session_id });
-      const currentState = updatedSession?.state || session.state;
-      const isCompletedState =
-        currentState === "COMPLETED" || currentState === "FREE_CHAT";
-
-      return NextResponse.json({
-        assistant_message: fallbackMessage,
-        token: generateResponseToken(),
-        server_state: {
-          session_id: session.session_id,
-          state: currentState,
-          completed: isCompletedState,
-          application_status: isCompletedState
-            ? updatedSession?.applicant_data?.application_status
-            : undefined,
-          user_name: isCompletedState
-            ? updatedSession?.applicant_data?.name
-            : undefined,
+              send({ type: "chunk", text: aiText });
+            }
+
+            // Save final message and any pending tool changes
+            session.messages.push({
+              role: "assistant",
+              content: aiText,
+              provider,
+            });
+            if (needsSave) {
+              console.log("Saving pending tool changes...");
+            }
+            await saveSession();
+
+            // Reload session from DB to get the most up-to-date state after tool execution
+            const updatedSession = await Session.findOne({ session_id });
+            const finalState = updatedSession?.state || session.state;
+            // Only mark as completed if they have actually finished onboarding (have application_status)
+            const hasCompletedOnboarding =
+              !!updatedSession?.applicant_data?.application_status;
+            const isCompleted =
+              (finalState === "COMPLETED" || finalState === "FREE_CHAT") &&
+              hasCompletedOnboarding;
+            const pendingAction = updatedSession?.pending_action || null;
+
+            // Clear pending action after reading it
+            if (pendingAction && updatedSession) {
+              updatedSession.pending_action = null;
+              await updatedSession.save();
+            }
+
+            // Get AI-generated suggestions or fall back to defaults
+            const finalSuggestions =
+              updatedSession?.suggestions &&
+              updatedSession.suggestions.length > 0
+                ? updatedSession.suggestions
+                : DEFAULT_SUGGESTIONS[finalState as OnboardingState] || [];
+
+            console.log("Response received, text length:", aiText.length);
+            console.log("Final state after tools:", finalState);
+            console.log("Pending action:", pendingAction);
+            console.log("Suggestions:", finalSuggestions);
+
+            // Get applicant data for completed users from cached session data
+            // No need to query Applicant model on every request - check_application_status tool
+            // already syncs the status when user explicitly asks, and status changes are rare
+            let applicationStatus:
+              | "pending"
+              | "accepted"
+              | "rejected"
+              | "waitlisted"
+              | undefined = undefined;
+            let userName: string | undefined;
+
+            // Only include application_status if user has one (completed onboarding with results)
+            if (
+              isCompleted &&
+              updatedSession?.applicant_data?.application_status
+            ) {
+              applicationStatus = updatedSession.applicant_data
+                .application_status as
+                | "pending"
+                | "accepted"
+                | "rejected"
+                | "waitlisted";
+              userName = updatedSession.applicant_data.name;
+            }
+
+            // Send final event with updated state info from DB
+            send({
+              type: "done",
+              token: generateResponseToken(),
+              server_state: {
+                session_id: session.session_id,
+                state: finalState,
+                path: getStatePath(
+                  updatedSession?.applicant_data || session.applicant_data
+                ),
+                answered: getAnsweredStates(
+                  updatedSession?.applicant_data || session.applicant_data
+                ),
+                completed: isCompleted,
+                action: pendingAction,
+                application_status: isCompleted ? applicationStatus : undefined,
+                user_name: isCompleted ? userName : undefined,
+              },
+              suggestions: finalSuggestions,
+            });
+          } catch (aiError) {
+            console.error("AI error:", aiError);
+
+            // Use state-based fallback instead of generic error
+            const fallbackMessage = generateStateFallback(
+              session.state,
+              session.applicant_data?.name,
+              !!session.pending_verification,
+              session.pending_custom_question?.prompt
+            );
+            session.messages.push({
+              role: "assistant",
+              content: fallbackMessage,
+            });
+
+            try {
+              // Still save any pending changes from tools that ran before error
+              if (needsSave) {
+                console.log("Saving pending tool changes despite AI error...");
+              }
+              await saveSession();
+            } catch (saveError) {
+              console.error(
+                "Failed to save session after AI error:",
+                saveError
+              );
+            }
+
+            const currentState = session.state;
+            const isCompletedState =
+              currentState === "COMPLETED" || currentState === "FREE_CHAT";
+
+            send({ type: "chunk", text: fallbackMessage });
+            send({
+              type: "done",
+              token: generateResponseToken(),
+              server_state: {
+                session_id: session.session_id,
+                state: currentState,
+                path: getStatePath(session.applicant_data),
+                answered: getAnsweredStates(session.applicant_data),
+                completed: isCompletedState,
+                application_status: isCompletedState
+                  ? session.applicant_data?.application_status
+                  : undefined,
+                user_name: isCompletedState
+                  ? session.applicant_data?.name
+                  : undefined,
+              },
+              suggestions:
+                DEFAULT_SUGGESTIONS[currentState as OnboardingState] || [],
+            });
+          } finally {
+            controller.close();
+          }
         },
-        suggestions: DEFAULT_SUGGESTIONS[currentState as OnboardingState] || [],
-      });
-    }
+      }),
+      {
+        headers: {
+          "Content-Type": "text/event-stream",
+          "Cache-Control": "no-cache",
+          Connection: "keep-alive",
+        },
+      }
+    );
   } catch (error) {
     console.error("Chat API error:", error);
     return NextResponse.json(
@@ -0,0 +1,239 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { motion } from "framer-motion";
+import { Input } from "@/components/ui/input";
+import {
+  Bot,
+  ChevronDown,
+  History,
+  MousePointerClick,
+  User,
+} from "lucide-react";
+import { toast } from "sonner";
+
+export interface AuditEventItem {
+  _id: string;
+  actor: { type: "admin" | "applicant" | "system"; id: string };
+  action: string;
+  target: { type: string; id: string };
+  source: "ui" | "admin_ai" | "applicant_ai";
+  changes: { field: string; before?: unknown; after?: unknown }[];
+  reason?: string;
+  metadata?: Record<string, unknown>;
+  created_at: string;
+}
+
+interface AdminAuditProps {
+  // Pre-fill the target filter, e.g. from an applicant's detail view
+  initialTarget?: string;
+}
+
+const SOURCES = [
+  { value: "", label: "all sources" },
+  { value: "ui", label: "dashboard" },
+  { value: "admin_ai", label: "admin ai" },
+  { value: "applicant_ai", label: "applicant ai" },
+];
+
+const sourceIcon = (source: AuditEventItem["source"]) =>
+  source === "ui" ? (
+    <MousePointerClick className="w-3.5 h-3.5" />
+  ) : source === "admin_ai" ? (
+    <Bot className="w-3.5 h-3.5" />
+  ) : (
+    <User className="w-3.5 h-3.5" />
+  );
+
+const formatValue = (value: unknown) =>
+  value === undefined
+    ? "—"
+    : typeof value === "string"
+    ? value
+    : JSON.stringify(value);
+
+// Browse and filter the audit log
+export default function AdminAudit({ initialTarget = "" }: AdminAuditProps) {
+  const [events, setEvents] = useState<AuditEventItem[]>([]);
+  const [actions, setActions] = useState<string[]>([]);
+  const [nextBefore, setNextBefore] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [filters, setFilters] = useState({
+    target: initialTarget,
+    actor: "",
+    action: "",
+    source: "",
+  });
+
+  async function load(before?: string) {
+    try {
+      setLoading(true);
+      const token = localStorage.getItem("admin_token");
+      const params = new URLSearchParams();
+      for (const [key, value] of Object.entries(filters)) {
+        if (value.trim()) params.set(key, value.trim());
+      }
+      if (before) params.set("before", before);
+
+      const response = await fetch(`/api/admin/audit?${params.toString()}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok)
+        throw new Error(data.error || `HTTP ${response.status}`);
+
+      setEvents((prev) => (before ? [...prev, ...data.events] : data.events));
+      setActions(data.actions || []);
+      setNextBefore(data.next_before);
+    } catch (error) {
+      console.error("Error loading audit log:", error);
+      toast.error("failed to load audit log");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  // Reload when filters change, debounced for typing
+  useEffect(() => {
+    const timer = setTimeout(() => load(), 300);
+    return () => clearTimeout(timer);
+  }, [filters]);
+
+  return (
+    <div className="flex-1 flex flex-col overflow-hidden">
+      {/* Filters */}
+      <div className="p-4 border-b border-white/[0.06] flex flex-wrap items-center gap-2 liquid-glass-light">
+        <Input
+          placeholder="applicant email / target..."
+          value={filters.target}
+          onChange={(e) => setFilters({ ...filters, target: e.target.value })}
+          className="w-64 liquid-glass-pill border-white/[0.08] text-sm"
+        />
+        <Input
+          placeholder="who (admin or applicant)..."
+          value={filters.actor}
+          onChange={(e) => setFilters({ ...filters, actor: e.target.value })}
+          className="w-56 liquid-glass-pill border-white/[0.08] text-sm"
+        />
+        <select
+          value={filters.action}
+          onChange={(e) => setFilters({ ...filters, action: e.target.value })}
+          className="h-9 px-3 rounded-md liquid-glass-pill border border-white/[0.08] text-sm bg-transparent"
+        >
+          <option value="">all actions</option>
+          {actions.map((action) => (
+            <option key={action} value={action}>
+              {action}
+            </option>
+          ))}
+        </select>
+        <select
+          value={filters.source}
+          onChange={(e) => setFilters({ ...filters, source: e.target.value })}
+          className="h-9 px-3 rounded-md liquid-glass-pill border border-white/[0.08] text-sm bg-transparent"
+        >
+          {SOURCES.map((source) => (
+            <option key={source.value} value={source.value}>
+              {source.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* Events */}
+      <div className="flex-1 overflow-y-auto p-4 space-y-2">
+        {events.length === 0 && !loading ? (
+          <div className="flex items-center justify-center h-full">
+            <div className="text-center">
+              <History className="w-10 h-10 text-foreground/10 mx-auto mb-2" />
+              <p className="text-sm text-foreground/40">no events found</p>
+            </div>
+          </div>
+        ) : (
+          events.map((event) => (
+            <div
+              key={event._id}
+              className="p-4 rounded-2xl liquid-glass-pill border border-transparent"
+            >
+              <button
+                onClick={() =>
+                  setExpandedId(expandedId === event._id ? null : event._id)
+                }
+                className="w-full flex items-start justify-between gap-3 text-left"
+              >
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center gap-2 text-sm">
+                    <span className="font-medium">{event.actor.id}</span>
+                    <span className="text-orange-400">{event.action}</span>
+                    <span className="text-foreground/60 truncate">
+                      {event.target.id}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-2 mt-1 text-[10px] text-foreground/40">
+                    {sourceIcon(event.source)}
+                    {
+                      SOURCES.find((s) => s.value === event.source)?.label
+                    } • {new Date(event.created_at).toLocaleString()}
+                    {event.changes.length > 0 &&
+                      ` • ${event.changes.map((c) => c.field).join(", ")}`}
+                  </div>
+                </div>
+                <ChevronDown
+                  className={`w-4 h-4 text-foreground/30 transition-transform ${
+                    expandedId === event._id ? "rotate-180" : ""
+                  }`}
+                />
+              </button>
+
+              {expandedId === event._id && (
+                <div className="mt-3 pt-3 border-t border-white/5 space-y-2 text-xs">
+                  {event.reason && (
+                    <p className="text-foreground/70">
+                      <span className="text-foreground/40">why: </span>
+                      {event.reason}
+                    </p>
+                  )}
+                  {event.changes.map((change) => (
+                    <div
+                      key={change.field}
+                      className="grid grid-cols-[140px_1fr] gap-2"
+                    >
+                      <span className="text-foreground/40">{change.field}</span>
+                      <span className="break-all">
+                        <span className="text-red-400/80 line-through">
+                          {formatValue(change.before)}
+                        </span>{" "}
+                        →{" "}
+                        <span className="text-emerald-400/80">
+                          {formatValue(change.after)}
+                        </span>
+                      </span>
+                    </div>
+                  ))}
+                  {event.metadata && (
+                    <pre className="text-[10px] text-foreground/40 whitespace-pre-wrap break-all">
+                      {JSON.stringify(event.metadata, null, 2)}
+                    </pre>
+                  )}
+                </div>
+              )}
+            </div>
+          ))
+        )}
+
+        {nextBefore && (
+          <motion.button
+            whileHover={{ scale: 1.02 }}
+            whileTap={{ scale: 0.98 }}
+            onClick={() => load(nextBefore)}
+            disabled={loading}
+            className="w-full py-2.5 rounded-xl liquid-glass-pill text-sm text-foreground/50 disabled:opacity-50"
+          >
+            {loading ? "loading..." : "load older"}
+          </motion.button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -21,8 +21,39 @@ import {
   ChevronRight,
   Sparkles,
   X,
+  ListChecks,
+  ShieldAlert,
+  UserCog,
+  ShieldCheck,
+  History,
+  Undo2,
+  Gauge,
 } from "lucide-react";
 import { toast } from "sonner";
+import AdminQuestions, {
+  type CustomQuestion,
+} from "@/components/admin-questions";
+import AdminTeam, { type AdminAccount } from "@/components/admin-team";
+import AdminSecurity from "@/components/admin-security";
+import AdminAudit from "@/components/admin-audit";
+import AdminRubric, {
+  type RubricCriterionItem,
+} from "@/components/admin-rubric";
+import AdminRubricScores, {
+  type RubricProposal,
+  type RubricScorecard,
+  type RubricState,
+} from "@/components/admin-rubric-scores";
+
+interface StatusHistoryEntry {
+  from: string;
+  to: string;
+  actor: string;
+  notes?: string;
+  timestamp: string;
+  undone_at?: string;
+  undone_by?: string;
+}
 
 interface Applicant {
   email: string;
@@ -31,6 +62,7 @@ interface Applicant {
     email: string;
     whatsapp?: string;
     engineering_area: string;
+    mobile_platform?: string;
     skill_level: string;
     improvement_goals?: string;
     career_goals: string;
@@ -39,14 +71,26 @@ interface Applicant {
     portfolio?: string;
     projects?: string;
     time_commitment?: string;
+    time_commitment_hours?: number | null;
     learning_style?: string;
     tech_focus?: string;
     success_definition?: string;
+    answers?: Record<string, string>;
     application_status: "pending" | "accepted" | "rejected" | "waitlisted";
     submitted_at: string;
-    review_notes?: string;
+    internal_notes?: string;
+    applicant_feedback?: string;
     reviewed_at?: string;
     reviewed_by?: string;
+    status_history?: StatusHistoryEntry[];
+    rubric_scores?: RubricScorecard[];
+    rubric_score?: number;
+    rubric_proposal?: RubricProposal;
+  };
+  security?: {
+    failed_phrase_attempts: number;
+    last_failed_phrase_attempt?: string;
+    phrase_locked_until?: string;
   };
 }
 
@@ -66,24 +110,45 @@ interface FeedbackItem {
 interface AdminInterfaceProps {
   onLogout: () => void;
   adminName?: string;
+  adminUsername?: string;
+  adminRole?: string;
 }
 
 const easing: [number, number, number, number] = [0.16, 1, 0.3, 1];
 
+// Most recent decision that hasn't been undone
+const lastDecision = (data?: Applicant["applicant_data"]) =>
+  data?.status_history?.filter((entry) => !entry.undone_at).pop();
+
 export default function AdminInterface({
   onLogout,
   adminName = "admin",
+  adminUsername = "",
+  adminRole = "reviewer",
 }: AdminInterfaceProps) {
+  // What this admin's role allows - the API enforces the same rules
+  const isOwner = adminRole === "owner";
+  const canReview = adminRole !== "read_only";
+
   // View state
-  const [activeTab, setActiveTab] = useState<"applicants" | "feedback">(
-    "applicants"
-  );
+  const [activeTab, setActiveTab] = useState<
+    "applicants" | "feedback" | "questions" | "rubric" | "team" | "audit"
+  >("applicants");
+  // Target the audit tab opens filtered to
+  const [auditTarget, setAuditTarget] = useState("");
   const [searchQuery, setSearchQuery] = useState("");
   const [statusFilter, setStatusFilter] = useState<string>("all");
+  const [sortBy, setSortBy] = useState<"newest" | "score">("newest");
 
   // Data state
   const [applicants, setApplicants] = useState<Applicant[]>([]);
   const [feedbackList, setFeedbackList] = useState<FeedbackItem[]>([]);
+  const [customQuestions, setCustomQuestions] = useState<CustomQuestion[]>([]);
+  const [rubricCriteria, setRubricCriteria] = useState<RubricCriterionItem[]>(
+    []
+  );
+  const [rubricSourceFields, setRubricSourceFields] = useState<string[]>([]);
+  const [admins, setAdmins] = useState<AdminAccount[]>([]);
   const [loading, setLoading] = useState(true);
 
   // Selection state
@@ -95,11 +160,13 @@ export default function AdminInterface({
   );
 
   // Notes state
-  const [reviewNotes, setReviewNotes] = useState("");
+  const [internalNotes, setInternalNotes] = useState("");
+  const [applicantFeedback, setApplicantFeedback] = useState("");
   const [savingNotes, setSavingNotes] = useState(false);
 
   // Assistant state
   const [assistantOpen, setAssistantOpen] = useState(false);
+  const [securityOpen, setSecurityOpen] = useState(false);
   const [chatSessionId, setChatSessionId] = useState<string | null>(null);
   const [chatMessages, setChatMessages] = useState<
     { role: "admin" | "assistant"; content: string }[]
@@ -118,6 +185,9 @@ export default function AdminInterface({
   useEffect(() => {
     fetchApplicants();
     fetchFeedback();
+    fetchQuestions();
+    fetchRubric();
+    if (isOwner) fetchAdmins();
   }, []);
 
   // Scroll chat
@@ -125,12 +195,16 @@ export default function AdminInterface({
     chatEndRef.current?.scrollIntoView({ behavior: "smooth" });
   }, [chatMessages]);
 
-  // Load notes when applicant selected
+  // Load notes when applicant selected (not when their scores or status
+  // change, so unsaved notes survive)
   useEffect(() => {
-    setReviewNotes(selectedApplicant?.applicant_data?.review_notes || "");
-  }, [selectedApplicant]);
+    setInternalNotes(selectedApplicant?.applicant_data?.internal_notes || "");
+    setApplicantFeedback(
+      selectedApplicant?.applicant_data?.applicant_feedback || ""
+    );
+  }, [selectedApplicant?.email]);
 
-  // Filter logic
+  // Filter logic - newest first from the API, or by rubric score (unscored last)
   const filteredApplicants = applicants.filter((app) => {
     const matchesStatus =
       statusFilter === "all" ||
@@ -145,6 +219,34 @@ export default function AdminInterface({
         .includes(searchQuery.toLowerCase());
     return matchesStatus && matchesSearch;
   });
+  if (sortBy === "score") {
+    filteredApplicants.sort(
+      (a, b) =>
+        (b.applicant_data?.rubric_score ?? -1) -
+        (a.applicant_data?.rubric_score ?? -1)
+    );
+  }
+
+  // Scored on the applicant panel, in rubric order
+  const activeCriteria = rubricCriteria.filter((c) => c.active);
+
+  // Merge a saved scorecard into the selected applicant and the list
+  function updateRubric(email: string, rubric: RubricState) {
+    const merge = (app: Applicant): Applicant =>
+      app.email === email
+        ? {
+            ...app,
+            applicant_data: {
+              ...app.applicant_data,
+              rubric_scores: rubric.rubric_scores,
+              rubric_score: rubric.rubric_score,
+              rubric_proposal: rubric.rubric_proposal,
+            },
+          }
+        : app;
+    setApplicants((prev) => prev.map(merge));
+    setSelectedApplicant((prev) => (prev ? merge(prev) : prev));
+  }
 
   const filteredFeedback = feedbackList.filter((fb) => {
     return (
@@ -231,6 +333,61 @@ export default function AdminInterface({
     }
   }
 
+  async function fetchQuestions() {
+    try {
+      const token = localStorage.getItem("admin_token");
+      if (!token) return;
+
+      const response = await fetch("/api/admin/questions", {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+
+      const data = await response.json();
+      setCustomQuestions(data.questions || []);
+    } catch (error) {
+      console.error("Error fetching questions:", error);
+    }
+  }
+
+  async function fetchRubric() {
+    try {
+      const token = localStorage.getItem("admin_token");
+      if (!token) return;
+
+      const response = await fetch("/api/admin/rubric", {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+
+      const data = await response.json();
+      setRubricCriteria(data.criteria || []);
+      setRubricSourceFields(data.source_fields || []);
+    } catch (error) {
+      console.error("Error fetching rubric:", error);
+    }
+  }
+
+  async function fetchAdmins() {
+    try {
+      const token = localStorage.getItem("admin_token");
+      if (!token) return;
+
+      const response = await fetch("/api/admin/accounts", {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+
+      const data = await response.json();
+      setAdmins(data.admins || []);
+    } catch (error) {
+      console.error("Error fetching admins:", error);
+    }
+  }
+
   async function updateApplicationStatus(
     email: string,
     status: "accepted" | "rejected" | "waitlisted"
@@ -257,6 +414,45 @@ export default function AdminInterface({
     }
   }
 
+  async function undoLastDecision(email: string) {
+    try {
+      const token = localStorage.getItem("admin_token");
+      const response = await fetch("/api/admin/review/undo", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ email }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) throw new Error(data.error || "Undo failed");
+
+      toast.success(`decision undone - back to ${data.application.new_status}`);
+      // Stay on the applicant so the timeline shows what changed
+      setSelectedApplicant((prev) =>
+        prev && prev.email === email
+          ? {
+              ...prev,
+              applicant_data: {
+                ...prev.applicant_data,
+                application_status: data.application.new_status,
+                reviewed_at: data.application.reviewed_at,
+                reviewed_by: data.application.reviewed_by,
+                status_history: data.application.status_history,
+              },
+            }
+          : prev
+      );
+      fetchApplicants();
+    } catch (error) {
+      console.error("Error undoing decision:", error);
+      toast.error(
+        error instanceof Error ? error.message : "failed to undo decision"
+      );
+    }
+  }
+
   async function saveReviewNotes() {
     if (!selectedApplicant) return;
 
@@ -271,7 +467,8 @@ export default function AdminInterface({
         },
         body: JSON.stringify({
           email: selectedApplicant.email,
-          review_notes: reviewNotes,
+          internal_notes: internalNotes,
+          applicant_feedback: applicantFeedback,
         }),
       });
 
@@ -299,19 +496,32 @@ export default function AdminInterface({
     setChatLoading(true);
 
     try {
+      const token = localStorage.getItem("admin_token");
       const response = await fetch("/api/admin/support", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
         body: JSON.stringify({
           message: userMessage,
           session_id: chatSessionId,
         }),
       });
 
+      if (response.status === 401) {
+        toast.error("unauthorized. please login again.");
+        onLogout();
+        return;
+      }
+      if (response.status === 404) {
+        // Session isn't ours (or is gone) - start a new one next message
+        setChatSessionId(null);
+      }
       if (!response.ok) throw new Error("Failed to get response");
 
       const data = await response.json();
-      if (data.session_id && !chatSessionId) setChatSessionId(data.session_id);
+      if (data.session_id) setChatSessionId(data.session_id);
 
       setChatMessages((prev) => [
         ...prev,
@@ -445,6 +655,81 @@ export default function AdminInterface({
                 <Star className="w-4 h-4" />
                 feedback
               </motion.button>
+              <motion.button
+                onClick={() => {
+                  setActiveTab("questions");
+                  setSelectedApplicant(null);
+                  setSelectedFeedback(null);
+                  setSearchQuery("");
+                }}
+                whileHover={{ scale: 1.02 }}
+                whileTap={{ scale: 0.98 }}
+                className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-all ${
+                  activeTab === "questions"
+                    ? "liquid-glass bg-orange-500/20 text-orange-400 shadow-[0_0_20px_rgba(251,146,60,0.15)]"
+                    : "text-foreground/50 hover:text-foreground/70 hover:bg-white/5"
+                }`}
+              >
+                <ListChecks className="w-4 h-4" />
+                questions
+              </motion.button>
+              <motion.button
+                onClick={() => {
+                  setActiveTab("rubric");
+                  setSelectedApplicant(null);
+                  setSelectedFeedback(null);
+                  setSearchQuery("");
+                }}
+                whileHover={{ scale: 1.02 }}
+                whileTap={{ scale: 0.98 }}
+                className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-all ${
+                  activeTab === "rubric"
+                    ? "liquid-glass bg-orange-500/20 text-orange-400 shadow-[0_0_20px_rgba(251,146,60,0.15)]"
+                    : "text-foreground/50 hover:text-foreground/70 hover:bg-white/5"
+                }`}
+              >
+                <Gauge className="w-4 h-4" />
+                rubric
+              </motion.button>
+              <motion.button
+                onClick={() => {
+                  setActiveTab("audit");
+                  setAuditTarget("");
+                  setSelectedApplicant(null);
+                  setSelectedFeedback(null);
+                  setSearchQuery("");
+                }}
+                whileHover={{ scale: 1.02 }}
+                whileTap={{ scale: 0.98 }}
+                className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-all ${
+                  activeTab === "audit"
+                    ? "liquid-glass bg-orange-500/20 text-orange-400 shadow-[0_0_20px_rgba(251,146,60,0.15)]"
+                    : "text-foreground/50 hover:text-foreground/70 hover:bg-white/5"
+                }`}
+              >
+                <History className="w-4 h-4" />
+                audit
+              </motion.button>
+              {isOwner && (
+                <motion.button
+                  onClick={() => {
+                    setActiveTab("team");
+                    setSelectedApplicant(null);
+                    setSelectedFeedback(null);
+                    setSearchQuery("");
+                  }}
+                  whileHover={{ scale: 1.02 }}
+                  whileTap={{ scale: 0.98 }}
+                  className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-all ${
+                    activeTab === "team"
+                      ? "liquid-glass bg-orange-500/20 text-orange-400 shadow-[0_0_20px_rgba(251,146,60,0.15)]"
+                      : "text-foreground/50 hover:text-foreground/70 hover:bg-white/5"
+                  }`}
+                >
+                  <UserCog className="w-4 h-4" />
+                  team
+                </motion.button>
+              )}
             </div>
           </div>
 
@@ -453,11 +738,24 @@ export default function AdminInterface({
               hey, {adminName.toLowerCase()}
             </span>
 
+            <motion.button
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              onClick={() => setSecurityOpen(true)}
+              className="liquid-glass-pill p-2 rounded-xl text-foreground/50 hover:text-foreground/70"
+              title="two-factor login"
+            >
+              <ShieldCheck className="w-4 h-4" />
+            </motion.button>
+            <AdminSecurity open={securityOpen} onOpenChange={setSecurityOpen} />
+
             <motion.button
               whileHover={{ scale: 1.05 }}
               whileTap={{ scale: 0.95 }}
               onClick={() => setAssistantOpen(!assistantOpen)}
               className={`flex items-center gap-2 px-3 py-2 rounded-xl text-sm font-medium transition-all ${
+                canReview ? "" : "hidden"
+              } ${
                 assistantOpen
                   ? "liquid-glass bg-orange-500/20 text-orange-400 shadow-[0_0_20px_rgba(251,146,60,0.2)]"
                   : "liquid-glass-pill text-foreground/50 hover:text-foreground/70"
@@ -474,6 +772,9 @@ export default function AdminInterface({
               onClick={() => {
                 fetchApplicants();
                 fetchFeedback();
+                fetchQuestions();
+                fetchRubric();
+                if (isOwner) fetchAdmins();
               }}
               className="liquid-glass-pill p-2 rounded-xl text-foreground/50 hover:text-foreground/70"
             >
@@ -494,8 +795,40 @@ export default function AdminInterface({
 
       {/* Main Content */}
       <div className="flex-1 flex overflow-hidden relative z-10">
+        {/* Question manager replaces the list and detail panels */}
+        {activeTab === "questions" && (
+          <AdminQuestions
+            questions={customQuestions}
+            onRefresh={fetchQuestions}
+          />
+        )}
+        {activeTab === "rubric" && (
+          <AdminRubric
+            criteria={rubricCriteria}
+            sourceFields={rubricSourceFields}
+            canEdit={isOwner}
+            onRefresh={fetchRubric}
+          />
+        )}
+        {activeTab === "team" && (
+          <AdminTeam
+            admins={admins}
+            currentAdmin={adminUsername}
+            onRefresh={fetchAdmins}
+          />
+        )}
+        {activeTab === "audit" && (
+          <AdminAudit key={auditTarget} initialTarget={auditTarget} />
+        )}
+
         {/* Left Panel - List */}
-        <div className="w-[400px] border-r border-white/[0.06] flex flex-col liquid-glass-light">
+        <div
+          className={`w-[400px] border-r border-white/[0.06] flex flex-col liquid-glass-light ${
+            ["questions", "rubric", "team", "audit"].includes(activeTab)
+              ? "hidden"
+              : ""
+          }`}
+        >
           {/* Search + Filter */}
           <div className="p-4 space-y-3 border-b border-white/[0.06]">
             <div className="relative">
@@ -535,6 +868,17 @@ export default function AdminInterface({
                     </motion.button>
                   )
                 )}
+                <motion.button
+                  onClick={() =>
+                    setSortBy(sortBy === "newest" ? "score" : "newest")
+                  }
+                  whileHover={{ scale: 1.05 }}
+                  whileTap={{ scale: 0.95 }}
+                  className="ml-auto px-3 py-1.5 rounded-lg text-xs font-medium text-foreground/40 hover:text-foreground/60 hover:bg-white/5"
+                  title="sort order"
+                >
+                  {sortBy === "newest" ? "newest" : "★ top score"}
+                </motion.button>
               </div>
             )}
           </div>
@@ -640,7 +984,19 @@ export default function AdminInterface({
                           <p className="text-xs text-foreground/30 mt-1">
                             {applicant.applicant_data?.engineering_area} •{" "}
                             {applicant.applicant_data?.skill_level}
+                            {applicant.applicant_data?.rubric_score !==
+                              undefined && (
+                              <span className="text-orange-400/80">
+                                {" "}
+                                • ★ {applicant.applicant_data.rubric_score}
+                              </span>
+                            )}
                           </p>
+                          {applicant.applicant_data?.reviewed_by && (
+                            <p className="text-[10px] text-foreground/30 mt-1">
+                              reviewed by {applicant.applicant_data.reviewed_by}
+                            </p>
+                          )}
                         </div>
                         <ChevronRight className="w-4 h-4 text-foreground/20 flex-shrink-0" />
                       </div>
@@ -718,7 +1074,13 @@ export default function AdminInterface({
         </div>
 
         {/* Center Panel - Detail View */}
-        <div className="flex-1 flex flex-col overflow-hidden">
+        <div
+          className={`flex-1 flex flex-col overflow-hidden ${
+            ["questions", "rubric", "team", "audit"].includes(activeTab)
+              ? "hidden"
+              : ""
+          }`}
+        >
           <AnimatePresence mode="wait">
             {selectedApplicant ? (
               <motion.div
@@ -753,7 +1115,11 @@ export default function AdminInterface({
                   {/* Action Buttons */}
                   {selectedApplicant.applicant_data?.application_status ===
                     "pending" && (
-                    <div className="flex items-center gap-3 mt-5">
+                    <div
+                      className={`flex items-center gap-3 mt-5 ${
+                        canReview ? "" : "hidden"
+                      }`}
+                    >
                       <motion.button
                         whileHover={{ scale: 1.02, y: -1 }}
                         whileTap={{ scale: 0.98 }}
@@ -814,10 +1180,54 @@ export default function AdminInterface({
                       </span>
                     </div>
                   )}
+
+                  {canReview &&
+                    lastDecision(selectedApplicant.applicant_data) && (
+                      <motion.button
+                        whileHover={{ scale: 1.02 }}
+                        whileTap={{ scale: 0.98 }}
+                        onClick={() =>
+                          undoLastDecision(selectedApplicant.email)
+                        }
+                        className="inline-flex items-center gap-1.5 mt-4 ml-3 px-3 py-1.5 rounded-lg liquid-glass-pill text-xs text-foreground/50 hover:text-foreground/80 transition-all"
+                      >
+                        <Undo2 className="w-3.5 h-3.5" />
+                        undo last decision
+                      </motion.button>
+                    )}
                 </div>
 
                 {/* Content */}
                 <div className="p-6 space-y-6">
+                  {/* Secret phrase guessing */}
+                  {!!selectedApplicant.security?.failed_phrase_attempts && (
+                    <div className="flex items-start gap-3 p-4 rounded-2xl bg-red-500/10 border border-red-500/20 text-sm">
+                      <ShieldAlert className="w-4 h-4 text-red-400 mt-0.5 shrink-0" />
+                      <div className="text-foreground/70">
+                        <p>
+                          {selectedApplicant.security.failed_phrase_attempts}{" "}
+                          failed secret phrase attempt(s)
+                          {selectedApplicant.security
+                            .last_failed_phrase_attempt &&
+                            `, last on ${new Date(
+                              selectedApplicant.security.last_failed_phrase_attempt
+                            ).toLocaleString()}`}
+                        </p>
+                        {selectedApplicant.security.phrase_locked_until &&
+                          new Date(
+                            selectedApplicant.security.phrase_locked_until
+                          ) > new Date() && (
+                            <p className="text-red-400 text-xs mt-1">
+                              locked until{" "}
+                              {new Date(
+                                selectedApplicant.security.phrase_locked_until
+                              ).toLocaleTimeString()}
+                            </p>
+                          )}
+                      </div>
+                    </div>
+                  )}
+
                   {/* Profile Section */}
                   <section>
                     <h3 className="text-xs font-semibold text-foreground/50 uppercase tracking-wide mb-3">
@@ -830,6 +1240,12 @@ export default function AdminInterface({
                           selectedApplicant.applicant_data?.engineering_area
                         }
                       />
+                      <InfoBlock
+                        label="mobile platform"
+                        value={
+                          selectedApplicant.applicant_data?.mobile_platform
+                        }
+                      />
                       <InfoBlock
                         label="skill level"
                         value={selectedApplicant.applicant_data?.skill_level}
@@ -837,7 +1253,10 @@ export default function AdminInterface({
                       <InfoBlock
                         label="time commitment"
                         value={
-                          selectedApplicant.applicant_data?.time_commitment
+                          selectedApplicant.applicant_data
+                            ?.time_commitment_hours != null
+                            ? `${selectedApplicant.applicant_data.time_commitment} (~${selectedApplicant.applicant_data.time_commitment_hours}h/week)`
+                            : selectedApplicant.applicant_data?.time_commitment
                         }
                       />
                       <InfoBlock
@@ -937,28 +1356,123 @@ export default function AdminInterface({
                     </div>
                   </section>
 
+                  {/* Custom Questions Section */}
+                  {selectedApplicant.applicant_data?.answers &&
+                    Object.keys(selectedApplicant.applicant_data.answers)
+                      .length > 0 && (
+                      <section>
+                        <h3 className="text-xs font-semibold text-foreground/50 uppercase tracking-wide mb-3">
+                          additional questions
+                        </h3>
+                        <div className="space-y-4">
+                          {Object.entries(
+                            selectedApplicant.applicant_data.answers
+                          ).map(([key, answer]) => (
+                            <TextBlock
+                              key={key}
+                              label={
+                                customQuestions.find((q) => q.key === key)
+                                  ?.label || key.replace(/_/g, " ")
+                              }
+                              value={answer}
+                            />
+                          ))}
+                        </div>
+                      </section>
+                    )}
+
+                  <AdminRubricScores
+                    email={selectedApplicant.email}
+                    criteria={activeCriteria}
+                    rubric={selectedApplicant.applicant_data || {}}
+                    currentAdmin={adminUsername}
+                    canReview={canReview}
+                    onSaved={(rubric) =>
+                      updateRubric(selectedApplicant.email, rubric)
+                    }
+                  />
+
                   {/* Notes Section */}
                   <section>
-                    <h3 className="text-xs font-semibold text-orange-400/70 uppercase tracking-wide mb-3">
-                      review notes
+                    <h3 className="text-xs font-semibold text-orange-400/70 uppercase tracking-wide mb-1">
+                      internal notes
                     </h3>
+                    <p className="text-[10px] text-foreground/40 mb-3">
+                      reviewers only - never shown to the applicant
+                    </p>
                     <textarea
-                      value={reviewNotes}
-                      onChange={(e) => setReviewNotes(e.target.value)}
+                      value={internalNotes}
+                      onChange={(e) => setInternalNotes(e.target.value)}
                       placeholder="add your notes here..."
                       className="w-full h-32 p-4 text-sm rounded-2xl liquid-glass-pill border-white/[0.08] resize-none focus:outline-none focus:border-orange-500/30 focus:shadow-[0_0_30px_rgba(251,146,60,0.1)] transition-all"
                     />
+                    <h3 className="text-xs font-semibold text-orange-400/70 uppercase tracking-wide mt-4 mb-1">
+                      feedback for applicant
+                    </h3>
+                    <p className="text-[10px] text-foreground/40 mb-3">
+                      the applicant sees this when they check their status
+                    </p>
+                    <textarea
+                      value={applicantFeedback}
+                      onChange={(e) => setApplicantFeedback(e.target.value)}
+                      placeholder="write it to them..."
+                      className="w-full h-24 p-4 text-sm rounded-2xl liquid-glass-pill border-white/[0.08] resize-none focus:outline-none focus:border-orange-500/30 focus:shadow-[0_0_30px_rgba(251,146,60,0.1)] transition-all"
+                    />
                     <motion.button
                       whileHover={{ scale: 1.02 }}
                       whileTap={{ scale: 0.98 }}
                       onClick={saveReviewNotes}
-                      disabled={savingNotes}
+                      disabled={savingNotes || !canReview}
                       className="mt-3 px-4 py-2.5 rounded-xl bg-orange-500/20 text-orange-400 border border-orange-500/30 text-sm font-medium shadow-[0_0_20px_rgba(251,146,60,0.15)] hover:shadow-[0_0_30px_rgba(251,146,60,0.25)] disabled:opacity-50 transition-all"
                     >
                       {savingNotes ? "saving..." : "save notes"}
                     </motion.button>
                   </section>
 
+                  {/* Status timeline, newest first */}
+                  {!!selectedApplicant.applicant_data?.status_history
+                    ?.length && (
+                    <section>
+                      <h3 className="text-xs font-semibold text-foreground/50 uppercase tracking-wide mb-3">
+                        status history
+                      </h3>
+                      <ol className="relative border-l border-white/10 ml-1.5 space-y-4">
+                        {[...selectedApplicant.applicant_data.status_history]
+                          .reverse()
+                          .map((entry) => (
+                            <li
+                              key={entry.timestamp}
+                              className={`pl-4 text-sm ${
+                                entry.undone_at ? "opacity-40" : ""
+                              }`}
+                            >
+                              <span className="absolute -left-1 mt-1.5 w-2 h-2 rounded-full bg-orange-400/70" />
+                              <p
+                                className={
+                                  entry.undone_at ? "line-through" : ""
+                                }
+                              >
+                                {entry.from} → {entry.to}
+                              </p>
+                              <p className="text-[10px] text-foreground/40">
+                                {entry.actor} •{" "}
+                                {new Date(entry.timestamp).toLocaleString()}
+                                {entry.undone_at &&
+                                  ` • undone by ${entry.undone_by} ${new Date(
+                                    entry.undone_at
+                                  ).toLocaleString()}`}
+                              </p>
+                              {entry.notes && (
+                                <p className="text-xs text-foreground/60 mt-1">
+                                  {entry.notes}
+                                </p>
+                              )}
+                            </li>
+                          ))}
+                      </ol>
+                    </section>
+                  )}
+
                   {/* Metadata */}
                   <section className="pt-4 border-t border-white/5">
                     <div className="text-xs text-foreground/30 space-y-1">
@@ -980,6 +1494,17 @@ export default function AdminInterface({
                             ` by ${selectedApplicant.applicant_data.reviewed_by}`}
                         </p>
                       )}
+                      <button
+                        onClick={() => {
+                          setAuditTarget(selectedApplicant.email);
+                          setActiveTab("audit");
+                          setSelectedApplicant(null);
+                        }}
+                        className="flex items-center gap-1 text-orange-400/70 hover:text-orange-400"
+                      >
+                        <History className="w-3 h-3" />
+                        view history
+                      </button>
                     </div>
                   </section>
                 </div>
@@ -1093,7 +1618,8 @@ export default function AdminInterface({
                         {new Date(selectedFeedback.created_at).toLocaleString()}
                       </p>
                       <p>
-                        session: {selectedFeedback.session_id.slice(0, 16)}...
+                        session: {selectedFeedback.session_id.slice(0, 16)}
+                        ...
                       </p>
                       {selectedFeedback.onboarding_state && (
                         <p>state: {selectedFeedback.onboarding_state}</p>
@@ -1141,7 +1667,6 @@ export default function AdminInterface({
             )}
           </AnimatePresence>
         </div>
-
         {/* Right Panel - Assistant */}
         <AnimatePresence>
           {assistantOpen && (
@@ -1257,6 +1782,23 @@ export default function AdminInterface({
                                 {children}
                               </blockquote>
                             ),
+                            table: ({ children }) => (
+                              <div className="overflow-x-auto my-2">
+                                <table className="w-full text-xs border-collapse">
+                                  {children}
+                                </table>
+                              </div>
+                            ),
+                            th: ({ children }) => (
+                              <th className="text-left font-medium text-foreground/60 px-2 py-1.5 border-b border-white/10 whitespace-nowrap">
+                                {children}
+                              </th>
+                            ),
+                            td: ({ children }) => (
+                              <td className="px-2 py-1.5 border-b border-white/5 tabular-nums">
+                                {children}
+                              </td>
+                            ),
                           }}
                         >
                           {msg.content}
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { motion } from "framer-motion";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -9,7 +9,12 @@ import { Lock, AlertCircle } from "lucide-react";
 import { toast } from "sonner";
 
 interface AdminLoginProps {
-  onLogin: (token: string, username: string) => void;
+  onLogin: (
+    token: string,
+    username: string,
+    displayName: string,
+    role: string
+  ) => void;
 }
 
 const chatEasing: [number, number, number, number] = [0.16, 1, 0.3, 1];
@@ -20,6 +25,65 @@ export default function AdminLogin({ onLogin }: AdminLoginProps) {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState("");
 
+  // Invite / reset links land here as /admin?invite=... or /admin?reset=...
+  const [accountToken, setAccountToken] = useState<string | null>(null);
+  const [accountKind, setAccountKind] = useState<"invite" | "reset">("invite");
+  const [newPassword, setNewPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+
+  // Second login step for admins with two-factor login
+  const [mfaToken, setMfaToken] = useState<string | null>(null);
+  const [mfaCode, setMfaCode] = useState("");
+
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const invite = params.get("invite");
+    const reset = params.get("reset");
+    if (invite || reset) {
+      setAccountToken(invite || reset);
+      setAccountKind(invite ? "invite" : "reset");
+    }
+  }, []);
+
+  async function handleSetPassword(e: React.FormEvent) {
+    e.preventDefault();
+    if (newPassword !== confirmPassword) {
+      setError("passwords don't match");
+      return;
+    }
+
+    setLoading(true);
+    setError("");
+
+    try {
+      const response = await fetch("/api/admin/accounts/password", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token: accountToken, password: newPassword }),
+      });
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        setError((data.error || "couldn't set your password").toLowerCase());
+        return;
+      }
+
+      toast.success("password set. log in to continue");
+      window.history.replaceState(null, "", "/admin");
+      setAccountToken(null);
+      setUsername(data.username || "");
+      setNewPassword("");
+      setConfirmPassword("");
+    } catch (err) {
+      console.error("Set password error:", err);
+      setError(
+        "couldn't set your password. check your connection and try again."
+      );
+    } finally {
+      setLoading(false);
+    }
+  }
+
   async function handleLogin(e: React.FormEvent) {
     e.preventDefault();
     if (!username.trim() || !password.trim()) {
@@ -49,12 +113,13 @@ export default function AdminLogin({ onLogin }: AdminLoginProps) {
         throw new Error("Authentication failed");
       }
 
-      const { token } = await response.json();
+      const data = await response.json();
+      if (data.mfa_required) {
+        setMfaToken(data.mfa_token);
+        return;
+      }
 
-      // Store token
-      localStorage.setItem("admin_token", token);
-      toast.success("logged in successfully");
-      onLogin(token, username);
+      completeLogin(data);
     } catch (err) {
       console.error("Login error:", err);
       setError(
@@ -65,6 +130,63 @@ export default function AdminLogin({ onLogin }: AdminLoginProps) {
     }
   }
 
+  async function handleMfa(e: React.FormEvent) {
+    e.preventDefault();
+    setLoading(true);
+    setError("");
+
+    try {
+      const response = await fetch("/api/admin/review", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ mfa_token: mfaToken, code: mfaCode }),
+      });
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        if (response.status === 429) {
+          setError(
+            `too many attempts. try again in ${data.retry_after_seconds}s.`
+          );
+        } else if (data.error === "Invalid code") {
+          setError("that code didn't work. try the current one.");
+        } else {
+          // The step-one token expired - start over
+          setMfaToken(null);
+          setMfaCode("");
+          setError("that took too long. log in again.");
+        }
+        return;
+      }
+
+      completeLogin(data);
+    } catch (err) {
+      console.error("MFA error:", err);
+      setError(
+        "couldn't verify the code. check your connection and try again."
+      );
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function completeLogin(data: {
+    token: string;
+    username: string;
+    display_name?: string;
+    role: string;
+  }) {
+    // Store token
+    localStorage.setItem("admin_token", data.token);
+    toast.success("logged in successfully");
+    onLogin(
+      data.token,
+      data.username,
+      data.display_name || data.username,
+      data.role
+    );
+  }
+
   return (
     <div className="min-h-screen bg-background flex items-center justify-center px-4 relative overflow-hidden">
       {/* Animated gradient mesh background */}
@@ -112,13 +234,124 @@ export default function AdminLogin({ onLogin }: AdminLoginProps) {
           </div>
 
           <div className="text-center mb-8">
-            <h1 className="text-2xl font-bold">admin access</h1>
+            <h1 className="text-2xl font-bold">
+              {accountToken
+                ? "set your password"
+                : mfaToken
+                ? "two-factor login"
+                : "admin access"}
+            </h1>
             <p className="text-muted-foreground text-sm mt-2">
-              welcome back. let's review some applications.
+              {accountToken
+                ? accountKind === "invite"
+                  ? "you've been invited. pick a password to get started."
+                  : "pick a new password for your account."
+                : mfaToken
+                ? "enter the code from your authenticator app, or a recovery code."
+                : "welcome back. let's review some applications."}
             </p>
           </div>
 
-          <form onSubmit={handleLogin} className="space-y-6">
+          {accountToken && (
+            <form onSubmit={handleSetPassword} className="space-y-6">
+              <div className="space-y-2">
+                <label className="text-sm font-medium">new password</label>
+                <Input
+                  type="password"
+                  placeholder="at least 10 characters"
+                  value={newPassword}
+                  onChange={(e) => {
+                    setNewPassword(e.target.value);
+                    setError("");
+                  }}
+                  disabled={loading}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-sm font-medium">confirm password</label>
+                <Input
+                  type="password"
+                  placeholder="type it again"
+                  value={confirmPassword}
+                  onChange={(e) => {
+                    setConfirmPassword(e.target.value);
+                    setError("");
+                  }}
+                  disabled={loading}
+                />
+              </div>
+
+              {error && (
+                <div className="flex items-start gap-3 p-4 bg-red-50 border border-red-200 rounded-lg">
+                  <AlertCircle className="w-5 h-5 text-red-600 mt-0.5 flex-shrink-0" />
+                  <p className="text-sm text-red-700">{error}</p>
+                </div>
+              )}
+
+              <Button
+                type="submit"
+                disabled={loading || newPassword.length < 10}
+                className="w-full"
+                size="lg"
+              >
+                {loading ? "saving..." : "set password"}
+              </Button>
+            </form>
+          )}
+
+          {mfaToken && !accountToken && (
+            <form onSubmit={handleMfa} className="space-y-6">
+              <div className="space-y-2">
+                <label className="text-sm font-medium">code</label>
+                <Input
+                  placeholder="123456"
+                  value={mfaCode}
+                  onChange={(e) => {
+                    setMfaCode(e.target.value);
+                    setError("");
+                  }}
+                  disabled={loading}
+                  autoComplete="one-time-code"
+                  inputMode="numeric"
+                  autoFocus
+                />
+              </div>
+
+              {error && (
+                <div className="flex items-start gap-3 p-4 bg-red-50 border border-red-200 rounded-lg">
+                  <AlertCircle className="w-5 h-5 text-red-600 mt-0.5 flex-shrink-0" />
+                  <p className="text-sm text-red-700">{error}</p>
+                </div>
+              )}
+
+              <Button
+                type="submit"
+                disabled={loading || !mfaCode.trim()}
+                className="w-full"
+                size="lg"
+              >
+                {loading ? "verifying..." : "verify"}
+              </Button>
+
+              <button
+                type="button"
+                onClick={() => {
+                  setMfaToken(null);
+                  setMfaCode("");
+                  setError("");
+                }}
+                className="w-full text-center text-xs text-muted-foreground hover:underline"
+              >
+                back to login
+              </button>
+            </form>
+          )}
+
+          <form
+            onSubmit={handleLogin}
+            className={`space-y-6 ${accountToken || mfaToken ? "hidden" : ""}`}
+          >
             {/* Username */}
             <div className="space-y-2">
               <label className="text-sm font-medium">username</label>
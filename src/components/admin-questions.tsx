@@ -0,0 +1,328 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { motion } from "framer-motion";
+import { Input } from "@/components/ui/input";
+import {
+  ArrowDown,
+  ArrowUp,
+  Eye,
+  EyeOff,
+  ListChecks,
+  Plus,
+  Trash2,
+} from "lucide-react";
+import { toast } from "sonner";
+
+export interface CustomQuestion {
+  _id: string;
+  key: string;
+  label: string;
+  prompt: string;
+  required: boolean;
+  suggestions: string[];
+  order: number;
+  active: boolean;
+}
+
+interface AdminQuestionsProps {
+  questions: CustomQuestion[];
+  onRefresh: () => void;
+}
+
+const emptyForm = {
+  label: "",
+  prompt: "",
+  suggestions: "",
+  required: false,
+};
+
+// Manage the admin-defined questions asked after the built-in onboarding steps
+export default function AdminQuestions({
+  questions,
+  onRefresh,
+}: AdminQuestionsProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+
+  const selected = questions.find((q) => q._id === selectedId) || null;
+
+  // Load the selected question into the form
+  useEffect(() => {
+    setForm(
+      selected
+        ? {
+            label: selected.label,
+            prompt: selected.prompt,
+            suggestions: selected.suggestions.join(", "),
+            required: selected.required,
+          }
+        : emptyForm
+    );
+  }, [selected]);
+
+  async function request(method: string, body?: unknown, query = "") {
+    const token = localStorage.getItem("admin_token");
+    const response = await fetch(`/api/admin/questions${query}`, {
+      method,
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${token}`,
+      },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) throw new Error(data.error || `HTTP ${response.status}`);
+    return data;
+  }
+
+  async function saveQuestion() {
+    if (!form.label.trim() || !form.prompt.trim()) {
+      toast.error("label and question are required");
+      return;
+    }
+
+    const payload = {
+      label: form.label,
+      prompt: form.prompt,
+      required: form.required,
+      suggestions: form.suggestions.split(","),
+    };
+
+    try {
+      setSaving(true);
+      if (selected) {
+        await request("PATCH", { id: selected._id, ...payload });
+        toast.success("question updated");
+      } else {
+        const data = await request("POST", payload);
+        setSelectedId(data.question?._id || null);
+        toast.success("question added");
+      }
+      onRefresh();
+    } catch (error) {
+      console.error("Error saving question:", error);
+      toast.error(
+        error instanceof Error ? error.message : "failed to save question"
+      );
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function toggleActive(question: CustomQuestion) {
+    try {
+      await request("PATCH", { id: question._id, active: !question.active });
+      onRefresh();
+    } catch (error) {
+      console.error("Error toggling question:", error);
+      toast.error("failed to update question");
+    }
+  }
+
+  async function deleteQuestion(question: CustomQuestion) {
+    if (!confirm(`delete "${question.label}"? existing answers are kept.`)) {
+      return;
+    }
+    try {
+      await request("DELETE", undefined, `?id=${question._id}`);
+      if (selectedId === question._id) setSelectedId(null);
+      toast.success("question deleted");
+      onRefresh();
+    } catch (error) {
+      console.error("Error deleting question:", error);
+      toast.error("failed to delete question");
+    }
+  }
+
+  async function move(index: number, direction: -1 | 1) {
+    const target = index + direction;
+    if (target < 0 || target >= questions.length) return;
+
+    const order = questions.map((q) => q._id);
+    [order[index], order[target]] = [order[target], order[index]];
+
+    try {
+      await request("PATCH", { order });
+      onRefresh();
+    } catch (error) {
+      console.error("Error reordering questions:", error);
+      toast.error("failed to reorder questions");
+    }
+  }
+
+  return (
+    <>
+      {/* Left Panel - Question List */}
+      <div className="w-[400px] border-r border-white/[0.06] flex flex-col liquid-glass-light">
+        <div className="p-4 border-b border-white/[0.06] flex items-center justify-between">
+          <p className="text-xs text-foreground/40">
+            asked after the built-in questions, in this order
+          </p>
+          <motion.button
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+            onClick={() => setSelectedId(null)}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium liquid-glass-pill text-orange-400"
+          >
+            <Plus className="w-3.5 h-3.5" />
+            new
+          </motion.button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          {questions.length === 0 ? (
+            <div className="flex items-center justify-center h-full">
+              <div className="text-center">
+                <ListChecks className="w-10 h-10 text-foreground/10 mx-auto mb-2" />
+                <p className="text-sm text-foreground/40">
+                  no custom questions yet
+                </p>
+              </div>
+            </div>
+          ) : (
+            <div className="p-3 space-y-2">
+              {questions.map((question, index) => (
+                <div
+                  key={question._id}
+                  onClick={() => setSelectedId(question._id)}
+                  className={`w-full text-left p-4 rounded-2xl cursor-pointer transition-all ${
+                    selectedId === question._id
+                      ? "liquid-glass bg-orange-500/10 border border-orange-500/20"
+                      : "liquid-glass-pill hover:bg-white/[0.08] border border-transparent"
+                  } ${question.active ? "" : "opacity-50"}`}
+                >
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0 flex-1">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium text-sm truncate">
+                          {question.label}
+                        </span>
+                        {question.required && (
+                          <span className="text-[10px] px-1.5 py-0.5 rounded bg-orange-500/10 text-orange-400">
+                            required
+                          </span>
+                        )}
+                      </div>
+                      <p className="text-xs text-foreground/40 line-clamp-2 mt-1">
+                        {question.prompt}
+                      </p>
+                      <p className="text-[10px] text-foreground/30 mt-1.5">
+                        {question.key}
+                      </p>
+                    </div>
+                    <div
+                      className="flex flex-col items-center gap-1 text-foreground/40"
+                      onClick={(e) => e.stopPropagation()}
+                    >
+                      <button
+                        onClick={() => move(index, -1)}
+                        className="hover:text-foreground/70"
+                        title="move up"
+                      >
+                        <ArrowUp className="w-3.5 h-3.5" />
+                      </button>
+                      <button
+                        onClick={() => move(index, 1)}
+                        className="hover:text-foreground/70"
+                        title="move down"
+                      >
+                        <ArrowDown className="w-3.5 h-3.5" />
+                      </button>
+                      <button
+                        onClick={() => toggleActive(question)}
+                        className="hover:text-foreground/70"
+                        title={question.active ? "hide" : "show"}
+                      >
+                        {question.active ? (
+                          <Eye className="w-3.5 h-3.5" />
+                        ) : (
+                          <EyeOff className="w-3.5 h-3.5" />
+                        )}
+                      </button>
+                      <button
+                        onClick={() => deleteQuestion(question)}
+                        className="hover:text-red-400"
+                        title="delete"
+                      >
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Center Panel - Editor */}
+      <div className="flex-1 overflow-y-auto p-6 space-y-5">
+        <h2 className="text-xl font-semibold bg-gradient-to-r from-foreground to-foreground/70 bg-clip-text text-transparent">
+          {selected ? "edit question" : "new question"}
+        </h2>
+
+        <div className="space-y-2">
+          <label className="text-xs font-semibold text-foreground/50 uppercase tracking-wide">
+            label
+          </label>
+          <Input
+            value={form.label}
+            onChange={(e) => setForm({ ...form, label: e.target.value })}
+            placeholder="has laptop"
+            className="liquid-glass-pill border-white/[0.08] text-sm"
+          />
+          {selected && (
+            <p className="text-[10px] text-foreground/30">
+              key: {selected.key} (fixed so existing answers stay linked)
+            </p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <label className="text-xs font-semibold text-foreground/50 uppercase tracking-wide">
+            question
+          </label>
+          <textarea
+            value={form.prompt}
+            onChange={(e) => setForm({ ...form, prompt: e.target.value })}
+            placeholder="do you have a laptop you can code on?"
+            className="w-full h-24 p-4 text-sm rounded-2xl liquid-glass-pill border-white/[0.08] resize-none focus:outline-none focus:border-orange-500/30 transition-all"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <label className="text-xs font-semibold text-foreground/50 uppercase tracking-wide">
+            suggestions (comma-separated)
+          </label>
+          <Input
+            value={form.suggestions}
+            onChange={(e) => setForm({ ...form, suggestions: e.target.value })}
+            placeholder="yes, no, sharing one"
+            className="liquid-glass-pill border-white/[0.08] text-sm"
+          />
+        </div>
+
+        <label className="flex items-center gap-2 text-sm text-foreground/70">
+          <input
+            type="checkbox"
+            checked={form.required}
+            onChange={(e) => setForm({ ...form, required: e.target.checked })}
+          />
+          required before submitting
+        </label>
+
+        <motion.button
+          whileHover={{ scale: 1.02 }}
+          whileTap={{ scale: 0.98 }}
+          onClick={saveQuestion}
+          disabled={saving}
+          className="px-4 py-2.5 rounded-xl bg-orange-500/20 text-orange-400 border border-orange-500/30 text-sm font-medium shadow-[0_0_20px_rgba(251,146,60,0.15)] hover:shadow-[0_0_30px_rgba(251,146,60,0.25)] disabled:opacity-50 transition-all"
+        >
+          {saving ? "saving..." : selected ? "save changes" : "add question"}
+        </motion.button>
+      </div>
+    </>
+  );
+}
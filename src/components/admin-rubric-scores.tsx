@@ -0,0 +1,273 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { motion } from "framer-motion";
+import { Sparkles } from "lucide-react";
+import { toast } from "sonner";
+import type { RubricCriterionItem } from "@/components/admin-rubric";
+
+export interface RubricScorecard {
+  reviewer: string;
+  scores: { criterion: string; score: number; note?: string }[];
+  from_proposal: boolean;
+  scored_at: string;
+}
+
+export interface RubricProposal {
+  requested_by: string;
+  scores: {
+    criterion: string;
+    score: number;
+    quote: string;
+    source_field: string;
+    justification: string;
+  }[];
+  created_at: string;
+}
+
+export interface RubricState {
+  rubric_scores?: RubricScorecard[];
+  rubric_score?: number;
+  rubric_proposal?: RubricProposal;
+}
+
+interface AdminRubricScoresProps {
+  email: string;
+  criteria: RubricCriterionItem[]; // Active criteria, in order
+  rubric: RubricState;
+  currentAdmin: string;
+  canReview: boolean;
+  onSaved: (rubric: RubricState) => void;
+}
+
+type Draft = Record<string, { score?: number; note: string }>;
+
+// This reviewer's scorecard as an editable draft
+const draftFrom = (
+  criteria: RubricCriterionItem[],
+  card?: RubricScorecard
+): Draft =>
+  Object.fromEntries(
+    criteria.map((c) => {
+      const saved = card?.scores.find((s) => s.criterion === c.key);
+      return [c.key, { score: saved?.score, note: saved?.note || "" }];
+    })
+  );
+
+// Score an applicant against the rubric, starting from the assistant's
+// proposal if there is one
+export default function AdminRubricScores({
+  email,
+  criteria,
+  rubric,
+  currentAdmin,
+  canReview,
+  onSaved,
+}: AdminRubricScoresProps) {
+  const scorecards = rubric.rubric_scores || [];
+  const mine = scorecards.find((card) => card.reviewer === currentAdmin);
+  const others = scorecards.filter((card) => card.reviewer !== currentAdmin);
+  const proposal = rubric.rubric_proposal;
+
+  const [draft, setDraft] = useState<Draft>(() => draftFrom(criteria, mine));
+  const [fromProposal, setFromProposal] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  // Reset when switching applicants, after a save or when criteria change
+  const criteriaKeys = criteria.map((c) => c.key).join(",");
+  useEffect(() => {
+    setDraft(draftFrom(criteria, mine));
+    setFromProposal(false);
+  }, [email, mine?.scored_at, criteriaKeys]);
+
+  const labelFor = (key: string) =>
+    criteria.find((c) => c.key === key)?.label || key.replace(/_/g, " ");
+
+  function applyProposal() {
+    if (!proposal) return;
+    setDraft((prev) => {
+      const next = { ...prev };
+      for (const p of proposal.scores) {
+        if (next[p.criterion]) {
+          next[p.criterion] = { score: p.score, note: p.justification };
+        }
+      }
+      return next;
+    });
+    setFromProposal(true);
+  }
+
+  async function saveScores() {
+    const scores = Object.entries(draft)
+      .filter(([, entry]) => entry.score !== undefined)
+      .map(([criterion, entry]) => ({
+        criterion,
+        score: entry.score!,
+        note: entry.note.trim() || undefined,
+      }));
+
+    try {
+      setSaving(true);
+      const token = localStorage.getItem("admin_token");
+      const response = await fetch("/api/admin/review/scores", {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ email, scores, from_proposal: fromProposal }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) throw new Error(data.error || "Save failed");
+
+      toast.success(scores.length ? "scores saved" : "scores cleared");
+      onSaved(data.rubric);
+    } catch (error) {
+      console.error("Error saving scores:", error);
+      toast.error(
+        error instanceof Error ? error.message : "failed to save scores"
+      );
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <section>
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-xs font-semibold text-orange-400/70 uppercase tracking-wide">
+          rubric
+        </h3>
+        {rubric.rubric_score !== undefined && (
+          <span className="text-xs text-foreground/50">
+            aggregate{" "}
+            <span className="text-orange-400 font-medium">
+              ★ {rubric.rubric_score}
+            </span>{" "}
+            from {scorecards.length} reviewer(s)
+          </span>
+        )}
+      </div>
+
+      {/* Assistant proposal */}
+      {proposal && canReview && (
+        <div className="mb-4 p-4 rounded-2xl bg-orange-500/5 border border-orange-500/20 space-y-2">
+          <div className="flex items-center justify-between gap-2">
+            <p className="flex items-center gap-1.5 text-xs text-foreground/60">
+              <Sparkles className="w-3.5 h-3.5 text-orange-400" />
+              assistant proposal for {proposal.requested_by}
+            </p>
+            <button
+              onClick={applyProposal}
+              className="text-xs text-orange-400 hover:text-orange-300"
+            >
+              {fromProposal ? "applied - adjust below" : "use these scores"}
+            </button>
+          </div>
+          {proposal.scores.map((p) => (
+            <div key={p.criterion} className="text-xs">
+              <p>
+                <span className="text-foreground/70">
+                  {labelFor(p.criterion)}
+                </span>{" "}
+                <span className="text-orange-400">{p.score}/5</span>{" "}
+                <span className="text-foreground/50">- {p.justification}</span>
+              </p>
+              <p className="text-foreground/40 italic mt-0.5">
+                &ldquo;{p.quote}&rdquo; ({p.source_field.replace(/_/g, " ")})
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* This reviewer's scores */}
+      <div className="space-y-3">
+        {criteria.map((criterion) => (
+          <div key={criterion.key}>
+            <div className="flex items-center justify-between gap-3">
+              <div className="min-w-0">
+                <p className="text-sm">{criterion.label}</p>
+                {criterion.description && (
+                  <p className="text-[10px] text-foreground/40">
+                    {criterion.description}
+                  </p>
+                )}
+              </div>
+              <div className="flex items-center gap-1 shrink-0">
+                {[1, 2, 3, 4, 5].map((value) => (
+                  <button
+                    key={value}
+                    disabled={!canReview}
+                    onClick={() =>
+                      setDraft({
+                        ...draft,
+                        [criterion.key]: {
+                          ...draft[criterion.key],
+                          score:
+                            draft[criterion.key]?.score === value
+                              ? undefined
+                              : value,
+                        },
+                      })
+                    }
+                    className={`w-7 h-7 rounded-lg text-xs font-medium transition-all disabled:opacity-50 ${
+                      draft[criterion.key]?.score === value
+                        ? "bg-orange-500/20 text-orange-400 border border-orange-500/30"
+                        : "liquid-glass-pill text-foreground/50 hover:text-foreground/80"
+                    }`}
+                  >
+                    {value}
+                  </button>
+                ))}
+              </div>
+            </div>
+            {draft[criterion.key]?.score !== undefined && (
+              <input
+                value={draft[criterion.key].note}
+                onChange={(e) =>
+                  setDraft({
+                    ...draft,
+                    [criterion.key]: {
+                      ...draft[criterion.key],
+                      note: e.target.value,
+                    },
+                  })
+                }
+                disabled={!canReview}
+                placeholder="why (optional)"
+                className="mt-2 w-full px-3 py-1.5 text-xs rounded-lg liquid-glass-pill border border-white/[0.08] bg-transparent focus:outline-none focus:border-orange-500/30"
+              />
+            )}
+          </div>
+        ))}
+      </div>
+
+      {canReview && (
+        <motion.button
+          whileHover={{ scale: 1.02 }}
+          whileTap={{ scale: 0.98 }}
+          onClick={saveScores}
+          disabled={saving}
+          className="mt-3 px-4 py-2.5 rounded-xl bg-orange-500/20 text-orange-400 border border-orange-500/30 text-sm font-medium shadow-[0_0_20px_rgba(251,146,60,0.15)] hover:shadow-[0_0_30px_rgba(251,146,60,0.25)] disabled:opacity-50 transition-all"
+        >
+          {saving ? "saving..." : mine ? "update my scores" : "save my scores"}
+        </motion.button>
+      )}
+
+      {/* Other reviewers */}
+      {others.length > 0 && (
+        <div className="mt-4 space-y-1 text-xs text-foreground/50">
+          {others.map((card) => (
+            <p key={card.reviewer}>
+              <span className="text-foreground/70">{card.reviewer}</span>:{" "}
+              {card.scores
+                .map((s) => `${labelFor(s.criterion)} ${s.score}`)
+                .join(", ")}
+            </p>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,308 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { motion } from "framer-motion";
+import { Input } from "@/components/ui/input";
+import { ArrowDown, ArrowUp, Eye, EyeOff, Gauge, Plus } from "lucide-react";
+import { toast } from "sonner";
+
+export interface RubricCriterionItem {
+  _id: string;
+  key: string;
+  label: string;
+  description: string;
+  source_fields: string[];
+  order: number;
+  active: boolean;
+}
+
+interface AdminRubricProps {
+  criteria: RubricCriterionItem[];
+  sourceFields: string[]; // Applicant fields a criterion can be judged from
+  canEdit: boolean;
+  onRefresh: () => void;
+}
+
+const emptyForm = {
+  label: "",
+  description: "",
+  source_fields: [] as string[],
+};
+
+// Manage the criteria reviewers score applicants on
+export default function AdminRubric({
+  criteria,
+  sourceFields,
+  canEdit,
+  onRefresh,
+}: AdminRubricProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+
+  const selected = criteria.find((c) => c._id === selectedId) || null;
+
+  // Load the selected criterion into the form
+  useEffect(() => {
+    setForm(
+      selected
+        ? {
+            label: selected.label,
+            description: selected.description,
+            source_fields: selected.source_fields,
+          }
+        : emptyForm
+    );
+  }, [selected]);
+
+  async function request(method: string, body: unknown) {
+    const token = localStorage.getItem("admin_token");
+    const response = await fetch("/api/admin/rubric", {
+      method,
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${token}`,
+      },
+      body: JSON.stringify(body),
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) throw new Error(data.error || `HTTP ${response.status}`);
+    return data;
+  }
+
+  async function saveCriterion() {
+    if (!form.label.trim()) {
+      toast.error("label is required");
+      return;
+    }
+
+    try {
+      setSaving(true);
+      if (selected) {
+        await request("PATCH", { id: selected._id, ...form });
+        toast.success("criterion updated");
+      } else {
+        const data = await request("POST", form);
+        setSelectedId(data.criterion?._id || null);
+        toast.success("criterion added");
+      }
+      onRefresh();
+    } catch (error) {
+      console.error("Error saving criterion:", error);
+      toast.error(
+        error instanceof Error ? error.message : "failed to save criterion"
+      );
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function toggleActive(criterion: RubricCriterionItem) {
+    try {
+      await request("PATCH", { id: criterion._id, active: !criterion.active });
+      onRefresh();
+    } catch (error) {
+      console.error("Error toggling criterion:", error);
+      toast.error("failed to update criterion");
+    }
+  }
+
+  async function move(index: number, direction: -1 | 1) {
+    const target = index + direction;
+    if (target < 0 || target >= criteria.length) return;
+
+    const order = criteria.map((c) => c._id);
+    [order[index], order[target]] = [order[target], order[index]];
+
+    try {
+      await request("PATCH", { order });
+      onRefresh();
+    } catch (error) {
+      console.error("Error reordering criteria:", error);
+      toast.error("failed to reorder criteria");
+    }
+  }
+
+  function toggleSourceField(field: string) {
+    setForm({
+      ...form,
+      source_fields: form.source_fields.includes(field)
+        ? form.source_fields.filter((f) => f !== field)
+        : [...form.source_fields, field],
+    });
+  }
+
+  return (
+    <>
+      {/* Left Panel - Criteria List */}
+      <div className="w-[400px] border-r border-white/[0.06] flex flex-col liquid-glass-light">
+        <div className="p-4 border-b border-white/[0.06] flex items-center justify-between">
+          <p className="text-xs text-foreground/40">
+            each scored 1-5 per reviewer, in this order
+          </p>
+          {canEdit && (
+            <motion.button
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              onClick={() => setSelectedId(null)}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium liquid-glass-pill text-orange-400"
+            >
+              <Plus className="w-3.5 h-3.5" />
+              new
+            </motion.button>
+          )}
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          {criteria.length === 0 ? (
+            <div className="flex items-center justify-center h-full">
+              <div className="text-center">
+                <Gauge className="w-10 h-10 text-foreground/10 mx-auto mb-2" />
+                <p className="text-sm text-foreground/40">no criteria yet</p>
+              </div>
+            </div>
+          ) : (
+            <div className="p-3 space-y-2">
+              {criteria.map((criterion, index) => (
+                <div
+                  key={criterion._id}
+                  onClick={() => setSelectedId(criterion._id)}
+                  className={`w-full text-left p-4 rounded-2xl cursor-pointer transition-all ${
+                    selectedId === criterion._id
+                      ? "liquid-glass bg-orange-500/10 border border-orange-500/20"
+                      : "liquid-glass-pill hover:bg-white/[0.08] border border-transparent"
+                  } ${criterion.active ? "" : "opacity-50"}`}
+                >
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0 flex-1">
+                      <span className="font-medium text-sm truncate">
+                        {criterion.label}
+                      </span>
+                      <p className="text-xs text-foreground/40 line-clamp-2 mt-1">
+                        {criterion.description}
+                      </p>
+                      <p className="text-[10px] text-foreground/30 mt-1.5">
+                        {criterion.key}
+                        {criterion.source_fields.length > 0 &&
+                          ` • from ${criterion.source_fields.join(", ")}`}
+                      </p>
+                    </div>
+                    {canEdit && (
+                      <div
+                        className="flex flex-col items-center gap-1 text-foreground/40"
+                        onClick={(e) => e.stopPropagation()}
+                      >
+                        <button
+                          onClick={() => move(index, -1)}
+                          className="hover:text-foreground/70"
+                          title="move up"
+                        >
+                          <ArrowUp className="w-3.5 h-3.5" />
+                        </button>
+                        <button
+                          onClick={() => move(index, 1)}
+                          className="hover:text-foreground/70"
+                          title="move down"
+                        >
+                          <ArrowDown className="w-3.5 h-3.5" />
+                        </button>
+                        <button
+                          onClick={() => toggleActive(criterion)}
+                          className="hover:text-foreground/70"
+                          title={criterion.active ? "stop scoring" : "score"}
+                        >
+                          {criterion.active ? (
+                            <Eye className="w-3.5 h-3.5" />
+                          ) : (
+                            <EyeOff className="w-3.5 h-3.5" />
+                          )}
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Center Panel - Editor */}
+      <div className="flex-1 overflow-y-auto p-6 space-y-5">
+        <h2 className="text-xl font-semibold bg-gradient-to-r from-foreground to-foreground/70 bg-clip-text text-transparent">
+          {selected ? "edit criterion" : "new criterion"}
+        </h2>
+        {!canEdit && (
+          <p className="text-xs text-foreground/40">
+            only owners can change the rubric
+          </p>
+        )}
+
+        <div className="space-y-2">
+          <label className="text-xs font-semibold text-foreground/50 uppercase tracking-wide">
+            label
+          </label>
+          <Input
+            value={form.label}
+            onChange={(e) => setForm({ ...form, label: e.target.value })}
+            disabled={!canEdit}
+            placeholder="communication"
+            className="liquid-glass-pill border-white/[0.08] text-sm"
+          />
+          {selected && (
+            <p className="text-[10px] text-foreground/30">
+              key: {selected.key} (fixed so existing scores stay linked)
+            </p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <label className="text-xs font-semibold text-foreground/50 uppercase tracking-wide">
+            what a 1 and a 5 look like
+          </label>
+          <textarea
+            value={form.description}
+            onChange={(e) => setForm({ ...form, description: e.target.value })}
+            disabled={!canEdit}
+            placeholder="1: one-word answers. 5: clear, specific and easy to follow."
+            className="w-full h-24 p-4 text-sm rounded-2xl liquid-glass-pill border-white/[0.08] resize-none focus:outline-none focus:border-orange-500/30 transition-all"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <label className="text-xs font-semibold text-foreground/50 uppercase tracking-wide">
+            judged from
+          </label>
+          <div className="flex flex-wrap gap-2">
+            {sourceFields.map((field) => (
+              <button
+                key={field}
+                onClick={() => toggleSourceField(field)}
+                disabled={!canEdit}
+                className={`px-2.5 py-1 rounded-lg text-xs transition-all ${
+                  form.source_fields.includes(field)
+                    ? "bg-orange-500/20 text-orange-400 border border-orange-500/30"
+                    : "liquid-glass-pill text-foreground/50 hover:text-foreground/80"
+                }`}
+              >
+                {field.replace(/_/g, " ")}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {canEdit && (
+          <motion.button
+            whileHover={{ scale: 1.02 }}
+            whileTap={{ scale: 0.98 }}
+            onClick={saveCriterion}
+            disabled={saving}
+            className="px-4 py-2.5 rounded-xl bg-orange-500/20 text-orange-400 border border-orange-500/30 text-sm font-medium shadow-[0_0_20px_rgba(251,146,60,0.15)] hover:shadow-[0_0_30px_rgba(251,146,60,0.25)] disabled:opacity-50 transition-all"
+          >
+            {saving ? "saving..." : selected ? "save changes" : "add criterion"}
+          </motion.button>
+        )}
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,209 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Copy, ShieldCheck } from "lucide-react";
+import { toast } from "sonner";
+
+interface AdminSecurityProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Two-factor login settings for the logged-in admin
+export default function AdminSecurity({
+  open,
+  onOpenChange,
+}: AdminSecurityProps) {
+  const [enabled, setEnabled] = useState(false);
+  const [recoveryRemaining, setRecoveryRemaining] = useState(0);
+  const [enrollment, setEnrollment] = useState<{
+    secret: string;
+    uri: string;
+  } | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  async function request(method: string, body?: unknown) {
+    const token = localStorage.getItem("admin_token");
+    const response = await fetch("/api/admin/accounts/totp", {
+      method,
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${token}`,
+      },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) throw new Error(data.error || `HTTP ${response.status}`);
+    return data;
+  }
+
+  // Reload status each time the dialog opens, dropping anything half-done
+  useEffect(() => {
+    if (!open) return;
+    setEnrollment(null);
+    setRecoveryCodes(null);
+    setCode("");
+    request("GET")
+      .then((data) => {
+        setEnabled(data.enabled);
+        setRecoveryRemaining(data.recovery_codes_remaining);
+      })
+      .catch((error) => console.error("Error loading 2fa status:", error));
+  }, [open]);
+
+  async function run(action: () => Promise<void>) {
+    try {
+      setBusy(true);
+      await action();
+    } catch (error) {
+      console.error("2fa error:", error);
+      toast.error(error instanceof Error ? error.message : "something broke");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const start = () =>
+    run(async () => {
+      setEnrollment(await request("POST", { action: "start" }));
+    });
+
+  const confirm = () =>
+    run(async () => {
+      const data = await request("POST", { action: "confirm", code });
+      setEnabled(true);
+      setEnrollment(null);
+      setRecoveryCodes(data.recovery_codes);
+      setRecoveryRemaining(data.recovery_codes.length);
+      setCode("");
+      toast.success("two-factor login is on");
+    });
+
+  const turnOff = () =>
+    run(async () => {
+      await request("DELETE", { code });
+      setEnabled(false);
+      setCode("");
+      toast.success("two-factor login is off");
+    });
+
+  const copy = (text: string) => {
+    navigator.clipboard.writeText(text);
+    toast.success("copied");
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="liquid-glass border-white/10">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ShieldCheck className="w-5 h-5 text-orange-400" />
+            two-factor login
+          </DialogTitle>
+          <DialogDescription>
+            {enabled
+              ? `on. ${recoveryRemaining} recovery code(s) left.`
+              : "ask for a code from an authenticator app after your password."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {recoveryCodes ? (
+          <div className="space-y-3">
+            <p className="text-sm text-foreground/70">
+              save these recovery codes somewhere safe. each one works once if
+              you lose your phone. they won&apos;t be shown again.
+            </p>
+            <div className="grid grid-cols-2 gap-2 p-4 rounded-2xl liquid-glass-pill font-mono text-sm">
+              {recoveryCodes.map((c) => (
+                <span key={c}>{c}</span>
+              ))}
+            </div>
+            <button
+              onClick={() => copy(recoveryCodes.join("\n"))}
+              className="flex items-center gap-2 text-xs text-foreground/50 hover:text-foreground/70"
+            >
+              <Copy className="w-3.5 h-3.5" />
+              copy all
+            </button>
+          </div>
+        ) : enrollment ? (
+          <div className="space-y-3">
+            <p className="text-sm text-foreground/70">
+              add this to your authenticator app - open the link on your phone,
+              turn it into a qr code, or type the key in by hand.
+            </p>
+            <div className="p-3 rounded-2xl liquid-glass-pill space-y-2">
+              <div className="flex items-center gap-2">
+                <code className="flex-1 text-xs break-all">
+                  {enrollment.secret}
+                </code>
+                <button
+                  onClick={() => copy(enrollment.secret)}
+                  className="text-foreground/40 hover:text-foreground/70"
+                  title="copy key"
+                >
+                  <Copy className="w-4 h-4" />
+                </button>
+              </div>
+              <a
+                href={enrollment.uri}
+                className="block text-[10px] text-foreground/40 break-all hover:underline"
+              >
+                {enrollment.uri}
+              </a>
+            </div>
+            <Input
+              placeholder="code from the app"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              className="liquid-glass-pill border-white/[0.08] text-sm"
+            />
+            <button
+              onClick={confirm}
+              disabled={busy || !code.trim()}
+              className="px-4 py-2.5 rounded-xl bg-orange-500/20 text-orange-400 border border-orange-500/30 text-sm font-medium disabled:opacity-50"
+            >
+              {busy ? "checking..." : "turn on"}
+            </button>
+          </div>
+        ) : enabled ? (
+          <div className="space-y-3">
+            <Input
+              placeholder="current code or recovery code"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              className="liquid-glass-pill border-white/[0.08] text-sm"
+            />
+            <button
+              onClick={turnOff}
+              disabled={busy || !code.trim()}
+              className="px-4 py-2.5 rounded-xl liquid-glass-pill text-red-400 text-sm font-medium disabled:opacity-50"
+            >
+              {busy ? "checking..." : "turn off"}
+            </button>
+          </div>
+        ) : (
+          <button
+            onClick={start}
+            disabled={busy}
+            className="px-4 py-2.5 rounded-xl bg-orange-500/20 text-orange-400 border border-orange-500/30 text-sm font-medium disabled:opacity-50"
+          >
+            {busy ? "setting up..." : "set up two-factor login"}
+          </button>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,417 @@
+"use client";
+
+import { useState } from "react";
+import { motion } from "framer-motion";
+import { Input } from "@/components/ui/input";
+import { Copy, KeyRound, Plus, ShieldOff, UserCog, Users } from "lucide-react";
+import { toast } from "sonner";
+
+export interface AdminAccount {
+  username: string;
+  display_name: string;
+  email?: string;
+  role: "owner" | "reviewer" | "read_only";
+  status: "invited" | "active" | "disabled";
+  invited_by?: string;
+  totp_enabled?: boolean;
+  invite_expires_at?: string;
+  last_login_at?: string;
+  created_at: string;
+}
+
+interface AdminTeamProps {
+  admins: AdminAccount[];
+  currentAdmin: string;
+  onRefresh: () => void;
+}
+
+const ROLES: { value: AdminAccount["role"]; label: string; hint: string }[] = [
+  { value: "owner", label: "owner", hint: "everything, including the team" },
+  { value: "reviewer", label: "reviewer", hint: "reviews applicants" },
+  { value: "read_only", label: "read-only", hint: "can look, can't change" },
+];
+
+const emptyInvite = {
+  username: "",
+  display_name: "",
+  email: "",
+  role: "reviewer" as AdminAccount["role"],
+};
+
+// Owners invite admins, change roles and hand out password reset links
+export default function AdminTeam({
+  admins,
+  currentAdmin,
+  onRefresh,
+}: AdminTeamProps) {
+  const [selectedUsername, setSelectedUsername] = useState<string | null>(null);
+  const [invite, setInvite] = useState(emptyInvite);
+  const [saving, setSaving] = useState(false);
+  // Last invite/reset link, shown once so it can be shared by hand
+  const [link, setLink] = useState<string | null>(null);
+
+  const selected = admins.find((a) => a.username === selectedUsername) || null;
+
+  async function request(
+    method: string,
+    body: unknown,
+    path = "/api/admin/accounts"
+  ) {
+    const token = localStorage.getItem("admin_token");
+    const response = await fetch(path, {
+      method,
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${token}`,
+      },
+      body: JSON.stringify(body),
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) throw new Error(data.error || `HTTP ${response.status}`);
+    return data;
+  }
+
+  async function sendInvite() {
+    if (!invite.username.trim()) {
+      toast.error("username is required");
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const data = await request("POST", invite);
+      setLink(data.link);
+      setInvite(emptyInvite);
+      toast.success(data.emailed ? "invite sent" : "invite link created");
+      onRefresh();
+    } catch (error) {
+      console.error("Error inviting admin:", error);
+      toast.error(error instanceof Error ? error.message : "failed to invite");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function updateAdmin(changes: {
+    role?: AdminAccount["role"];
+    disabled?: boolean;
+    reset_mfa?: boolean;
+  }) {
+    if (!selected) return;
+    try {
+      await request("PATCH", { username: selected.username, ...changes });
+      toast.success("admin updated");
+      onRefresh();
+    } catch (error) {
+      console.error("Error updating admin:", error);
+      toast.error(error instanceof Error ? error.message : "failed to update");
+    }
+  }
+
+  async function createResetLink() {
+    if (!selected) return;
+    try {
+      const data = await request(
+        "POST",
+        { username: selected.username },
+        "/api/admin/accounts/reset"
+      );
+      setLink(data.link);
+      toast.success(
+        data.emailed ? `${data.kind} link emailed` : `${data.kind} link created`
+      );
+      onRefresh();
+    } catch (error) {
+      console.error("Error creating reset link:", error);
+      toast.error(
+        error instanceof Error ? error.message : "failed to create link"
+      );
+    }
+  }
+
+  const statusStyle = (status: AdminAccount["status"]) =>
+    status === "active"
+      ? "bg-emerald-500/10 text-emerald-400"
+      : status === "invited"
+      ? "bg-amber-500/10 text-amber-400"
+      : "bg-red-500/10 text-red-400";
+
+  return (
+    <>
+      {/* Left Panel - Admin List */}
+      <div className="w-[400px] border-r border-white/[0.06] flex flex-col liquid-glass-light">
+        <div className="p-4 border-b border-white/[0.06] flex items-center justify-between">
+          <p className="text-xs text-foreground/40">
+            everyone with dashboard access
+          </p>
+          <motion.button
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+            onClick={() => {
+              setSelectedUsername(null);
+              setLink(null);
+            }}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium liquid-glass-pill text-orange-400"
+          >
+            <Plus className="w-3.5 h-3.5" />
+            invite
+          </motion.button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          {admins.length === 0 ? (
+            <div className="flex items-center justify-center h-full">
+              <div className="text-center">
+                <Users className="w-10 h-10 text-foreground/10 mx-auto mb-2" />
+                <p className="text-sm text-foreground/40">no admins loaded</p>
+              </div>
+            </div>
+          ) : (
+            <div className="p-3 space-y-2">
+              {admins.map((admin) => (
+                <div
+                  key={admin.username}
+                  onClick={() => {
+                    setSelectedUsername(admin.username);
+                    setLink(null);
+                  }}
+                  className={`w-full text-left p-4 rounded-2xl cursor-pointer transition-all ${
+                    selectedUsername === admin.username
+                      ? "liquid-glass bg-orange-500/10 border border-orange-500/20"
+                      : "liquid-glass-pill hover:bg-white/[0.08] border border-transparent"
+                  } ${admin.status === "disabled" ? "opacity-50" : ""}`}
+                >
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-sm truncate">
+                      {admin.display_name}
+                    </span>
+                    {admin.username === currentAdmin && (
+                      <span className="text-[10px] text-foreground/30">
+                        (you)
+                      </span>
+                    )}
+                    <span
+                      className={`text-[10px] px-1.5 py-0.5 rounded ${statusStyle(
+                        admin.status
+                      )}`}
+                    >
+                      {admin.status}
+                    </span>
+                    {admin.totp_enabled && (
+                      <span className="text-[10px] px-1.5 py-0.5 rounded bg-white/5 text-foreground/50">
+                        2fa
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-xs text-foreground/40 mt-1">
+                    @{admin.username} •{" "}
+                    {ROLES.find((r) => r.value === admin.role)?.label}
+                  </p>
+                  <p className="text-[10px] text-foreground/30 mt-1.5">
+                    {admin.last_login_at
+                      ? `last login ${new Date(
+                          admin.last_login_at
+                        ).toLocaleString()}`
+                      : admin.invited_by
+                      ? `invited by ${admin.invited_by}`
+                      : "never logged in"}
+                  </p>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Center Panel - Invite / Manage */}
+      <div className="flex-1 overflow-y-auto p-6 space-y-5">
+        <h2 className="text-xl font-semibold bg-gradient-to-r from-foreground to-foreground/70 bg-clip-text text-transparent">
+          {selected ? selected.display_name : "invite an admin"}
+        </h2>
+
+        {selected ? (
+          <>
+            <div className="text-xs text-foreground/40 space-y-1">
+              <p>@{selected.username}</p>
+              {selected.email && <p>{selected.email}</p>}
+              <p>added {new Date(selected.created_at).toLocaleDateString()}</p>
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-xs font-semibold text-foreground/50 uppercase tracking-wide">
+                role
+              </label>
+              <div className="flex flex-wrap gap-2">
+                {ROLES.map((role) => (
+                  <button
+                    key={role.value}
+                    onClick={() => updateAdmin({ role: role.value })}
+                    disabled={
+                      selected.role === role.value ||
+                      selected.username === currentAdmin
+                    }
+                    title={role.hint}
+                    className={`px-3 py-1.5 rounded-lg text-xs font-medium transition-all disabled:cursor-default ${
+                      selected.role === role.value
+                        ? "liquid-glass-pill bg-orange-500/20 text-orange-400"
+                        : "liquid-glass-pill text-foreground/50 hover:text-foreground/70"
+                    }`}
+                  >
+                    {role.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              <motion.button
+                whileHover={{ scale: 1.02 }}
+                whileTap={{ scale: 0.98 }}
+                onClick={createResetLink}
+                disabled={selected.status === "disabled"}
+                className="flex items-center gap-2 px-4 py-2.5 rounded-xl liquid-glass-pill text-sm font-medium text-foreground/70 disabled:opacity-50"
+              >
+                <KeyRound className="w-4 h-4" />
+                {selected.status === "invited"
+                  ? "new invite link"
+                  : "password reset link"}
+              </motion.button>
+              {selected.totp_enabled && selected.username !== currentAdmin && (
+                <motion.button
+                  whileHover={{ scale: 1.02 }}
+                  whileTap={{ scale: 0.98 }}
+                  onClick={() => {
+                    if (
+                      confirm(
+                        `turn off two-factor login for ${selected.display_name}? only do this if they lost their device and recovery codes.`
+                      )
+                    ) {
+                      updateAdmin({ reset_mfa: true });
+                    }
+                  }}
+                  className="flex items-center gap-2 px-4 py-2.5 rounded-xl liquid-glass-pill text-sm font-medium text-amber-400"
+                >
+                  <ShieldOff className="w-4 h-4" />
+                  reset 2fa
+                </motion.button>
+              )}
+              {selected.username !== currentAdmin && (
+                <motion.button
+                  whileHover={{ scale: 1.02 }}
+                  whileTap={{ scale: 0.98 }}
+                  onClick={() =>
+                    updateAdmin({ disabled: selected.status !== "disabled" })
+                  }
+                  className="flex items-center gap-2 px-4 py-2.5 rounded-xl liquid-glass-pill text-sm font-medium text-red-400"
+                >
+                  <UserCog className="w-4 h-4" />
+                  {selected.status === "disabled" ? "enable" : "disable"}
+                </motion.button>
+              )}
+            </div>
+          </>
+        ) : (
+          <>
+            <div className="space-y-2">
+              <label className="text-xs font-semibold text-foreground/50 uppercase tracking-wide">
+                username
+              </label>
+              <Input
+                value={invite.username}
+                onChange={(e) =>
+                  setInvite({ ...invite, username: e.target.value })
+                }
+                placeholder="ama"
+                className="liquid-glass-pill border-white/[0.08] text-sm lowercase"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-xs font-semibold text-foreground/50 uppercase tracking-wide">
+                display name
+              </label>
+              <Input
+                value={invite.display_name}
+                onChange={(e) =>
+                  setInvite({ ...invite, display_name: e.target.value })
+                }
+                placeholder="Ama Owusu"
+                className="liquid-glass-pill border-white/[0.08] text-sm"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-xs font-semibold text-foreground/50 uppercase tracking-wide">
+                email (optional - we'll send the link)
+              </label>
+              <Input
+                type="email"
+                value={invite.email}
+                onChange={(e) =>
+                  setInvite({ ...invite, email: e.target.value })
+                }
+                placeholder="ama@example.com"
+                className="liquid-glass-pill border-white/[0.08] text-sm"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-xs font-semibold text-foreground/50 uppercase tracking-wide">
+                role
+              </label>
+              <div className="flex flex-wrap gap-2">
+                {ROLES.map((role) => (
+                  <button
+                    key={role.value}
+                    onClick={() => setInvite({ ...invite, role: role.value })}
+                    title={role.hint}
+                    className={`px-3 py-1.5 rounded-lg text-xs font-medium transition-all ${
+                      invite.role === role.value
+                        ? "liquid-glass-pill bg-orange-500/20 text-orange-400"
+                        : "liquid-glass-pill text-foreground/50 hover:text-foreground/70"
+                    }`}
+                  >
+                    {role.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <motion.button
+              whileHover={{ scale: 1.02 }}
+              whileTap={{ scale: 0.98 }}
+              onClick={sendInvite}
+              disabled={saving}
+              className="px-4 py-2.5 rounded-xl bg-orange-500/20 text-orange-400 border border-orange-500/30 text-sm font-medium shadow-[0_0_20px_rgba(251,146,60,0.15)] hover:shadow-[0_0_30px_rgba(251,146,60,0.25)] disabled:opacity-50 transition-all"
+            >
+              {saving ? "inviting..." : "create invite"}
+            </motion.button>
+          </>
+        )}
+
+        {link && (
+          <div className="p-4 rounded-2xl liquid-glass-pill space-y-2">
+            <p className="text-xs text-foreground/50">
+              share this link - it only works once and isn&apos;t shown again
+            </p>
+            <div className="flex items-center gap-2">
+              <code className="flex-1 text-xs text-foreground/70 break-all">
+                {link}
+              </code>
+              <button
+                onClick={() => {
+                  navigator.clipboard.writeText(link);
+                  toast.success("link copied");
+                }}
+                className="text-foreground/40 hover:text-foreground/70"
+                title="copy"
+              >
+                <Copy className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </>
+  );
+}
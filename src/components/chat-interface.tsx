@@ -22,6 +22,12 @@ import { useTheme } from "next-themes";
 import confetti from "canvas-confetti";
 import ChatMessage from "@/components/chat-message";
 import TypingIndicator from "@/components/typing-indicator";
+import {
+  CUSTOM_QUESTIONS_STATE,
+  getStatePath,
+  ONBOARDING_QUESTIONS,
+  type OnboardingQuestion,
+} from "@/lib/onboarding-questions";
 
 interface ChatInterfaceProps {
   onClose: () => void;
@@ -46,6 +52,8 @@ interface SessionState {
   action?: "logout" | "meme_war" | null;
   application_status?: "pending" | "accepted" | "rejected" | "waitlisted";
   user_name?: string;
+  path?: string[]; // States this applicant will go through, in order
+  answered?: string[]; // Path states that already have an answer
 }
 
 interface GiphyGif {
@@ -84,45 +92,14 @@ const MEMES = [
   },
 ];
 
-const STATE_ORDER = [
-  "AWAITING_EMAIL",
-  "AWAITING_SECRET_PHRASE",
-  "AWAITING_NAME",
-  "AWAITING_WHATSAPP",
-  "AWAITING_ENGINEERING_AREA",
-  "AWAITING_SKILL_LEVEL",
-  "AWAITING_IMPROVEMENT_GOALS",
-  "AWAITING_CAREER_GOALS",
-  "AWAITING_GITHUB",
-  "AWAITING_LINKEDIN",
-  "AWAITING_PORTFOLIO",
-  "AWAITING_PROJECTS",
-  "AWAITING_TIME_COMMITMENT",
-  "AWAITING_LEARNING_STYLE",
-  "AWAITING_TECH_FOCUS",
-  "AWAITING_SUCCESS_DEFINITION",
-  "COMPLETED",
-  "FREE_CHAT",
-];
+// Default path until the server sends this applicant's own (branching rules
+// can skip or add steps based on their answers)
+const STATE_ORDER = getStatePath();
 
 // Cool phase names for each state
 const PHASE_NAMES: Record<string, string> = {
-  AWAITING_EMAIL: "identify",
-  AWAITING_SECRET_PHRASE: "secret key",
-  AWAITING_NAME: "introductions",
-  AWAITING_WHATSAPP: "contact",
-  AWAITING_ENGINEERING_AREA: "discovering",
-  AWAITING_SKILL_LEVEL: "calibrating",
-  AWAITING_IMPROVEMENT_GOALS: "aspirations",
-  AWAITING_CAREER_GOALS: "envisioning",
-  AWAITING_GITHUB: "connecting",
-  AWAITING_LINKEDIN: "networking",
-  AWAITING_PORTFOLIO: "showcasing",
-  AWAITING_PROJECTS: "exploring",
-  AWAITING_TIME_COMMITMENT: "committing",
-  AWAITING_LEARNING_STYLE: "understanding",
-  AWAITING_TECH_FOCUS: "focusing",
-  AWAITING_SUCCESS_DEFINITION: "defining",
+  ...Object.fromEntries(ONBOARDING_QUESTIONS.map((q) => [q.state, q.phase])),
+  [CUSTOM_QUESTIONS_STATE]: "final touches",
   COMPLETED: "complete ✨",
   FREE_CHAT: "free chat 💬",
 };
@@ -135,32 +112,11 @@ const INPUT_CONFIG: Record<
     placeholder: string;
   }
 > = {
-  AWAITING_EMAIL: {
-    type: "text",
-    placeholder: "your@email.com",
-  },
-  AWAITING_SECRET_PHRASE: {
-    type: "text",
-    placeholder: "create a memorable phrase...",
-  },
-  AWAITING_NAME: { type: "text", placeholder: "your name..." },
-  AWAITING_WHATSAPP: {
-    type: "text",
-    placeholder: "+233 or country code + number",
-  },
-  AWAITING_GITHUB: {
-    type: "text",
-    placeholder: "username or full URL",
-  },
-  AWAITING_LINKEDIN: {
-    type: "text",
-    placeholder: "profile URL or username",
-  },
-  AWAITING_PORTFOLIO: {
-    type: "text",
-    placeholder: "your website URL",
-  },
-  AWAITING_TIME_COMMITMENT: { type: "text", placeholder: "e.g. 10 hours/week" },
+  ...Object.fromEntries(
+    (ONBOARDING_QUESTIONS as readonly OnboardingQuestion[])
+      .filter((q) => q.placeholder)
+      .map((q) => [q.state, { type: "text", placeholder: q.placeholder! }])
+  ),
   COMPLETED: {
     type: "text",
     placeholder: "ask me anything about your journey...",
@@ -176,6 +132,7 @@ export default function ChatInterface({ onClose }: ChatInterfaceProps) {
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState("");
   const [isLoading, setIsLoading] = useState(false);
+  const [toolStatus, setToolStatus] = useState<string | null>(null); // Label of the tool currently running
   const [sessionState, setSessionState] = useState<SessionState | null>(null);
   const [suggestions, setSuggestions] = useState<string[]>([]);
   const [showMemes, setShowMemes] = useState(false);
@@ -294,12 +251,14 @@ export default function ChatInterface({ onClose }: ChatInterfaceProps) {
     triggerCelebration,
   ]);
 
+  const stateOrder = sessionState?.path || STATE_ORDER;
+
   const getProgress = () => {
-    if (!sessionState) return { current: 0, total: STATE_ORDER.length };
-    const stateIndex = STATE_ORDER.indexOf(sessionState.state);
+    if (!sessionState) return { current: 0, total: stateOrder.length };
+    const stateIndex = stateOrder.indexOf(sessionState.state);
     return {
       current: stateIndex >= 0 ? stateIndex + 1 : 1,
-      total: STATE_ORDER.length,
+      total: stateOrder.length,
     };
   };
 
@@ -748,21 +707,28 @@ export default function ChatInterface({ onClose }: ChatInterfaceProps) {
       const decoder = new TextDecoder();
       let streamedContent = "";
       let hasReceivedContent = false;
+      // Holds a partial SSE line until the rest of it arrives
+      let buffered = "";
 
       if (reader) {
         while (true) {
           const { done, value } = await reader.read();
           if (done) break;
 
-          const chunk = decoder.decode(value);
-          const lines = chunk.split("\n");
+          buffered += decoder.decode(value, { stream: true });
+          const lines = buffered.split("\n");
+          buffered = lines.pop() || "";
 
           for (const line of lines) {
             if (line.startsWith("data: ")) {
               try {
                 const data = JSON.parse(line.slice(6));
 
-                if (data.type === "chunk") {
+                if (data.type === "tool") {
+                  // Show what the assistant is doing while a tool runs
+                  setToolStatus(data.label || null);
+                } else if (data.type === "chunk") {
+                  setToolStatus(null);
                   streamedContent += data.text;
 
                   // Only add assistant message when we have actual content
@@ -796,6 +762,8 @@ export default function ChatInterface({ onClose }: ChatInterfaceProps) {
                     scrollToBottom(true);
                   }
                 } else if (data.type === "done") {
+                  setToolStatus(null);
+
                   // Update token if provided
                   if (data.token) {
                     setAuthToken(data.token);
@@ -858,6 +826,7 @@ export default function ChatInterface({ onClose }: ChatInterfaceProps) {
       setMessages((prev) => prev.filter((m) => m.id !== assistantMessageId));
     } finally {
       setIsLoading(false);
+      setToolStatus(null);
       inputRef.current?.focus();
     }
   };
@@ -1098,11 +1067,14 @@ export default function ChatInterface({ onClose }: ChatInterfaceProps) {
             </AnimatePresence>
             {!sessionState?.completed && (
               <div className="flex gap-1 sm:gap-1.5">
-                {STATE_ORDER.slice(0, -1).map((state, i) => {
-                  const currentIndex = STATE_ORDER.indexOf(
+                {stateOrder.slice(0, -1).map((state, i) => {
+                  const currentIndex = stateOrder.indexOf(
                     sessionState?.state || "AWAITING_NAME"
                   );
-                  const isCompleted = i < currentIndex;
+                  // Answers given ahead of time fill their dots too
+                  const isCompleted =
+                    i < currentIndex ||
+                    !!sessionState?.answered?.includes(state);
                   const isCurrent = i === currentIndex;
                   return (
                     <motion.div
@@ -1187,7 +1159,7 @@ export default function ChatInterface({ onClose }: ChatInterfaceProps) {
               animate={{ opacity: 1 }}
               transition={{ duration: 0.2 }}
             >
-              <TypingIndicator />
+              <TypingIndicator label={toolStatus} />
             </motion.div>
           )}
           <div ref={messagesEndRef} />
@@ -2,12 +2,16 @@
 
 import { motion } from "framer-motion";
 
-export default function TypingIndicator() {
+interface TypingIndicatorProps {
+  label?: string | null; // e.g. "fetching github" while a tool runs
+}
+
+export default function TypingIndicator({ label }: TypingIndicatorProps) {
   return (
     <motion.div
       initial={{ opacity: 0 }}
       animate={{ opacity: 1 }}
-      className="flex justify-start px-1"
+      className="flex justify-start items-center gap-2 px-1"
     >
       {/* Minimal floating dots - no container */}
       <div className="flex gap-1.5 items-center">
@@ -28,6 +32,16 @@ export default function TypingIndicator() {
           />
         ))}
       </div>
+      {label && (
+        <motion.span
+          key={label}
+          initial={{ opacity: 0, x: -4 }}
+          animate={{ opacity: 1, x: 0 }}
+          className="text-xs text-foreground/40"
+        >
+          {label}…
+        </motion.span>
+      )}
     </motion.div>
   );
 }
@@ -0,0 +1,200 @@
+import crypto from "crypto";
+import Admin, { type AdminRole, type IAdmin } from "@/lib/models/admin";
+import type { AdminScope } from "@/lib/jwt";
+import { hashScrypt, verifyScrypt } from "@/lib/scrypt-hash";
+
+/**
+ * Admin Accounts
+ *
+ * Named dashboard accounts with roles:
+ * - owner: everything, including inviting and managing other admins
+ * - reviewer: reviews applications and uses the assistant
+ * - read_only: can look, can't change anything
+ *
+ * New admins get a one-time invite link to set their password; owners can
+ * issue reset links the same way. Passwords are salted scrypt hashes and
+ * links are stored as SHA-256 hashes, so the database never holds anything
+ * that can be used to log in.
+ *
+ * The first login on an empty database creates an owner from the
+ * ADMIN_USERNAME / ADMIN_SECRET env pair, so existing deployments keep working.
+ */
+
+export const ROLE_SCOPES: Record<AdminRole, AdminScope[]> = {
+  owner: [
+    "applications:read",
+    "applications:write",
+    "feedback:read",
+    "questions:read",
+    "questions:write",
+    "support:chat",
+    "admins:manage",
+    "account:security",
+    "audit:read",
+  ],
+  reviewer: [
+    "applications:read",
+    "applications:write",
+    "feedback:read",
+    "questions:read",
+    "support:chat",
+    "account:security",
+    "audit:read",
+  ],
+  read_only: [
+    "applications:read",
+    "feedback:read",
+    "questions:read",
+    "account:security",
+    "audit:read",
+  ],
+};
+
+export const MIN_PASSWORD_LENGTH = 10;
+export const USERNAME_PATTERN = /^[a-z0-9][a-z0-9._-]{1,31}$/;
+
+const INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const RESET_TTL_MS = 60 * 60 * 1000;
+
+// Same hash format as secret phrases, but passwords are case-sensitive
+export async function hashPassword(password: string): Promise<string> {
+  return hashScrypt(password);
+}
+
+export async function verifyPassword(
+  password: string,
+  stored: string | undefined
+): Promise<boolean> {
+  if (!stored) return false;
+  return (await verifyScrypt(password, stored))?.valid ?? false;
+}
+
+// Checked against when the username doesn't exist, so a miss takes as long
+// as a wrong password
+let dummyHash: Promise<string> | null = null;
+
+export function hashAccountToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+function createAccountToken() {
+  const token = crypto.randomBytes(32).toString("base64url");
+  return { token, hash: hashAccountToken(token) };
+}
+
+export function validatePassword(password: unknown): string | null {
+  if (typeof password !== "string" || password.length < MIN_PASSWORD_LENGTH) {
+    return `password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+  }
+  return null;
+}
+
+// Create the env-configured owner the first time anyone logs in
+export async function ensureBootstrapOwner(): Promise<void> {
+  const username = process.env.ADMIN_USERNAME?.toLowerCase().trim();
+  const password = process.env.ADMIN_SECRET;
+  if (!username || !password) return;
+  if ((await Admin.estimatedDocumentCount()) > 0) return;
+
+  await Admin.create({
+    username,
+    display_name: username,
+    role: "owner",
+    status: "active",
+    password_hash: await hashPassword(password),
+  });
+  console.log(`👑 Created owner account "${username}" from ADMIN_USERNAME`);
+}
+
+// The active admin for these credentials, or null
+export async function authenticateAdmin(
+  username: string,
+  password: string
+): Promise<IAdmin | null> {
+  await ensureBootstrapOwner();
+
+  const admin = await Admin.findOne({
+    username: username.toLowerCase().trim(),
+  });
+  if (!admin || admin.status !== "active" || !admin.password_hash) {
+    dummyHash ||= hashPassword(crypto.randomBytes(16).toString("hex"));
+    await verifyPassword(password, await dummyHash);
+    return null;
+  }
+
+  if (!(await verifyPassword(password, admin.password_hash))) return null;
+  return admin;
+}
+
+// Set up a pending invite and return the raw token for the link
+export function issueInvite(admin: IAdmin): string {
+  const { token, hash } = createAccountToken();
+  admin.invite_token_hash = hash;
+  admin.invite_expires_at = new Date(Date.now() + INVITE_TTL_MS);
+  return token;
+}
+
+// Set up a password reset and return the raw token for the link
+export function issuePasswordReset(admin: IAdmin): string {
+  const { token, hash } = createAccountToken();
+  admin.reset_token_hash = hash;
+  admin.reset_expires_at = new Date(Date.now() + RESET_TTL_MS);
+  return token;
+}
+
+/**
+ * Set a password from an invite or reset link. Accepting an invite activates
+ * the account; either way the link stops working. Returns null when the
+ * token is unknown, expired or the account is disabled.
+ */
+export async function setPasswordWithToken(
+  token: string,
+  password: string
+): Promise<IAdmin | null> {
+  const hash = hashAccountToken(token);
+  const now = new Date();
+
+  const admin = await Admin.findOne({
+    $or: [
+      { invite_token_hash: hash, invite_expires_at: { $gt: now } },
+      { reset_token_hash: hash, reset_expires_at: { $gt: now } },
+    ],
+  });
+  if (!admin || admin.status === "disabled") return null;
+
+  admin.password_hash = await hashPassword(password);
+  admin.status = "active";
+  admin.invite_token_hash = undefined;
+  admin.invite_expires_at = undefined;
+  admin.reset_token_hash = undefined;
+  admin.reset_expires_at = undefined;
+  await admin.save();
+  return admin;
+}
+
+// Link an admin opens to set their password
+export function accountLink(
+  origin: string,
+  kind: "invite" | "reset",
+  token: string
+): string {
+  return `${origin}/admin?${kind}=${encodeURIComponent(token)}`;
+}
+
+// What the dashboard may see about an account - never hashes
+export function toPublicAdmin(admin: IAdmin) {
+  return {
+    username: admin.username,
+    display_name: admin.display_name || admin.username,
+    email: admin.email,
+    role: admin.role,
+    status: admin.status,
+    invited_by: admin.invited_by,
+    totp_enabled: admin.totp_enabled,
+    invite_expires_at: admin.invite_expires_at,
+    last_login_at: admin.last_login_at,
+    created_at: admin.created_at,
+  };
+}
+
+export type PublicAdmin = ReturnType<typeof toPublicAdmin>;
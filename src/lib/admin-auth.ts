@@ -0,0 +1,68 @@
+import { type NextRequest, NextResponse } from "next/server";
+import connectDB from "@/lib/mongodb";
+import Admin from "@/lib/models/admin";
+import { ROLE_SCOPES } from "@/lib/admin-accounts";
+import {
+  type AdminJWTPayload,
+  type AdminScope,
+  verifyAdminToken,
+} from "@/lib/jwt";
+
+/**
+ * Admin route guard
+ *
+ * Every /api/admin route calls requireAdmin first. Only tokens minted by the
+ * admin login (admin role, admin audience, admin secret) get through -
+ * applicant chat tokens are rejected with 401, and admin tokens without the
+ * scope a route needs get 403.
+ *
+ * The account is looked up on every call, so disabling an admin or changing
+ * their role takes effect straight away rather than when the token expires.
+ */
+
+export type AdminAuthResult =
+  | { ok: true; admin: AdminJWTPayload }
+  | { ok: false; response: NextResponse };
+
+export function getBearerToken(request: NextRequest): string | null {
+  const authHeader = request.headers.get("authorization");
+  if (!authHeader?.startsWith("Bearer ")) return null;
+  return authHeader.substring(7).trim() || null;
+}
+
+const unauthorized = () =>
+  NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+export async function requireAdmin(
+  request: NextRequest,
+  scope: AdminScope
+): Promise<AdminAuthResult> {
+  const token = getBearerToken(request);
+  const admin = token ? verifyAdminToken(token) : null;
+  if (!admin) return { ok: false, response: unauthorized() };
+
+  await connectDB();
+  const account = await Admin.findOne({ username: admin.sub })
+    .select({ role: 1, status: 1 })
+    .lean();
+  if (!account || account.status !== "active") {
+    return { ok: false, response: unauthorized() };
+  }
+
+  // A token only grants what the admin's current role still allows
+  if (
+    !admin.scopes.includes(scope) ||
+    !ROLE_SCOPES[account.role].includes(scope)
+  ) {
+    console.warn(`✋ Admin ${admin.sub} missing scope ${scope}`);
+    return {
+      ok: false,
+      response: NextResponse.json(
+        { error: "Forbidden", missing_scope: scope },
+        { status: 403 }
+      ),
+    };
+  }
+
+  return { ok: true, admin };
+}
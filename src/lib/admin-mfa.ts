@@ -0,0 +1,143 @@
+import crypto from "crypto";
+import type { IAdmin } from "@/lib/models/admin";
+import { hashAccountToken } from "@/lib/admin-accounts";
+import {
+  generateTotpSecret,
+  totpProvisioningUri,
+  verifyTotp,
+} from "@/lib/totp";
+
+/**
+ * Admin Two-Factor Login
+ *
+ * Optional TOTP for admin accounts. Enrolling is two steps: start creates a
+ * pending secret and a provisioning URI for the authenticator app, and the
+ * first valid code from the app turns it on and hands out one-time recovery
+ * codes. After that, login needs the password and then a code (or a
+ * recovery code).
+ *
+ * TOTP secrets have to be readable to check codes, so they're stored
+ * encrypted with AES-256-GCM under ADMIN_MFA_KEY. Recovery codes are only
+ * stored as hashes. Functions that check codes take `now` so they can be run
+ * against a fixed clock.
+ */
+
+export const TOTP_ISSUER = "zuckies admin";
+export const RECOVERY_CODE_COUNT = 10;
+
+const ENCRYPTION_KEY = crypto
+  .createHash("sha256")
+  .update(
+    process.env.ADMIN_MFA_KEY ||
+      process.env.ADMIN_JWT_SECRET ||
+      "mentorship-platform-mfa-key-change-in-production"
+  )
+  .digest();
+
+function encryptSecret(secret: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv("aes-256-gcm", ENCRYPTION_KEY, iv);
+  const data = Buffer.concat([cipher.update(secret, "utf8"), cipher.final()]);
+  return [iv, cipher.getAuthTag(), data]
+    .map((part) => part.toString("base64"))
+    .join(".");
+}
+
+function decryptSecret(stored: string): string {
+  const [iv, tag, data] = stored
+    .split(".")
+    .map((part) => Buffer.from(part, "base64"));
+  const decipher = crypto.createDecipheriv("aes-256-gcm", ENCRYPTION_KEY, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(data), decipher.final()]).toString(
+    "utf8"
+  );
+}
+
+// "3f9a1-c04be" style - easy to read out and type
+function generateRecoveryCode(): string {
+  const hex = crypto.randomBytes(5).toString("hex");
+  return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+}
+
+const normalizeRecoveryCode = (code: string) =>
+  code.toLowerCase().replace(/[^a-f0-9]/g, "");
+
+// Begin enrollment. Returns the secret for manual entry and the otpauth URI.
+export function startTotpEnrollment(admin: IAdmin) {
+  const secret = generateTotpSecret();
+  admin.totp_pending_secret = encryptSecret(secret);
+  return {
+    secret,
+    uri: totpProvisioningUri({
+      secret,
+      account: admin.username,
+      issuer: TOTP_ISSUER,
+    }),
+  };
+}
+
+/**
+ * Finish enrollment with the first code from the app. Returns the recovery
+ * codes (shown once) or null if the code is wrong or nothing is pending.
+ */
+export function confirmTotpEnrollment(
+  admin: IAdmin,
+  code: string,
+  now = Date.now()
+): string[] | null {
+  if (!admin.totp_pending_secret) return null;
+
+  const secret = decryptSecret(admin.totp_pending_secret);
+  const counter = verifyTotp(secret, code, now);
+  if (counter === null) return null;
+
+  const recoveryCodes = Array.from(
+    { length: RECOVERY_CODE_COUNT },
+    generateRecoveryCode
+  );
+  admin.totp_enabled = true;
+  admin.totp_secret = admin.totp_pending_secret;
+  admin.totp_pending_secret = undefined;
+  admin.totp_last_counter = counter;
+  admin.recovery_code_hashes = recoveryCodes.map((c) =>
+    hashAccountToken(normalizeRecoveryCode(c))
+  );
+  return recoveryCodes;
+}
+
+/**
+ * Check a login code - a TOTP code, or failing that a recovery code, which is
+ * used up. Updates the admin (the caller saves). Returns which kind matched.
+ */
+export function verifySecondFactor(
+  admin: IAdmin,
+  code: string,
+  now = Date.now()
+): "totp" | "recovery" | null {
+  if (!admin.totp_enabled || !admin.totp_secret) return null;
+
+  const counter = verifyTotp(decryptSecret(admin.totp_secret), code, now);
+  // A code can only be used once, even within its 30 seconds
+  if (counter !== null && counter > (admin.totp_last_counter ?? -1)) {
+    admin.totp_last_counter = counter;
+    return "totp";
+  }
+
+  const hash = hashAccountToken(normalizeRecoveryCode(code));
+  const index = admin.recovery_code_hashes.indexOf(hash);
+  if (index !== -1 && normalizeRecoveryCode(code).length === 10) {
+    admin.recovery_code_hashes.splice(index, 1);
+    return "recovery";
+  }
+
+  return null;
+}
+
+export function disableTotp(admin: IAdmin): void {
+  admin.totp_enabled = false;
+  admin.totp_secret = undefined;
+  admin.totp_pending_secret = undefined;
+  admin.totp_last_counter = undefined;
+  admin.recovery_code_hashes = [];
+}
@@ -0,0 +1,486 @@
+import {
+  type GuardedCollection,
+  isBlockedPath,
+  isPlainObject,
+  QUERYABLE_FIELDS,
+  stripBlockedFields,
+  validateFilter,
+} from "@/lib/query-guard";
+
+/**
+ * Admin Analytics
+ *
+ * Read-only aggregations for the admin assistant's run_analytics tool. The
+ * model either picks a vetted template (counts, status breakdowns, numeric
+ * summaries, trends over time) or writes a small custom pipeline, which is
+ * checked stage by stage: only $match, $group, $project, $sort, $limit and
+ * $count, allowlisted fields and expression operators, no $$variables.
+ *
+ * Every pipeline starts from the same population the dashboard shows (no
+ * soft-deleted documents, only submitted applications) and ends with a row
+ * cap. Results come back as markdown tables for the admin chat.
+ */
+
+export const ANALYTICS_TEMPLATES = [
+  "count_by",
+  "status_breakdown",
+  "numeric_summary",
+  "over_time",
+  "custom",
+] as const;
+export type AnalyticsTemplate = (typeof ANALYTICS_TEMPLATES)[number];
+
+export const MAX_ANALYTICS_ROWS = 100;
+const MAX_CUSTOM_STAGES = 8;
+
+export interface AnalyticsRequest {
+  collection: GuardedCollection;
+  template: AnalyticsTemplate;
+  group_by?: string;
+  field?: string; // Numeric field for numeric_summary, date field for over_time
+  interval?: "day" | "week" | "month";
+  filter?: Record<string, unknown>;
+  pipeline?: unknown; // Stages for the custom template
+}
+
+export interface AnalyticsPlan {
+  title: string;
+  pipeline: Record<string, unknown>[];
+}
+
+// Numbers worth summarising. message_count is derived from sessions.messages.
+export const NUMERIC_FIELDS: Record<GuardedCollection, string[]> = {
+  applicants: [
+    "time_commitment_hours",
+    "rubric_score",
+    "recovery_attempts",
+    "failed_phrase_attempts",
+  ],
+  feedback: ["rating"],
+  sessions: ["message_count"],
+};
+
+// submitted_at and reviewed_at are ISO strings, converted on the fly
+export const DATE_FIELDS: Record<GuardedCollection, string[]> = {
+  applicants: ["submitted_at", "reviewed_at", "created_at"],
+  feedback: ["created_at"],
+  sessions: ["created_at", "updated_at"],
+};
+
+const DATE_FORMATS = { day: "%Y-%m-%d", week: "%G-W%V", month: "%Y-%m" };
+
+const APPLICATION_STATUSES = ["pending", "accepted", "rejected", "waitlisted"];
+
+const PIPELINE_STAGES = [
+  "$match",
+  "$group",
+  "$project",
+  "$sort",
+  "$limit",
+  "$count",
+];
+
+const ACCUMULATORS = [
+  "$sum",
+  "$avg",
+  "$min",
+  "$max",
+  "$first",
+  "$last",
+  "$count",
+  "$addToSet",
+];
+
+const EXPRESSION_OPERATORS = [
+  ...ACCUMULATORS,
+  "$cond",
+  "$ifNull",
+  "$eq",
+  "$ne",
+  "$gt",
+  "$gte",
+  "$lt",
+  "$lte",
+  "$and",
+  "$or",
+  "$not",
+  "$in",
+  "$size",
+  "$add",
+  "$subtract",
+  "$multiply",
+  "$divide",
+  "$round",
+  "$toLower",
+  "$toUpper",
+  "$concat",
+  "$strLenCP",
+  "$toString",
+  "$toInt",
+  "$toDouble",
+  "$toDate",
+  "$year",
+  "$month",
+  "$week",
+  "$dayOfMonth",
+  "$dayOfWeek",
+  "$dateToString",
+];
+
+// Fields a pipeline can use on the raw documents
+const inputFields = (collection: GuardedCollection) =>
+  collection === "sessions"
+    ? [...QUERYABLE_FIELDS.sessions, "message_count"]
+    : QUERYABLE_FIELDS[collection];
+
+// Same population as the dashboard, plus derived fields
+function baseStages(collection: GuardedCollection) {
+  const stages: Record<string, unknown>[] = [
+    {
+      $match:
+        collection === "applicants"
+          ? {
+              submitted_at: { $exists: true, $ne: null },
+              deleted_at: { $exists: false },
+            }
+          : { deleted_at: { $exists: false } },
+    },
+  ];
+  if (collection === "sessions") {
+    stages.push({
+      $addFields: { message_count: { $size: { $ifNull: ["$messages", []] } } },
+    });
+  }
+  return stages;
+}
+
+const asDate = (field: string) => ({
+  $convert: { input: `$${field}`, to: "date", onError: null, onNull: null },
+});
+
+// Field references ("$name") and operators inside an aggregation expression
+function checkExpression(expr: unknown, fields: string[]): string | null {
+  if (typeof expr === "string") {
+    if (expr.startsWith("$$")) return "variables like $$ROOT aren't allowed";
+    if (!expr.startsWith("$")) return null;
+    const path = expr.slice(1);
+    if (isBlockedPath(path)) return `field "${path}" is off limits`;
+    if (!fields.includes(path.split(".")[0])) {
+      return `unknown field "${path}"`;
+    }
+    return null;
+  }
+  if (Array.isArray(expr)) {
+    for (const item of expr) {
+      const error = checkExpression(item, fields);
+      if (error) return error;
+    }
+    return null;
+  }
+  if (!isPlainObject(expr)) return null;
+
+  for (const [key, value] of Object.entries(expr)) {
+    if (key.startsWith("$") && !EXPRESSION_OPERATORS.includes(key)) {
+      return `operator ${key} is not allowed`;
+    }
+    const error = checkExpression(value, fields);
+    if (error) return error;
+  }
+  return null;
+}
+
+/**
+ * Check a custom pipeline stage by stage, tracking which fields exist after
+ * each one ($group and $project reshape documents). Returns an error message,
+ * or null if it's safe to run.
+ */
+export function validatePipeline(
+  collection: GuardedCollection,
+  stages: unknown
+): string | null {
+  if (!Array.isArray(stages) || stages.length === 0) {
+    return "pipeline must be a non-empty array of stages";
+  }
+  if (stages.length > MAX_CUSTOM_STAGES) {
+    return `pipeline can have at most ${MAX_CUSTOM_STAGES} stages`;
+  }
+
+  let fields = inputFields(collection);
+  for (const stage of stages) {
+    if (!isPlainObject(stage) || Object.keys(stage).length !== 1) {
+      return "each stage must be an object with exactly one operator";
+    }
+    const [name, spec] = Object.entries(stage)[0];
+    if (!PIPELINE_STAGES.includes(name)) {
+      return `stage ${name} is not allowed`;
+    }
+
+    if (name === "$match") {
+      const error = validateFilter(collection, spec, fields);
+      if (error) return error;
+    } else if (name === "$group") {
+      if (!isPlainObject(spec) || !("_id" in spec)) {
+        return "$group needs an _id";
+      }
+      for (const [key, value] of Object.entries(spec)) {
+        if (key === "_id") {
+          const error = checkExpression(value, fields);
+          if (error) return error;
+          continue;
+        }
+        if (
+          !isPlainObject(value) ||
+          Object.keys(value).length !== 1 ||
+          !ACCUMULATORS.includes(Object.keys(value)[0])
+        ) {
+          return `$group field "${key}" needs one accumulator (${ACCUMULATORS.join(
+            ", "
+          )})`;
+        }
+        const error = checkExpression(value, fields);
+        if (error) return error;
+      }
+      fields = Object.keys(spec);
+    } else if (name === "$project") {
+      if (!isPlainObject(spec)) return "$project needs an object";
+      const kept: string[] = [];
+      const excluded: string[] = [];
+      for (const [key, value] of Object.entries(spec)) {
+        if (key.startsWith("$") || isBlockedPath(key)) {
+          return `can't project "${key}"`;
+        }
+        if (value === 0 || value === false) {
+          excluded.push(key);
+          continue;
+        }
+        const error =
+          value === 1 || value === true
+            ? checkExpression(`$${key}`, fields)
+            : checkExpression(value, fields);
+        if (error) return error;
+        kept.push(key.split(".")[0]);
+      }
+      // Exclusion-only projections keep everything else
+      if (kept.length === 0) {
+        fields = fields.filter((f) => !excluded.includes(f));
+      } else {
+        fields = excluded.includes("_id") ? kept : ["_id", ...kept];
+      }
+    } else if (name === "$sort") {
+      if (!isPlainObject(spec) || Object.keys(spec).length === 0) {
+        return "$sort needs at least one field";
+      }
+      for (const [key, direction] of Object.entries(spec)) {
+        const error = checkExpression(`$${key}`, fields);
+        if (error) return error;
+        if (direction !== 1 && direction !== -1) {
+          return `$sort direction for "${key}" must be 1 or -1`;
+        }
+      }
+    } else if (name === "$limit") {
+      if (!Number.isInteger(spec) || (spec as number) < 1) {
+        return "$limit must be a positive integer";
+      }
+    } else if (name === "$count") {
+      if (typeof spec !== "string" || !/^[a-z_][a-z0-9_]*$/i.test(spec)) {
+        return "$count needs a plain field name";
+      }
+      fields = [spec];
+    }
+  }
+  return null;
+}
+
+/**
+ * Turn a request into a pipeline. Returns the plan, or an error message if
+ * the request doesn't fit the template or fails validation.
+ */
+export function buildAnalyticsPipeline(
+  request: AnalyticsRequest
+): AnalyticsPlan | string {
+  const { collection, template, group_by, field, filter } = request;
+  const fields = inputFields(collection);
+
+  if (group_by) {
+    const error = checkExpression(`$${group_by}`, fields);
+    if (error) return `group_by: ${error}`;
+  }
+  if (filter) {
+    const error = validateFilter(collection, filter, fields);
+    if (error) return `filter: ${error}`;
+  }
+
+  const stages = baseStages(collection);
+  if (filter && Object.keys(filter).length > 0) stages.push({ $match: filter });
+  const groupId = group_by ? `$${group_by}` : null;
+
+  let title: string;
+  if (template === "count_by") {
+    if (!group_by) return "count_by needs group_by";
+    title = `${collection} by ${group_by}`;
+    stages.push(
+      { $group: { _id: groupId, count: { $sum: 1 } } },
+      { $sort: { count: -1 } }
+    );
+  } else if (template === "status_breakdown") {
+    if (collection !== "applicants") {
+      return "status_breakdown only works on applicants";
+    }
+    title = group_by
+      ? `application status by ${group_by}`
+      : "application status";
+    const statusCounts = Object.fromEntries(
+      APPLICATION_STATUSES.map((status) => [
+        status,
+        {
+          $sum: {
+            $cond: [
+              {
+                $eq: [{ $ifNull: ["$application_status", "pending"] }, status],
+              },
+              1,
+              0,
+            ],
+          },
+        },
+      ])
+    );
+    stages.push(
+      { $group: { _id: groupId, total: { $sum: 1 }, ...statusCounts } },
+      { $sort: { total: -1 } }
+    );
+  } else if (template === "numeric_summary") {
+    if (!field || !NUMERIC_FIELDS[collection].includes(field)) {
+      return `numeric_summary needs field, one of: ${NUMERIC_FIELDS[
+        collection
+      ].join(", ")}`;
+    }
+    title = `${field}${group_by ? ` by ${group_by}` : ""}`;
+    stages.push(
+      { $match: { [field]: { $type: "number" } } },
+      {
+        $group: {
+          _id: groupId,
+          count: { $sum: 1 },
+          avg: { $avg: `$${field}` },
+          min: { $min: `$${field}` },
+          max: { $max: `$${field}` },
+          // Medians are worked out afterwards from the raw values
+          values: { $push: `$${field}` },
+        },
+      },
+      { $sort: { count: -1 } }
+    );
+  } else if (template === "over_time") {
+    const dateField =
+      field || (collection === "applicants" ? "submitted_at" : "created_at");
+    if (!DATE_FIELDS[collection].includes(dateField)) {
+      return `over_time needs field, one of: ${DATE_FIELDS[collection].join(
+        ", "
+      )}`;
+    }
+    const interval = request.interval || "week";
+    title = `${collection} per ${interval} (${dateField})`;
+    stages.push(
+      {
+        $group: {
+          _id: {
+            $dateToString: {
+              format: DATE_FORMATS[interval],
+              date: asDate(dateField),
+            },
+          },
+          count: { $sum: 1 },
+        },
+      },
+      { $match: { _id: { $ne: null } } },
+      { $sort: { _id: 1 } }
+    );
+  } else {
+    const error = validatePipeline(collection, request.pipeline);
+    if (error) return `pipeline: ${error}`;
+    title = `custom ${collection} query`;
+    stages.push(...(request.pipeline as Record<string, unknown>[]));
+  }
+
+  stages.push({ $limit: MAX_ANALYTICS_ROWS });
+  return { title, pipeline: stages };
+}
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2
+    ? sorted[middle]
+    : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const percent = (part: number, whole: number) =>
+  whole > 0 ? `${((part / whole) * 100).toFixed(1)}%` : "—";
+
+/**
+ * Shape aggregation output into table rows: name the group column, add
+ * computed columns (share, acceptance rate, median) and drop anything blocked.
+ */
+export function finalizeAnalyticsRows(
+  request: AnalyticsRequest,
+  rows: Record<string, unknown>[]
+): Record<string, unknown>[] {
+  const groupColumn =
+    request.template === "over_time"
+      ? "period"
+      : request.group_by || (request.template === "custom" ? "group" : "");
+  const total = rows.reduce((sum, row) => sum + (Number(row.count) || 0), 0);
+
+  return rows.map((raw) => {
+    const { _id, ...rest } = stripBlockedFields(raw) as Record<string, unknown>;
+    const values = request.template === "numeric_summary" && rest.values;
+    if (values) delete rest.values;
+    const row: Record<string, unknown> = {};
+
+    // Composite _ids become one column per key
+    if (isPlainObject(_id)) Object.assign(row, _id);
+    else if (groupColumn) row[groupColumn] = _id ?? "(none)";
+    Object.assign(row, rest);
+
+    if (request.template === "count_by") {
+      row.share = percent(Number(row.count), total);
+    }
+    if (request.template === "status_breakdown") {
+      const decided = Number(row.accepted) + Number(row.rejected);
+      row.acceptance_rate = percent(Number(row.accepted), decided);
+    }
+    if (request.template === "numeric_summary" && Array.isArray(values)) {
+      row.median = values.length ? median(values as number[]) : null;
+    }
+    return row;
+  });
+}
+
+const formatCell = (value: unknown): string => {
+  if (value === null || value === undefined) return "—";
+  let text: string;
+  if (typeof value === "number") {
+    text = Number.isInteger(value) ? String(value) : value.toFixed(2);
+  } else if (value instanceof Date) {
+    text = value.toISOString();
+  } else if (typeof value === "object") {
+    text = JSON.stringify(value);
+  } else {
+    text = String(value);
+  }
+  if (text.length > 80) text = `${text.slice(0, 77)}...`;
+  return text.replace(/\|/g, "\\|").replace(/\s*\n\s*/g, " ");
+};
+
+// GitHub-flavoured markdown table, columns in first-seen order
+export function toMarkdownTable(rows: Record<string, unknown>[]): string {
+  if (rows.length === 0) return "_no rows_";
+  const columns = [...new Set(rows.flatMap((row) => Object.keys(row)))];
+  const line = (cells: string[]) => `| ${cells.join(" | ")} |`;
+  return [
+    line(columns),
+    line(columns.map(() => "---")),
+    ...rows.map((row) => line(columns.map((c) => formatCell(row[c])))),
+  ].join("\n");
+}
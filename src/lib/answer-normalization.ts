@@ -0,0 +1,252 @@
+import type { IApplicantData } from "@/lib/models/session";
+
+/**
+ * Answer Normalization
+ *
+ * Validates applicant answers and rewrites them into one canonical shape
+ * before they're stored: lowercase emails, E.164 phone numbers, full GitHub
+ * and LinkedIn profile URLs, and weekly hours parsed out of time commitments.
+ *
+ * A failed check comes back with a `hint` telling the model exactly what to
+ * ask the user for, so it can retry instead of saving garbage. The onboarding
+ * registry wires these up per question - see normalizeAnswer there.
+ *
+ * This module is shared with the client, so keep it free of server imports.
+ */
+
+export type NormalizedAnswer =
+  | {
+      ok: true;
+      value: string;
+      extras?: Partial<IApplicantData>; // Derived fields stored alongside
+    }
+  | {
+      ok: false;
+      error: string; // What's wrong with the value
+      hint: string; // What to ask the user for instead
+    };
+
+export type AnswerNormalizer = (value: string) => NormalizedAnswer;
+
+// Country code assumed for local numbers - most applicants are in Ghana
+export const DEFAULT_COUNTRY_CODE = "233";
+
+// Ways people say they don't have / don't want to share an optional link,
+// including the suggestion buttons ("don't have one", "no portfolio yet")
+export const SKIP_PATTERN =
+  /^(skip( \w+)?|skipped|n\/a|na|none|nope|nah|no|-|later|not yet|nothing( yet)?|(i )?don'?t have( one| it| any)?|no \w+( yet)?|(will share|maybe) later|working on it|prefer not to (share|say))[.!]*$/i;
+
+const ok = (value: string, extras?: Partial<IApplicantData>) =>
+  ({ ok: true, value, extras } as const);
+
+const fail = (error: string, hint: string) =>
+  ({ ok: false, error, hint } as const);
+
+// Optional links can be skipped - stored as N/A
+const skippable =
+  (normalize: AnswerNormalizer): AnswerNormalizer =>
+  (value) =>
+    SKIP_PATTERN.test(value.trim()) ? ok("N/A") : normalize(value);
+
+export const normalizeEmail: AnswerNormalizer = (value) => {
+  const email = value
+    .trim()
+    .toLowerCase()
+    .replace(/^mailto:/, "");
+  const valid =
+    /^[a-z0-9.!#$%&'*+/=?^_`{|}~-]+@[a-z0-9](?:[a-z0-9-]*[a-z0-9])?(?:\.[a-z0-9](?:[a-z0-9-]*[a-z0-9])?)*\.[a-z]{2,}$/.test(
+      email
+    ) &&
+    !email.includes("..") &&
+    !/^\.|\.@/.test(email);
+
+  return valid
+    ? ok(email)
+    : fail(
+        "that doesn't look like an email address",
+        'Ask for a full email address like "name@example.com" - check for typos such as a missing @ or domain.'
+      );
+};
+
+export const normalizeSecretPhrase: AnswerNormalizer = (value) =>
+  value.trim().length >= 3
+    ? ok(value)
+    : fail(
+        "the secret phrase is too short",
+        "Ask them to pick a phrase of at least 3 characters - a few words they'll remember works best."
+      );
+
+// E.164: "+" then country code and subscriber number, 8-15 digits in total.
+// Local numbers ("024 123 4567" or "241234567") get the default country code.
+export const normalizeWhatsapp: AnswerNormalizer = (value) => {
+  const trimmed = value.trim();
+  let digits = trimmed.replace(/\D/g, "");
+  const hint = `Ask for the number with its country code, e.g. "+${DEFAULT_COUNTRY_CODE} 24 123 4567".`;
+
+  if (/[a-z]/i.test(trimmed.replace(/^(tel:|whatsapp:)/i, ""))) {
+    return fail("that doesn't look like a phone number", hint);
+  }
+
+  if (trimmed.startsWith("+")) {
+    // Already international
+  } else if (digits.startsWith("00")) {
+    digits = digits.slice(2);
+  } else if (digits.startsWith(DEFAULT_COUNTRY_CODE) && digits.length >= 12) {
+    // Country code typed without the +
+  } else if (digits.startsWith("0")) {
+    digits = DEFAULT_COUNTRY_CODE + digits.slice(1);
+  } else if (digits.length === 9) {
+    digits = DEFAULT_COUNTRY_CODE + digits;
+  } else {
+    return fail("the country code is missing", hint);
+  }
+
+  if (digits.length < 8 || digits.length > 15 || digits.startsWith("0")) {
+    return fail("that phone number has the wrong number of digits", hint);
+  }
+
+  return ok(`+${digits}`);
+};
+
+// GitHub usernames: letters, digits and single hyphens, at most 39 characters
+export const normalizeGithub: AnswerNormalizer = skippable((value) => {
+  const handle = value
+    .trim()
+    .replace(/^@/, "")
+    .replace(/^(https?:\/\/)?(www\.)?github\.com\//i, "")
+    .split(/[/?#]/)[0];
+
+  if (!/^[a-z0-9](?:[a-z0-9]|-(?=[a-z0-9])){0,38}$/i.test(handle)) {
+    return fail(
+      "that isn't a valid GitHub username",
+      'Ask for their GitHub username or profile link, e.g. "octocat" or "github.com/octocat" - or they can skip.'
+    );
+  }
+
+  return ok(`https://github.com/${handle.toLowerCase()}`);
+});
+
+// LinkedIn profile slugs live under /in/ - company pages aren't profiles
+export const normalizeLinkedin: AnswerNormalizer = skippable((value) => {
+  const trimmed = value.trim().replace(/^@/, "");
+  const isUrl = /linkedin\.com/i.test(trimmed);
+  const slug = isUrl
+    ? trimmed.match(/linkedin\.com\/(?:mwlite\/)?in\/([^/?#]+)/i)?.[1]
+    : trimmed;
+
+  if (!slug || !/^[\p{L}\p{N}-]{3,100}$/u.test(decodeSlug(slug))) {
+    return fail(
+      "that isn't a LinkedIn profile",
+      "Ask for their LinkedIn profile link (linkedin.com/in/their-name) or just the part after /in/ - or they can skip."
+    );
+  }
+
+  return ok(`https://linkedin.com/in/${slug.toLowerCase()}`);
+});
+
+function decodeSlug(slug: string): string {
+  try {
+    return decodeURIComponent(slug);
+  } catch {
+    return slug;
+  }
+}
+
+export const normalizePortfolio: AnswerNormalizer = skippable((value) => {
+  const trimmed = value.trim();
+  const withProtocol = /^https?:\/\//i.test(trimmed)
+    ? trimmed
+    : `https://${trimmed}`;
+
+  try {
+    const url = new URL(withProtocol);
+    if (url.hostname.includes(".") && !/\s/.test(trimmed)) {
+      return ok(url.toString().replace(/\/$/, ""));
+    }
+  } catch {
+    // Fall through to the hint
+  }
+
+  return fail(
+    "that isn't a website address",
+    'Ask for the full link to their portfolio, e.g. "kofi.dev" or "https://kofi.dev" - or they can skip.'
+  );
+});
+
+const WORD_NUMBERS: Record<string, number> = {
+  a: 1,
+  an: 1,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  twelve: 12,
+  fifteen: 15,
+  twenty: 20,
+  thirty: 30,
+  forty: 40,
+};
+
+// How many times a period fits into a week
+const PER_WEEK: Record<string, number> = {
+  day: 7,
+  daily: 7,
+  night: 7,
+  nightly: 7,
+  weekday: 5,
+  weekend: 2,
+  week: 1,
+  weekly: 1,
+  wk: 1,
+  month: 12 / 52,
+  monthly: 12 / 52,
+};
+
+/**
+ * Turn answers like "10 hours/week", "2hrs a day", "5-10 hours" or
+ * "three hours every weekday" into hours per week. Ranges use the midpoint
+ * and a missing period means per week. The question asks for hours, so a
+ * number without a unit ("10", "15+", "10 per week") counts as hours too.
+ * Returns null when there's no number to find.
+ */
+export function parseHoursPerWeek(value: string): number | null {
+  const text = value
+    .toLowerCase()
+    .replace(
+      new RegExp(`\\b(${Object.keys(WORD_NUMBERS).join("|")})\\b`, "g"),
+      (word) => String(WORD_NUMBERS[word])
+    );
+
+  const match =
+    text.match(
+      /(\d+(?:\.\d+)?)(?:\s*(?:-|–|to)\s*(\d+(?:\.\d+)?))?\s*\+?\s*(hours?|hrs?|h|minutes?|mins?)\b/
+    ) ||
+    // No unit - the first number, in hours
+    text.match(/(\d+(?:\.\d+)?)(?:\s*(?:-|–|to)\s*(\d+(?:\.\d+)?))?\s*\+?/);
+  if (!match) return null;
+
+  const low = parseFloat(match[1]);
+  const high = match[2] ? parseFloat(match[2]) : low;
+  let hours = (low + high) / 2;
+  if (match[3] && /^min/.test(match[3])) hours /= 60;
+
+  const rest = text.slice((match.index ?? 0) + match[0].length);
+  const period = rest.match(
+    /\b(day|daily|night|nightly|weekday|weekend|week|weekly|wk|month|monthly)s?\b/
+  )?.[1];
+  hours *= period ? PER_WEEK[period] : 1;
+
+  if (hours <= 0 || hours > 7 * 24) return null;
+  return Math.round(hours * 10) / 10;
+}
+
+// Keep the applicant's own words and store the parsed hours next to them.
+// Answers with no number still count - the hours are just left empty.
+export const normalizeTimeCommitment: AnswerNormalizer = (value) =>
+  ok(value.trim(), { time_commitment_hours: parseHoursPerWeek(value) });
@@ -0,0 +1,154 @@
+import type { Document } from "mongoose";
+import Applicant, {
+  type ApplicationStatus,
+  type IApplicant,
+} from "@/lib/models/applicant";
+
+/**
+ * Applicant Repository
+ *
+ * Shared queries over submitted applications for the admin tools. Everything
+ * goes straight to MongoDB with indexed, paginated queries, so results are
+ * current within a multi-turn tool loop and cost doesn't grow with the size
+ * of the intake. Callers connect to the database first.
+ */
+
+export const APPLICATION_STATUSES: ApplicationStatus[] = [
+  "pending",
+  "accepted",
+  "rejected",
+  "waitlisted",
+];
+
+// Submitted, not soft-deleted - what the dashboard counts as an application
+export const SUBMITTED_APPLICANTS = {
+  submitted_at: { $exists: true, $ne: null },
+  deleted_at: { $exists: false },
+};
+
+export const MAX_PAGE_SIZE = 50;
+
+// Never leaves the repository
+const HIDDEN_FIELDS = "-secret_phrase_hash -recovery_log";
+
+export type ApplicantRecord = Omit<
+  IApplicant,
+  keyof Document | "secret_phrase_hash" | "recovery_log"
+>;
+
+export type ApplicantListItem = Pick<
+  ApplicantRecord,
+  | "email"
+  | "name"
+  | "engineering_area"
+  | "skill_level"
+  | "application_status"
+  | "submitted_at"
+  | "rubric_score"
+>;
+
+const escapeRegex = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Older applications may not have a status yet - they count as pending
+const statusFilter = (status: ApplicationStatus) =>
+  status === "pending"
+    ? { application_status: { $in: ["pending", null] } }
+    : { application_status: status };
+
+/**
+ * One page of applications, newest first (or highest rubric score first),
+ * plus the total matching count. `search` matches name or email,
+ * case-insensitively.
+ */
+export async function listApplicants(
+  options: {
+    status?: ApplicationStatus;
+    search?: string;
+    limit?: number;
+    skip?: number;
+    sort?: "newest" | "score";
+  } = {}
+): Promise<{ applicants: ApplicantListItem[]; total: number }> {
+  const query: Record<string, unknown> = {
+    ...SUBMITTED_APPLICANTS,
+    ...(options.status ? statusFilter(options.status) : {}),
+  };
+  if (options.search?.trim()) {
+    const pattern = new RegExp(escapeRegex(options.search.trim()), "i");
+    query.$or = [{ name: pattern }, { email: pattern }];
+  }
+
+  const limit = Math.min(Math.max(options.limit ?? 15, 1), MAX_PAGE_SIZE);
+  const [applicants, total] = await Promise.all([
+    Applicant.find(query)
+      .select(
+        "email name engineering_area skill_level application_status submitted_at rubric_score"
+      )
+      .sort(
+        options.sort === "score"
+          ? { rubric_score: -1, submitted_at: -1 }
+          : { submitted_at: -1 }
+      )
+      .skip(Math.max(options.skip ?? 0, 0))
+      .limit(limit)
+      .lean<ApplicantListItem[]>(),
+    Applicant.countDocuments(query),
+  ]);
+  return { applicants, total };
+}
+
+// By exact email, or failing that the newest application whose name matches
+export async function findApplicant(lookup: {
+  email?: string;
+  name?: string;
+}): Promise<ApplicantRecord | null> {
+  if (lookup.email) {
+    return Applicant.findOne({
+      ...SUBMITTED_APPLICANTS,
+      email: lookup.email.trim().toLowerCase(),
+    })
+      .select(HIDDEN_FIELDS)
+      .lean<ApplicantRecord>();
+  }
+  if (lookup.name?.trim()) {
+    return Applicant.findOne({
+      ...SUBMITTED_APPLICANTS,
+      name: new RegExp(escapeRegex(lookup.name.trim()), "i"),
+    })
+      .select(HIDDEN_FIELDS)
+      .sort({ submitted_at: -1 })
+      .lean<ApplicantRecord>();
+  }
+  return null;
+}
+
+// Totals per status, counted in the database
+export async function countApplicantsByStatus(): Promise<
+  Record<ApplicationStatus | "total", number>
+> {
+  const groups = await Applicant.aggregate<{ _id: string; count: number }>([
+    { $match: SUBMITTED_APPLICANTS },
+    {
+      $group: {
+        _id: { $ifNull: ["$application_status", "pending"] },
+        count: { $sum: 1 },
+      },
+    },
+  ]);
+
+  const counts = {
+    total: 0,
+    pending: 0,
+    accepted: 0,
+    rejected: 0,
+    waitlisted: 0,
+  };
+  for (const group of groups) {
+    if (group._id in counts) {
+      counts[group._id as ApplicationStatus] = group.count;
+    }
+    counts.total += group.count;
+  }
+  return counts;
+}
@@ -0,0 +1,106 @@
+import AuditEvent, {
+  type AuditSource,
+  type IAuditActor,
+  type IAuditChange,
+  type IAuditTarget,
+} from "@/lib/models/audit-event";
+
+/**
+ * Audit Log
+ *
+ * Records who changed what, from where, in the append-only AuditEvent
+ * collection. Call recordAuditEvent after a change has been made; it works
+ * out a field-by-field diff from the before/after snapshots. Recording never
+ * throws - a failed audit write is logged but doesn't undo the change.
+ */
+
+// Never copied into the audit log
+const REDACTED_FIELDS = [
+  "secret_phrase",
+  "secret_phrase_hash",
+  "password_hash",
+  "totp_secret",
+  "totp_pending_secret",
+  "recovery_code_hashes",
+  "invite_token_hash",
+  "reset_token_hash",
+  "pending_login_code",
+];
+
+// Bookkeeping fields that change on every write and say nothing useful
+const IGNORED_FIELDS = ["_id", "__v", "updated_at", "created_at"];
+
+export interface AuditEventInput {
+  actor: IAuditActor;
+  action: string;
+  target: IAuditTarget;
+  source: AuditSource;
+  before?: object | null;
+  after?: object | null;
+  reason?: string;
+  metadata?: Record<string, unknown>;
+}
+
+// Plain JSON copy with secrets masked, safe to store
+export function redactForAudit(
+  value: object | null | undefined
+): Record<string, unknown> | undefined {
+  if (!value) return undefined;
+  const plain = JSON.parse(JSON.stringify(value)) as Record<string, unknown>;
+  const walk = (node: unknown) => {
+    if (!node || typeof node !== "object") return;
+    for (const [key, child] of Object.entries(node)) {
+      if (REDACTED_FIELDS.includes(key)) {
+        (node as Record<string, unknown>)[key] = "[REDACTED]";
+      } else {
+        walk(child);
+      }
+    }
+  };
+  walk(plain);
+  return plain;
+}
+
+// Top-level fields that differ between two snapshots
+export function diffSnapshots(
+  before: Record<string, unknown> | undefined,
+  after: Record<string, unknown> | undefined
+): IAuditChange[] {
+  const fields = new Set([
+    ...Object.keys(before || {}),
+    ...Object.keys(after || {}),
+  ]);
+  const changes: IAuditChange[] = [];
+  for (const field of fields) {
+    if (IGNORED_FIELDS.includes(field)) continue;
+    const from = before?.[field];
+    const to = after?.[field];
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes.push({ field, before: from, after: to });
+    }
+  }
+  return changes;
+}
+
+export async function recordAuditEvent(input: AuditEventInput): Promise<void> {
+  try {
+    const before = redactForAudit(input.before);
+    const after = redactForAudit(input.after);
+    await AuditEvent.create({
+      actor: input.actor,
+      action: input.action,
+      target: input.target,
+      source: input.source,
+      changes: diffSnapshots(before, after),
+      before,
+      after,
+      reason: input.reason,
+      metadata: input.metadata,
+    });
+  } catch (error) {
+    console.error(
+      `Failed to record audit event ${input.action} on ${input.target.id}:`,
+      error
+    );
+  }
+}
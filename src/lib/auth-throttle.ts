@@ -0,0 +1,264 @@
+import AuthThrottle from "@/lib/models/auth-throttle";
+
+/**
+ * Brute-force protection for secret phrase checks.
+ *
+ * Failures are counted per email and per client IP. After a few free tries
+ * each failure doubles the wait before the next attempt, and reaching the
+ * limit locks the subject out for a while. A lockout that has run out starts
+ * a fresh window: the count goes back to zero, so the free tries and the full
+ * limit apply again rather than the next miss re-locking at once. Counters
+ * are also forgotten a day after the last failure, and the email counter
+ * resets on a successful check.
+ *
+ * Other checks reuse it with their own key prefix in place of the email or IP
+ * (e.g. "recovery:<email>") and, where they need to, their own limits. Login
+ * code sends are counted the same way, as if every send were a failure.
+ */
+
+export interface ThrottleLimits {
+  freeFailures: number; // Failures allowed before backoff starts
+  baseDelayMs: number; // First backoff delay, doubled on each failure
+  maxDelayMs: number;
+  maxFailures: number; // Lock out once failures reach this
+  lockoutMs: number;
+}
+
+export const EMAIL_THROTTLE: ThrottleLimits = {
+  freeFailures: 2,
+  baseDelayMs: 5 * 1000,
+  maxDelayMs: 2 * 60 * 1000,
+  maxFailures: 5,
+  lockoutMs: 15 * 60 * 1000,
+};
+
+// One IP may legitimately serve many people (campus, office), so it gets more
+// room than a single email - it's there to stop one client spraying emails
+export const IP_THROTTLE: ThrottleLimits = {
+  freeFailures: 5,
+  baseDelayMs: 2 * 1000,
+  maxDelayMs: 60 * 1000,
+  maxFailures: 20,
+  lockoutMs: 30 * 60 * 1000,
+};
+
+// Wrong recovery answers per account. No backoff - a few honest misses are
+// expected - but the cap holds across restarted recoveries for an hour.
+export const RECOVERY_THROTTLE: ThrottleLimits = {
+  freeFailures: 5,
+  baseDelayMs: 0,
+  maxDelayMs: 0,
+  maxFailures: 5,
+  lockoutMs: 60 * 60 * 1000,
+};
+
+// Emailed login codes sent, per address. Every send counts, so the wait
+// between resends starts at a minute and doubles until the address locks.
+export const LOGIN_CODE_SEND_THROTTLE: ThrottleLimits = {
+  freeFailures: 0,
+  baseDelayMs: 60 * 1000,
+  maxDelayMs: 15 * 60 * 1000,
+  maxFailures: 5,
+  lockoutMs: 60 * 60 * 1000,
+};
+
+// Login codes sent from one client, to any address - stops mail flooding
+export const LOGIN_CODE_SEND_IP_THROTTLE: ThrottleLimits = {
+  freeFailures: 3,
+  baseDelayMs: 30 * 1000,
+  maxDelayMs: 5 * 60 * 1000,
+  maxFailures: 20,
+  lockoutMs: 60 * 60 * 1000,
+};
+
+const FORGET_AFTER_MS = 24 * 60 * 60 * 1000;
+
+export interface ThrottleSubjects {
+  email?: string;
+  ip?: string;
+}
+
+export type ThrottleCheck =
+  | { allowed: true }
+  | {
+      allowed: false;
+      reason: "locked" | "backoff";
+      subject: "email" | "ip";
+      retryAfterSeconds: number;
+    };
+
+// Limits to count failures against, when not the defaults above
+export interface ThrottleLimitOverrides {
+  email?: ThrottleLimits;
+  ip?: ThrottleLimits;
+}
+
+export interface FailureResult {
+  failures: number; // Failures for this email so far
+  attemptsRemaining: number; // Before the email is locked out
+  lockedUntil?: Date;
+  retryAfterSeconds: number; // Wait before the next attempt (0 if none)
+}
+
+/**
+ * Client IP to throttle by. Everything in X-Forwarded-For before the last hop
+ * comes from the client and can be changed at will, so only the entry our
+ * proxy appended is used. Falls back to x-real-ip for setups that only set
+ * that. Without a proxy in front both are client-controlled - the email key
+ * still applies.
+ */
+export function getClientIp(headers: Headers): string | undefined {
+  const forwarded = (headers.get("x-forwarded-for") || "")
+    .split(",")
+    .map((hop) => hop.trim())
+    .filter(Boolean);
+  return (
+    forwarded[forwarded.length - 1] ||
+    headers.get("x-real-ip")?.trim() ||
+    undefined
+  );
+}
+
+function subjectKeys(
+  subjects: ThrottleSubjects,
+  overrides: ThrottleLimitOverrides = {}
+) {
+  const keys: {
+    subject: "email" | "ip";
+    key: string;
+    limits: ThrottleLimits;
+  }[] = [];
+  if (subjects.email) {
+    keys.push({
+      subject: "email",
+      key: `email:${subjects.email.toLowerCase().trim()}`,
+      limits: overrides.email || EMAIL_THROTTLE,
+    });
+  }
+  if (subjects.ip) {
+    keys.push({
+      subject: "ip",
+      key: `ip:${subjects.ip}`,
+      limits: overrides.ip || IP_THROTTLE,
+    });
+  }
+  return keys;
+}
+
+function backoffMs(failures: number, limits: ThrottleLimits): number {
+  if (failures <= limits.freeFailures) return 0;
+  return Math.min(
+    limits.baseDelayMs * 2 ** (failures - limits.freeFailures - 1),
+    limits.maxDelayMs
+  );
+}
+
+const secondsUntil = (date: Date, now: Date) =>
+  Math.max(1, Math.ceil((date.getTime() - now.getTime()) / 1000));
+
+// Whether an attempt may be made right now
+export async function checkThrottle(
+  subjects: ThrottleSubjects
+): Promise<ThrottleCheck> {
+  const now = new Date();
+
+  for (const { subject, key } of subjectKeys(subjects)) {
+    const record = await AuthThrottle.findOne({ key }).lean();
+    if (!record) continue;
+
+    if (record.locked_until && record.locked_until > now) {
+      return {
+        allowed: false,
+        reason: "locked",
+        subject,
+        retryAfterSeconds: secondsUntil(record.locked_until, now),
+      };
+    }
+    if (record.next_attempt_at && record.next_attempt_at > now) {
+      return {
+        allowed: false,
+        reason: "backoff",
+        subject,
+        retryAfterSeconds: secondsUntil(record.next_attempt_at, now),
+      };
+    }
+  }
+
+  return { allowed: true };
+}
+
+// Count a failed attempt against every subject and apply backoff / lockout
+export async function recordThrottleFailure(
+  subjects: ThrottleSubjects,
+  overrides: ThrottleLimitOverrides = {}
+): Promise<FailureResult> {
+  const now = new Date();
+  let result: FailureResult = {
+    failures: 0,
+    attemptsRemaining: (overrides.email || EMAIL_THROTTLE).maxFailures,
+    retryAfterSeconds: 0,
+  };
+
+  for (const { subject, key, limits } of subjectKeys(subjects, overrides)) {
+    // The last lockout is over - this failure opens a new window
+    await AuthThrottle.updateOne(
+      { key, locked_until: { $lte: now } },
+      {
+        $set: { failures: 0 },
+        $unset: { locked_until: 1, next_attempt_at: 1 },
+      }
+    );
+
+    const record = await AuthThrottle.findOneAndUpdate(
+      { key },
+      {
+        $inc: { failures: 1 },
+        $set: {
+          last_failure_at: now,
+          expires_at: new Date(now.getTime() + FORGET_AFTER_MS),
+        },
+      },
+      { upsert: true, new: true }
+    );
+
+    const failures = record.failures;
+    const delay = backoffMs(failures, limits);
+    const lockedUntil =
+      failures >= limits.maxFailures
+        ? new Date(now.getTime() + limits.lockoutMs)
+        : undefined;
+
+    await AuthThrottle.updateOne(
+      { key },
+      {
+        $set: {
+          next_attempt_at: new Date(now.getTime() + delay),
+          ...(lockedUntil ? { locked_until: lockedUntil } : {}),
+        },
+      }
+    );
+
+    if (lockedUntil) {
+      console.warn(`🔒 ${key} locked out after ${failures} failed attempts`);
+    }
+
+    if (subject === "email") {
+      result = {
+        failures,
+        attemptsRemaining: Math.max(0, limits.maxFailures - failures),
+        lockedUntil,
+        retryAfterSeconds: lockedUntil
+          ? secondsUntil(lockedUntil, now)
+          : Math.ceil(delay / 1000),
+      };
+    }
+  }
+
+  return result;
+}
+
+// A successful check clears the email's counter. The IP counter is left to
+// expire so one good login can't reset a spray across other emails.
+export async function clearThrottle(email: string): Promise<void> {
+  await AuthThrottle.deleteOne({ key: `email:${email.toLowerCase().trim()}` });
+}
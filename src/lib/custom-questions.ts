@@ -0,0 +1,36 @@
+import CustomQuestion from "@/lib/models/custom-question";
+import type { IPendingCustomQuestion } from "@/lib/models/session";
+
+// Active custom questions in the order they should be asked
+export async function getActiveCustomQuestions(): Promise<
+  IPendingCustomQuestion[]
+> {
+  const questions = await CustomQuestion.find({ active: true })
+    .sort({ order: 1, created_at: 1 })
+    .lean();
+
+  return questions.map((q) => ({
+    key: q.key,
+    label: q.label,
+    prompt: q.prompt,
+    required: q.required,
+    suggestions: q.suggestions || [],
+  }));
+}
+
+// First active question the applicant hasn't answered yet
+export function findNextCustomQuestion(
+  questions: IPendingCustomQuestion[],
+  answers: Record<string, string> = {}
+): IPendingCustomQuestion | undefined {
+  return questions.find((q) => !answers[q.key]?.trim());
+}
+
+// "Do you have a laptop?" -> "do_you_have_a_laptop"
+export function toCustomQuestionKey(label: string): string {
+  return label
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "")
+    .slice(0, 40);
+}
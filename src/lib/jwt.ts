@@ -5,15 +5,60 @@ const JWT_SECRET =
   "mentorship-platform-secret-key-change-in-production";
 const JWT_EXPIRY = "2h"; // 2 hours
 
+// Admin tokens are signed with their own secret so a leaked chat secret can't
+// mint admin access. Falls back to a key derived from JWT_SECRET in dev.
+const ADMIN_JWT_SECRET = process.env.ADMIN_JWT_SECRET || `${JWT_SECRET}:admin`;
+const ADMIN_JWT_EXPIRY = "8h"; // One working day
+// Between a correct password and the second factor
+const ADMIN_MFA_EXPIRY = "5m";
+
+export type TokenRole = "applicant" | "admin";
+
+// Each route family only accepts tokens minted for it
+export const TOKEN_AUDIENCE = {
+  chat: "zuckies:chat",
+  admin: "zuckies:admin",
+  adminMfa: "zuckies:admin-mfa",
+} as const;
+
+export const APPLICANT_SCOPES = ["chat"] as const;
+
+export const ADMIN_SCOPES = [
+  "applications:read",
+  "applications:write",
+  "feedback:read",
+  "questions:read",
+  "questions:write",
+  "support:chat",
+  "admins:manage",
+  "account:security",
+  "audit:read",
+] as const;
+
+export type ApplicantScope = (typeof APPLICANT_SCOPES)[number];
+export type AdminScope = (typeof ADMIN_SCOPES)[number];
+
 export interface JWTPayload {
   email: string;
   sessionId: string;
+  role: "applicant";
+  scopes: ApplicantScope[];
+  aud?: string;
+  iat?: number;
+  exp?: number;
+}
+
+export interface AdminJWTPayload {
+  sub: string; // Admin username
+  role: "admin";
+  scopes: AdminScope[];
+  aud?: string;
   iat?: number;
   exp?: number;
 }
 
 /**
- * Sign a JWT token with email and sessionId
+ * Sign an applicant (chat) token with email and sessionId
  */
 export function signToken(payload: {
   email: string;
@@ -23,26 +68,98 @@ export function signToken(payload: {
     {
       email: payload.email,
       sessionId: payload.sessionId,
+      role: "applicant",
+      scopes: [...APPLICANT_SCOPES],
     },
     JWT_SECRET,
-    { expiresIn: JWT_EXPIRY }
+    { expiresIn: JWT_EXPIRY, audience: TOKEN_AUDIENCE.chat }
   );
 }
 
 /**
- * Verify and decode a JWT token
- * Returns null if token is invalid or expired
+ * Verify and decode an applicant (chat) token
+ * Returns null if token is invalid, expired or not an applicant token
  */
 export function verifyToken(token: string): JWTPayload | null {
   try {
-    const decoded = jwt.verify(token, JWT_SECRET) as JWTPayload;
-    return decoded;
+    const decoded = jwt.verify(token, JWT_SECRET, {
+      audience: TOKEN_AUDIENCE.chat,
+    }) as JWTPayload;
+    return decoded.role === "applicant" ? decoded : null;
   } catch (error) {
     console.error("JWT verification failed:", error);
     return null;
   }
 }
 
+/**
+ * Sign an admin token with the scopes of the admin's role
+ */
+export function signAdminToken(payload: {
+  username: string;
+  scopes: AdminScope[];
+}): string {
+  return jwt.sign(
+    {
+      role: "admin",
+      scopes: payload.scopes,
+    },
+    ADMIN_JWT_SECRET,
+    {
+      subject: payload.username,
+      expiresIn: ADMIN_JWT_EXPIRY,
+      audience: TOKEN_AUDIENCE.admin,
+    }
+  );
+}
+
+/**
+ * Verify and decode an admin token
+ * Returns null if token is invalid, expired or not an admin token
+ */
+export function verifyAdminToken(token: string): AdminJWTPayload | null {
+  try {
+    const decoded = jwt.verify(token, ADMIN_JWT_SECRET, {
+      audience: TOKEN_AUDIENCE.admin,
+    }) as AdminJWTPayload;
+    if (decoded.role !== "admin" || !Array.isArray(decoded.scopes)) {
+      return null;
+    }
+    return decoded;
+  } catch (error) {
+    console.error("Admin JWT verification failed:", error);
+    return null;
+  }
+}
+
+/**
+ * Sign the short-lived token that proves an admin got their password right
+ * and may now send their two-factor code. It can't call any admin API.
+ */
+export function signAdminMfaToken(username: string): string {
+  return jwt.sign({ role: "admin", step: "mfa" }, ADMIN_JWT_SECRET, {
+    subject: username,
+    expiresIn: ADMIN_MFA_EXPIRY,
+    audience: TOKEN_AUDIENCE.adminMfa,
+  });
+}
+
+/**
+ * Verify a two-factor login token
+ * Returns the admin's username, or null if invalid or expired
+ */
+export function verifyAdminMfaToken(token: string): string | null {
+  try {
+    const decoded = jwt.verify(token, ADMIN_JWT_SECRET, {
+      audience: TOKEN_AUDIENCE.adminMfa,
+    }) as jwt.JwtPayload;
+    return decoded.step === "mfa" && decoded.sub ? decoded.sub : null;
+  } catch (error) {
+    console.error("Admin MFA token verification failed:", error);
+    return null;
+  }
+}
+
 /**
  * Decode a JWT token without verification (for debugging)
  */
@@ -0,0 +1,155 @@
+import net from "net";
+import tls from "tls";
+
+/**
+ * Mailer
+ *
+ * Sends transactional email (login codes) through a pluggable transport,
+ * picked with MAIL_TRANSPORT:
+ * - smtp: any SMTP server. In dev, point it at a local catcher such as
+ *   Mailpit or MailHog (SMTP_HOST=localhost, SMTP_PORT=1025).
+ * - console: prints the message to the server log instead of sending it.
+ *   Never used in production unless asked for explicitly.
+ *
+ * Without MAIL_TRANSPORT, smtp is used when SMTP_HOST is set, console in dev,
+ * and sending fails in production.
+ */
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface Mailer {
+  name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+const MAIL_FROM = process.env.MAIL_FROM || "zuckies <no-reply@localhost>";
+const SMTP_TIMEOUT_MS = 10000;
+
+const consoleMailer: Mailer = {
+  name: "console",
+  async send(message) {
+    console.log(
+      `📧 [console mailer] to: ${message.to}\nsubject: ${message.subject}\n\n${message.text}`
+    );
+  },
+};
+
+// Address part of "Name <addr>" for the SMTP envelope
+const envelopeAddress = (address: string) =>
+  address.match(/<([^>]+)>/)?.[1] || address.trim();
+
+/**
+ * Minimal SMTP client - enough for a single plain-text message. Supports
+ * implicit TLS (SMTP_SECURE=true, usually port 465) and AUTH PLAIN.
+ */
+function createSmtpMailer(): Mailer {
+  const host = process.env.SMTP_HOST || "localhost";
+  const port = Number(process.env.SMTP_PORT) || 1025;
+  const secure = process.env.SMTP_SECURE === "true";
+  const user = process.env.SMTP_USER;
+  const pass = process.env.SMTP_PASS;
+
+  return {
+    name: "smtp",
+    send: (message) =>
+      new Promise<void>((resolve, reject) => {
+        const socket = secure
+          ? tls.connect({ host, port, servername: host })
+          : net.connect({ host, port });
+        socket.setEncoding("utf8");
+        socket.setTimeout(SMTP_TIMEOUT_MS, () =>
+          socket.destroy(new Error("SMTP timed out"))
+        );
+
+        let buffer = "";
+        let waiting: ((reply: string) => void) | null = null;
+
+        // Replies can span lines ("250-..."); the last line has a space
+        socket.on("data", (chunk: string) => {
+          buffer += chunk;
+          const lines = buffer.split("\r\n");
+          const last = lines.slice(0, -1).find((line) => /^\d{3} /.test(line));
+          if (last && waiting) {
+            buffer = "";
+            const done = waiting;
+            waiting = null;
+            done(last);
+          }
+        });
+        socket.on("error", reject);
+
+        const reply = () =>
+          new Promise<string>((res) => {
+            waiting = res;
+          });
+        const command = async (line: string | null, expect: number) => {
+          const pending = reply();
+          if (line !== null) socket.write(`${line}\r\n`);
+          const response = await pending;
+          if (!response.startsWith(String(expect))) {
+            throw new Error(`SMTP ${line?.split(" ")[0]} failed: ${response}`);
+          }
+        };
+
+        const body = [
+          `From: ${MAIL_FROM}`,
+          `To: ${message.to}`,
+          `Subject: ${message.subject}`,
+          `Date: ${new Date().toUTCString()}`,
+          "MIME-Version: 1.0",
+          "Content-Type: text/plain; charset=utf-8",
+          "",
+          // Dot-stuffing so a line starting with "." isn't read as the end
+          ...message.text.split(/\r?\n/).map((l) => l.replace(/^\./, "..")),
+        ].join("\r\n");
+
+        (async () => {
+          await command(null, 220);
+          await command("EHLO localhost", 250);
+          if (user && pass) {
+            const token = Buffer.from(`\0${user}\0${pass}`).toString("base64");
+            await command(`AUTH PLAIN ${token}`, 235);
+          }
+          await command(`MAIL FROM:<${envelopeAddress(MAIL_FROM)}>`, 250);
+          await command(`RCPT TO:<${envelopeAddress(message.to)}>`, 250);
+          await command("DATA", 354);
+          await command(`${body}\r\n.`, 250);
+          socket.end("QUIT\r\n");
+        })().then(resolve, (err) => {
+          socket.destroy();
+          reject(err);
+        });
+      }),
+  };
+}
+
+export function getMailer(): Mailer {
+  const transport =
+    process.env.MAIL_TRANSPORT ||
+    (process.env.SMTP_HOST
+      ? "smtp"
+      : process.env.NODE_ENV !== "production"
+      ? "console"
+      : undefined);
+
+  switch (transport) {
+    case "smtp":
+      return createSmtpMailer();
+    case "console":
+      return consoleMailer;
+    default:
+      throw new Error(
+        "No mail transport configured - set SMTP_HOST or MAIL_TRANSPORT"
+      );
+  }
+}
+
+export async function sendMail(message: MailMessage): Promise<void> {
+  const mailer = getMailer();
+  await mailer.send(message);
+  console.log(`📧 Sent "${message.subject}" via ${mailer.name}`);
+}
@@ -0,0 +1,71 @@
+import type mongoose from "mongoose";
+
+/**
+ * Data Migrations
+ *
+ * Small, idempotent fixes to stored documents, run once per process right
+ * after connecting (see connectDB). Each one only matches documents still in
+ * the old shape, so running it again is a cheap no-op. They use the raw
+ * collections because the old fields are no longer in the schemas.
+ */
+
+// Older applications kept reviewer notes in review_notes, which was also
+// copied into the applicant's chat session. Move them to internal_notes and
+// drop the copies sessions picked up.
+async function migrateReviewNotes(db: mongoose.Connection) {
+  const hasText = (field: string) => ({
+    $gt: [{ $strLenCP: { $ifNull: [field, ""] } }, 0],
+  });
+  const applicants = await db
+    .collection("applicants")
+    .updateMany({ review_notes: { $exists: true } }, [
+      {
+        $set: {
+          internal_notes: {
+            $switch: {
+              branches: [
+                // Nothing to move - leave internal_notes as it is
+                {
+                  case: { $not: [hasText("$review_notes")] },
+                  then: "$internal_notes",
+                },
+                {
+                  case: hasText("$internal_notes"),
+                  then: {
+                    $concat: ["$internal_notes", "\n\n", "$review_notes"],
+                  },
+                },
+              ],
+              default: "$review_notes",
+            },
+          },
+        },
+      },
+      { $unset: "review_notes" },
+    ]);
+  const sessions = await db
+    .collection("sessions")
+    .updateMany(
+      { "applicant_data.review_notes": { $exists: true } },
+      { $unset: { "applicant_data.review_notes": "" } }
+    );
+
+  if (applicants.modifiedCount || sessions.modifiedCount) {
+    console.log(
+      `Migrated review notes: ${applicants.modifiedCount} applicants, ${sessions.modifiedCount} sessions cleared`
+    );
+  }
+}
+
+const MIGRATIONS = [migrateReviewNotes];
+
+// Never throws - a failed migration is logged and retried next process
+export async function runMigrations(db: mongoose.Connection): Promise<void> {
+  for (const migration of MIGRATIONS) {
+    try {
+      await migration(db);
+    } catch (error) {
+      console.error(`Migration ${migration.name} failed:`, error);
+    }
+  }
+}
@@ -5,6 +5,7 @@ export interface IAdminMessage {
   role: "admin" | "assistant";
   content: string;
   timestamp: Date;
+  provider?: string; // Model that generated an assistant message
 }
 
 // Saved notes/memory for the admin assistant
@@ -15,12 +16,25 @@ export interface IAdminNote {
   updated_at: Date;
 }
 
+// Write waiting for the admin to confirm its operation_id - a big query_db
+// update/delete or a batch of review decisions
+export interface IPendingDbOperation {
+  operation_id: string;
+  fingerprint: string; // Hash of operation, collection, filter and update
+  operation: "update" | "delete" | "status_batch";
+  collection: string;
+  matched_count: number;
+  created_at: Date;
+  expires_at: Date;
+}
+
 // Admin session interface
 export interface IAdminSession extends Document {
   admin_id: string; // Admin username or identifier
   session_id: string; // Unique session ID
   messages: IAdminMessage[];
   notes: IAdminNote[]; // Saved memories/notes
+  pending_operations: IPendingDbOperation[];
   created_at: Date;
   updated_at: Date;
 }
@@ -35,6 +49,7 @@ const AdminSessionSchema = new Schema<IAdminSession>(
         role: { type: String, enum: ["admin", "assistant"], required: true },
         content: { type: String, required: true },
         timestamp: { type: Date, default: Date.now },
+        provider: String,
       },
     ],
     notes: [
@@ -45,6 +60,22 @@ const AdminSessionSchema = new Schema<IAdminSession>(
         updated_at: { type: Date, default: Date.now },
       },
     ],
+    pending_operations: [
+      {
+        _id: false,
+        operation_id: { type: String, required: true },
+        fingerprint: { type: String, required: true },
+        operation: {
+          type: String,
+          enum: ["update", "delete", "status_batch"],
+          required: true,
+        },
+        collection: { type: String, required: true },
+        matched_count: { type: Number, required: true },
+        created_at: { type: Date, default: Date.now },
+        expires_at: { type: Date, required: true },
+      },
+    ],
   },
   {
     timestamps: { createdAt: "created_at", updatedAt: "updated_at" },
@@ -0,0 +1,101 @@
+import mongoose, { Schema, Document, Model } from "mongoose";
+
+export const ADMIN_ROLES = ["owner", "reviewer", "read_only"] as const;
+export type AdminRole = (typeof ADMIN_ROLES)[number];
+
+// invited: has an invite link but no password yet
+export type AdminStatus = "invited" | "active" | "disabled";
+
+// A dashboard account. Passwords and invite/reset tokens are only ever
+// stored hashed (see src/lib/admin-accounts.ts).
+export interface IAdmin extends Document {
+  username: string; // Login name, lowercase
+  display_name?: string;
+  email?: string;
+  role: AdminRole;
+  status: AdminStatus;
+  password_hash?: string;
+  invite_token_hash?: string;
+  invite_expires_at?: Date;
+  reset_token_hash?: string;
+  reset_expires_at?: Date;
+  invited_by?: string; // Username of the owner who invited them
+  last_login_at?: Date;
+  // Two-factor login (see src/lib/admin-mfa.ts). Secrets are encrypted.
+  totp_enabled: boolean;
+  totp_secret?: string;
+  totp_pending_secret?: string; // Set while enrolling, until the first code
+  totp_last_counter?: number; // Last accepted time step - stops replays
+  recovery_code_hashes: string[];
+  created_at: Date;
+  updated_at: Date;
+}
+
+const AdminSchema = new Schema<IAdmin>(
+  {
+    username: {
+      type: String,
+      required: true,
+      unique: true,
+      lowercase: true,
+      trim: true,
+    },
+    display_name: String,
+    email: {
+      type: String,
+      lowercase: true,
+      trim: true,
+    },
+    role: {
+      type: String,
+      enum: ADMIN_ROLES,
+      default: "reviewer",
+    },
+    status: {
+      type: String,
+      enum: ["invited", "active", "disabled"],
+      default: "invited",
+    },
+    password_hash: String,
+    invite_token_hash: String,
+    invite_expires_at: Date,
+    reset_token_hash: String,
+    reset_expires_at: Date,
+    invited_by: String,
+    last_login_at: Date,
+    totp_enabled: {
+      type: Boolean,
+      default: false,
+    },
+    totp_secret: String,
+    totp_pending_secret: String,
+    totp_last_counter: Number,
+    recovery_code_hashes: {
+      type: [String],
+      default: [],
+    },
+    created_at: {
+      type: Date,
+      default: Date.now,
+    },
+    updated_at: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  {
+    timestamps: { createdAt: "created_at", updatedAt: "updated_at" },
+  }
+);
+
+AdminSchema.index({ invite_token_hash: 1 }, { sparse: true });
+AdminSchema.index({ reset_token_hash: 1 }, { sparse: true });
+
+// Delete cached model if it exists
+if (mongoose.models.Admin) {
+  delete mongoose.models.Admin;
+}
+
+const Admin: Model<IAdmin> = mongoose.model<IAdmin>("Admin", AdminSchema);
+
+export default Admin;
@@ -1,5 +1,12 @@
 import mongoose, { Schema, Document, Model } from "mongoose";
 
+// One verify_recovery_answer outcome, kept for admins
+export interface IRecoveryLogEntry {
+  field: string;
+  outcome: "match" | "mismatch" | "unavailable" | "locked";
+  at: Date;
+}
+
 // Application status type
 export type ApplicationStatus =
   | "pending"
@@ -7,6 +14,46 @@ export type ApplicationStatus =
   | "rejected"
   | "waitlisted";
 
+// One status decision. Undoing it marks it undone rather than removing it.
+export interface IStatusHistoryEntry {
+  from: ApplicationStatus;
+  to: ApplicationStatus;
+  actor: string; // Admin username
+  notes?: string; // Internal notes given with the decision
+  timestamp: Date;
+  undone_at?: Date;
+  undone_by?: string;
+}
+
+// One reviewer's rubric scores (see lib/rubric)
+export interface IRubricScore {
+  criterion: string; // RubricCriterion key
+  score: number; // 1-5
+  note?: string;
+}
+
+export interface IRubricScorecard {
+  reviewer: string; // Admin username
+  scores: IRubricScore[];
+  from_proposal: boolean; // Started from the assistant's proposal
+  scored_at: Date;
+}
+
+// The admin assistant's suggested scores, each backed by a quote
+export interface IRubricProposedScore {
+  criterion: string;
+  score: number;
+  quote: string; // Verbatim from the applicant's answers
+  source_field: string; // Where the quote was found
+  justification: string;
+}
+
+export interface IRubricProposal {
+  requested_by: string; // Admin who asked the assistant
+  scores: IRubricProposedScore[];
+  created_at: Date;
+}
+
 // Applicant document interface - standalone model for application data
 export interface IApplicant extends Document {
   email: string; // Primary identifier - unique and immutable
@@ -14,6 +61,7 @@ export interface IApplicant extends Document {
   name?: string;
   whatsapp?: string;
   engineering_area?: string;
+  mobile_platform?: string; // Only asked when engineering_area is mobile
   skill_level?: string;
   improvement_goals?: string;
   career_goals?: string;
@@ -22,18 +70,31 @@ export interface IApplicant extends Document {
   portfolio?: string;
   projects?: string;
   time_commitment?: string;
+  time_commitment_hours?: number | null; // Parsed from time_commitment (null if unclear)
   learning_style?: string;
   tech_focus?: string;
   success_definition?: string;
+  answers?: Record<string, string>; // Custom question answers by key
   // Application status
   submitted_at?: string;
   application_status: ApplicationStatus;
-  review_notes?: string;
+  internal_notes?: string; // Reviewers only - never shown to the applicant
+  applicant_feedback?: string; // Decision feedback meant for the applicant
   reviewed_at?: string;
   reviewed_by?: string;
+  status_history: IStatusHistoryEntry[]; // Oldest first
+  rubric_scores: IRubricScorecard[]; // One per reviewer
+  rubric_score?: number; // Mean of the reviewers' average scores
+  rubric_proposal?: IRubricProposal;
   // Recovery tracking
   recovery_attempts: number;
   last_recovery_attempt?: Date;
+  recovery_log: IRecoveryLogEntry[]; // Most recent last, capped
+  // Secret phrase brute-force tracking (see lib/auth-throttle)
+  failed_phrase_attempts: number;
+  last_failed_phrase_attempt?: Date;
+  phrase_locked_until?: Date;
+  deleted_at?: Date; // Soft delete from the admin assistant
   // Timestamps
   created_at: Date;
   updated_at: Date;
@@ -53,6 +114,13 @@ export const VERIFIABLE_FIELDS = [
 // Minimum verification score needed (weighted)
 export const MIN_VERIFICATION_SCORE = 5;
 
+const STATUS_VALUES: ApplicationStatus[] = [
+  "pending",
+  "accepted",
+  "rejected",
+  "waitlisted",
+];
+
 const ApplicantSchema = new Schema<IApplicant>(
   {
     email: {
@@ -70,6 +138,7 @@ const ApplicantSchema = new Schema<IApplicant>(
     name: String,
     whatsapp: String,
     engineering_area: String,
+    mobile_platform: String,
     skill_level: String,
     improvement_goals: String,
     career_goals: String,
@@ -78,23 +147,105 @@ const ApplicantSchema = new Schema<IApplicant>(
     portfolio: String,
     projects: String,
     time_commitment: String,
+    time_commitment_hours: Number,
     learning_style: String,
     tech_focus: String,
     success_definition: String,
+    answers: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
     submitted_at: String,
     application_status: {
       type: String,
-      enum: ["pending", "accepted", "rejected", "waitlisted"],
+      enum: STATUS_VALUES,
       default: "pending",
     },
-    review_notes: String,
+    internal_notes: String,
+    applicant_feedback: String,
     reviewed_at: String,
     reviewed_by: String,
+    status_history: {
+      type: [
+        {
+          _id: false,
+          from: { type: String, enum: STATUS_VALUES },
+          to: { type: String, enum: STATUS_VALUES },
+          actor: String,
+          notes: String,
+          timestamp: { type: Date, default: Date.now },
+          undone_at: Date,
+          undone_by: String,
+        },
+      ],
+      default: [],
+    },
+    rubric_scores: {
+      type: [
+        {
+          _id: false,
+          reviewer: String,
+          scores: [
+            {
+              _id: false,
+              criterion: String,
+              score: { type: Number, min: 1, max: 5 },
+              note: String,
+            },
+          ],
+          from_proposal: { type: Boolean, default: false },
+          scored_at: { type: Date, default: Date.now },
+        },
+      ],
+      default: [],
+    },
+    rubric_score: Number,
+    rubric_proposal: {
+      type: new Schema(
+        {
+          requested_by: String,
+          scores: [
+            {
+              _id: false,
+              criterion: String,
+              score: { type: Number, min: 1, max: 5 },
+              quote: String,
+              source_field: String,
+              justification: String,
+            },
+          ],
+          created_at: { type: Date, default: Date.now },
+        },
+        { _id: false }
+      ),
+      default: undefined,
+    },
     recovery_attempts: {
       type: Number,
       default: 0,
     },
     last_recovery_attempt: Date,
+    recovery_log: {
+      type: [
+        {
+          _id: false,
+          field: String,
+          outcome: {
+            type: String,
+            enum: ["match", "mismatch", "unavailable", "locked"],
+          },
+          at: { type: Date, default: Date.now },
+        },
+      ],
+      default: [],
+    },
+    failed_phrase_attempts: {
+      type: Number,
+      default: 0,
+    },
+    last_failed_phrase_attempt: Date,
+    phrase_locked_until: Date,
+    deleted_at: Date,
     created_at: {
       type: Date,
       default: Date.now,
@@ -113,6 +264,11 @@ const ApplicantSchema = new Schema<IApplicant>(
 ApplicantSchema.index({ github: 1 }, { sparse: true });
 ApplicantSchema.index({ linkedin: 1 }, { sparse: true });
 
+// Admin listings: newest submissions first, optionally by status
+ApplicantSchema.index({ submitted_at: -1 });
+ApplicantSchema.index({ application_status: 1, submitted_at: -1 });
+ApplicantSchema.index({ rubric_score: -1, submitted_at: -1 });
+
 // Delete cached model if it exists
 if (mongoose.models.Applicant) {
   delete mongoose.models.Applicant;
@@ -0,0 +1,115 @@
+import mongoose, { Schema, Document, Model } from "mongoose";
+
+export const AUDIT_SOURCES = ["ui", "admin_ai", "applicant_ai"] as const;
+export type AuditSource = (typeof AUDIT_SOURCES)[number];
+
+export interface IAuditActor {
+  type: "admin" | "applicant" | "system";
+  id: string; // Admin username or applicant email
+}
+
+export interface IAuditTarget {
+  type: string; // "applicant", "feedback", "session", "admin"
+  id: string; // Email, username or document id
+}
+
+export interface IAuditChange {
+  field: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+// One thing that happened. Events are only ever inserted - updates and
+// deletes are refused at the model level.
+export interface IAuditEvent extends Document {
+  actor: IAuditActor;
+  action: string; // e.g. "application.status_changed", "db.update"
+  target: IAuditTarget;
+  source: AuditSource;
+  changes: IAuditChange[];
+  before?: Record<string, unknown>;
+  after?: Record<string, unknown>;
+  reason?: string; // Why, when the actor said (review notes, tool input)
+  metadata?: Record<string, unknown>;
+  created_at: Date;
+}
+
+const AuditEventSchema = new Schema<IAuditEvent>(
+  {
+    actor: {
+      type: { type: String, enum: ["admin", "applicant", "system"] },
+      id: String,
+    },
+    action: {
+      type: String,
+      required: true,
+    },
+    target: {
+      type: { type: String },
+      id: String,
+    },
+    source: {
+      type: String,
+      enum: AUDIT_SOURCES,
+      required: true,
+    },
+    changes: [
+      {
+        _id: false,
+        field: String,
+        before: Schema.Types.Mixed,
+        after: Schema.Types.Mixed,
+      },
+    ],
+    before: Schema.Types.Mixed,
+    after: Schema.Types.Mixed,
+    reason: String,
+    metadata: Schema.Types.Mixed,
+    created_at: {
+      type: Date,
+      default: Date.now,
+      immutable: true,
+    },
+  },
+  {
+    timestamps: false,
+  }
+);
+
+AuditEventSchema.index({ created_at: -1 });
+AuditEventSchema.index({ "target.id": 1, created_at: -1 });
+AuditEventSchema.index({ "actor.id": 1, created_at: -1 });
+AuditEventSchema.index({ action: 1, created_at: -1 });
+
+// Append-only: existing events can't be changed or removed through the model
+const refuse = () => {
+  throw new Error("Audit events are append-only");
+};
+AuditEventSchema.pre("save", function () {
+  if (!this.isNew) refuse();
+});
+AuditEventSchema.pre(
+  [
+    "updateOne",
+    "updateMany",
+    "findOneAndUpdate",
+    "replaceOne",
+    "findOneAndReplace",
+    "deleteOne",
+    "deleteMany",
+    "findOneAndDelete",
+  ],
+  refuse
+);
+
+// Delete cached model if it exists
+if (mongoose.models.AuditEvent) {
+  delete mongoose.models.AuditEvent;
+}
+
+const AuditEvent: Model<IAuditEvent> = mongoose.model<IAuditEvent>(
+  "AuditEvent",
+  AuditEventSchema
+);
+
+export default AuditEvent;
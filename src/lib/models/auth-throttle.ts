@@ -0,0 +1,63 @@
+import mongoose, { Schema, Document, Model } from "mongoose";
+
+// Failed login attempts for one subject - an email or a client IP. Documents
+// expire on their own once the subject has been quiet for a while.
+export interface IAuthThrottle extends Document {
+  key: string; // "email:kofi@example.com" or "ip:203.0.113.7"
+  failures: number; // Consecutive failures since the last success
+  last_failure_at: Date;
+  next_attempt_at?: Date; // Backoff - no attempts accepted before this
+  locked_until?: Date; // Set once failures reach the lockout limit
+  expires_at: Date; // TTL - the record is dropped after this
+  created_at: Date;
+  updated_at: Date;
+}
+
+const AuthThrottleSchema = new Schema<IAuthThrottle>(
+  {
+    key: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    failures: {
+      type: Number,
+      default: 0,
+    },
+    last_failure_at: {
+      type: Date,
+      default: Date.now,
+    },
+    next_attempt_at: Date,
+    locked_until: Date,
+    expires_at: {
+      type: Date,
+      required: true,
+    },
+    created_at: {
+      type: Date,
+      default: Date.now,
+    },
+    updated_at: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  {
+    timestamps: { createdAt: "created_at", updatedAt: "updated_at" },
+  }
+);
+
+AuthThrottleSchema.index({ expires_at: 1 }, { expireAfterSeconds: 0 });
+
+// Delete cached model if it exists
+if (mongoose.models.AuthThrottle) {
+  delete mongoose.models.AuthThrottle;
+}
+
+const AuthThrottle: Model<IAuthThrottle> = mongoose.model<IAuthThrottle>(
+  "AuthThrottle",
+  AuthThrottleSchema
+);
+
+export default AuthThrottle;
@@ -0,0 +1,78 @@
+import mongoose, { Schema, Document, Model } from "mongoose";
+
+// Custom question document interface - admin-managed questions asked after
+// the built-in onboarding steps. Answers are stored in Applicant.answers by key.
+export interface ICustomQuestion extends Document {
+  key: string; // Stable slug used as the answers map key, e.g. "has_laptop"
+  label: string; // Short name shown in the admin detail view
+  prompt: string; // The question as the assistant should ask it
+  required: boolean;
+  suggestions: string[];
+  order: number; // Lower comes first
+  active: boolean; // Inactive questions are kept but not asked
+  created_at: Date;
+  updated_at: Date;
+}
+
+const CustomQuestionSchema = new Schema<ICustomQuestion>(
+  {
+    key: {
+      type: String,
+      required: true,
+      unique: true,
+      trim: true,
+      match: /^[a-z0-9_]+$/,
+    },
+    label: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    prompt: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    required: {
+      type: Boolean,
+      default: false,
+    },
+    suggestions: {
+      type: [String],
+      default: [],
+    },
+    order: {
+      type: Number,
+      default: 0,
+    },
+    active: {
+      type: Boolean,
+      default: true,
+    },
+    created_at: {
+      type: Date,
+      default: Date.now,
+    },
+    updated_at: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  {
+    timestamps: { createdAt: "created_at", updatedAt: "updated_at" },
+  }
+);
+
+CustomQuestionSchema.index({ active: 1, order: 1 });
+
+// Delete cached model if it exists
+if (mongoose.models.CustomQuestion) {
+  delete mongoose.models.CustomQuestion;
+}
+
+const CustomQuestion: Model<ICustomQuestion> = mongoose.model<ICustomQuestion>(
+  "CustomQuestion",
+  CustomQuestionSchema
+);
+
+export default CustomQuestion;
@@ -15,6 +15,7 @@ export interface IFeedback extends Document {
   category?: "onboarding" | "mentoring" | "ui" | "general";
   // Metadata
   onboarding_state?: string;
+  deleted_at?: Date; // Soft delete from the admin assistant
   created_at: Date;
 }
 
@@ -45,6 +46,7 @@ const FeedbackSchema = new Schema<IFeedback>(
       default: "general",
     },
     onboarding_state: String,
+    deleted_at: Date,
     created_at: {
       type: Date,
       default: Date.now,
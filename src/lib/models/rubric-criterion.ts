@@ -0,0 +1,71 @@
+import mongoose, { Schema, Document, Model } from "mongoose";
+
+// Rubric criterion document interface - one thing reviewers score applicants
+// on, 1 to 5. Scores are stored on Applicant.rubric_scores by key.
+export interface IRubricCriterion extends Document {
+  key: string; // Stable slug used in stored scores, e.g. "commitment"
+  label: string; // Short name shown to reviewers
+  description: string; // What a 1 and a 5 look like
+  source_fields: string[]; // Applicant fields it's judged from, e.g. "projects"
+  order: number; // Lower comes first
+  active: boolean; // Inactive criteria are kept but not scored
+  created_at: Date;
+  updated_at: Date;
+}
+
+const RubricCriterionSchema = new Schema<IRubricCriterion>(
+  {
+    key: {
+      type: String,
+      required: true,
+      unique: true,
+      trim: true,
+      match: /^[a-z0-9_]+$/,
+    },
+    label: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    description: {
+      type: String,
+      default: "",
+      trim: true,
+    },
+    source_fields: {
+      type: [String],
+      default: [],
+    },
+    order: {
+      type: Number,
+      default: 0,
+    },
+    active: {
+      type: Boolean,
+      default: true,
+    },
+    created_at: {
+      type: Date,
+      default: Date.now,
+    },
+    updated_at: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  {
+    timestamps: { createdAt: "created_at", updatedAt: "updated_at" },
+  }
+);
+
+RubricCriterionSchema.index({ active: 1, order: 1 });
+
+// Delete cached model if it exists
+if (mongoose.models.RubricCriterion) {
+  delete mongoose.models.RubricCriterion;
+}
+
+const RubricCriterion: Model<IRubricCriterion> =
+  mongoose.model<IRubricCriterion>("RubricCriterion", RubricCriterionSchema);
+
+export default RubricCriterion;
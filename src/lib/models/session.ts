@@ -1,34 +1,30 @@
 import mongoose, { Schema, Document, Model } from "mongoose";
+import {
+  CUSTOM_QUESTIONS_STATE,
+  POST_ONBOARDING_STATES,
+  QUESTION_STATES,
+  type QuestionState,
+} from "@/lib/onboarding-questions";
 
-// Onboarding states
-export const ONBOARDING_STATES = [
-  "AWAITING_EMAIL",
-  "AWAITING_SECRET_PHRASE",
-  "AWAITING_NAME",
-  "AWAITING_WHATSAPP",
-  "AWAITING_ENGINEERING_AREA",
-  "AWAITING_SKILL_LEVEL",
-  "AWAITING_IMPROVEMENT_GOALS",
-  "AWAITING_CAREER_GOALS",
-  "AWAITING_GITHUB",
-  "AWAITING_LINKEDIN",
-  "AWAITING_PORTFOLIO",
-  "AWAITING_PROJECTS",
-  "AWAITING_TIME_COMMITMENT",
-  "AWAITING_LEARNING_STYLE",
-  "AWAITING_TECH_FOCUS",
-  "AWAITING_SUCCESS_DEFINITION",
-  "COMPLETED",
-  "FREE_CHAT", // Post-completion free interaction state
-] as const;
-
-export type OnboardingState = (typeof ONBOARDING_STATES)[number];
+// Onboarding states - one per registry question, then admin-defined custom
+// questions, then the post-onboarding states
+export const ONBOARDING_STATES: OnboardingState[] = [
+  ...QUESTION_STATES,
+  CUSTOM_QUESTIONS_STATE,
+  ...POST_ONBOARDING_STATES,
+];
+
+export type OnboardingState =
+  | QuestionState
+  | typeof CUSTOM_QUESTIONS_STATE
+  | (typeof POST_ONBOARDING_STATES)[number];
 
 // Message interface
 export interface IMessage {
   role: "user" | "assistant";
   content: string;
   timestamp?: Date;
+  provider?: string; // Model that generated an assistant message
 }
 
 // Application status type
@@ -45,6 +41,7 @@ export interface IApplicantData {
   secret_phrase?: string;
   whatsapp?: string;
   engineering_area?: string;
+  mobile_platform?: string; // Only asked when engineering_area is mobile
   skill_level?: string;
   improvement_goals?: string;
   career_goals?: string;
@@ -53,13 +50,15 @@ export interface IApplicantData {
   portfolio?: string;
   projects?: string;
   time_commitment?: string;
+  time_commitment_hours?: number | null; // Parsed from time_commitment (null if unclear)
   learning_style?: string;
   tech_focus?: string;
   success_definition?: string;
+  answers?: Record<string, string>; // Custom question answers by key
   submitted_at?: string;
   // Application review fields (admin-managed)
   application_status?: ApplicationStatus;
-  review_notes?: string; // Admin notes/feedback
+  applicant_feedback?: string; // Decision feedback, never internal notes
   reviewed_at?: string;
   reviewed_by?: string;
 }
@@ -73,6 +72,24 @@ export interface IRecoveryState {
   attempts: number;
 }
 
+// Emailed one-time login code for a returning user (only the hash is kept)
+export interface ILoginCode {
+  email: string;
+  code_hash: string;
+  expires_at: Date;
+  attempts: number; // Wrong codes entered
+  sent_at: Date;
+}
+
+// Snapshot of the custom question currently being asked
+export interface IPendingCustomQuestion {
+  key: string;
+  label: string;
+  prompt: string;
+  required: boolean;
+  suggestions: string[];
+}
+
 // Session document interface
 export interface ISession extends Document {
   session_id: string;
@@ -89,9 +106,14 @@ export interface ISession extends Document {
     existing_applicant_data: IApplicantData;
     existing_state: OnboardingState;
   };
+  // Email login code flow state
+  pending_login_code?: ILoginCode;
   // Recovery flow state
   pending_recovery?: IRecoveryState;
+  // Admin-defined question being asked in AWAITING_CUSTOM_QUESTIONS
+  pending_custom_question?: IPendingCustomQuestion;
   pending_action?: "logout" | "meme_war" | null;
+  deleted_at?: Date; // Soft delete from the admin assistant
   created_at: Date;
   updated_at: Date;
 }
@@ -112,6 +134,7 @@ const MessageSchema = new Schema<IMessage>(
       type: Date,
       default: Date.now,
     },
+    provider: String,
   },
   { _id: false }
 );
@@ -124,6 +147,7 @@ const ApplicantDataSchema = new Schema<IApplicantData>(
     secret_phrase: String,
     whatsapp: String,
     engineering_area: String,
+    mobile_platform: String,
     skill_level: String,
     improvement_goals: String,
     career_goals: String,
@@ -132,9 +156,11 @@ const ApplicantDataSchema = new Schema<IApplicantData>(
     portfolio: String,
     projects: String,
     time_commitment: String,
+    time_commitment_hours: Number,
     learning_style: String,
     tech_focus: String,
     success_definition: String,
+    answers: Schema.Types.Mixed,
     submitted_at: String,
     // Application review fields
     application_status: {
@@ -142,7 +168,7 @@ const ApplicantDataSchema = new Schema<IApplicantData>(
       enum: ["pending", "accepted", "rejected", "waitlisted"],
       // No default - only set when user actually completes onboarding
     },
-    review_notes: String,
+    applicant_feedback: String,
     reviewed_at: String,
     reviewed_by: String,
   },
@@ -207,11 +233,32 @@ const SessionSchema = new Schema<ISession>(
       type: RecoveryStateSchema,
       default: undefined,
     },
+    pending_login_code: {
+      type: {
+        email: String,
+        code_hash: String,
+        expires_at: Date,
+        attempts: Number,
+        sent_at: Date,
+      },
+      default: undefined,
+    },
+    pending_custom_question: {
+      type: {
+        key: String,
+        label: String,
+        prompt: String,
+        required: Boolean,
+        suggestions: [String],
+      },
+      default: undefined,
+    },
     pending_action: {
       type: String,
       enum: ["logout", "meme_war", null],
       default: null,
     },
+    deleted_at: Date,
     created_at: {
       type: Date,
       default: Date.now,
@@ -1,4 +1,5 @@
 import mongoose from "mongoose";
+import { runMigrations } from "@/lib/migrations";
 
 const MONGODB_URI = process.env.MONGODB_URI;
 
@@ -32,10 +33,13 @@ async function connectDB(): Promise<typeof mongoose> {
       bufferCommands: false,
     };
 
-    cached.promise = mongoose.connect(MONGODB_URI!, opts).then((mongoose) => {
-      console.log("MongoDB connected successfully");
-      return mongoose;
-    });
+    cached.promise = mongoose
+      .connect(MONGODB_URI!, opts)
+      .then(async (mongoose) => {
+        console.log("MongoDB connected successfully");
+        await runMigrations(mongoose.connection);
+        return mongoose;
+      });
   }
 
   try {
@@ -0,0 +1,410 @@
+import type { IApplicantData } from "@/lib/models/session";
+import {
+  normalizeEmail,
+  normalizeGithub,
+  normalizeLinkedin,
+  normalizePortfolio,
+  normalizeSecretPhrase,
+  normalizeTimeCommitment,
+  normalizeWhatsapp,
+  type AnswerNormalizer,
+  type NormalizedAnswer,
+} from "@/lib/answer-normalization";
+
+/**
+ * Onboarding Question Registry
+ *
+ * The single source of truth for the onboarding flow. Each entry is one step:
+ * the applicant field it fills, how it's asked, whether it's required, the
+ * suggestions and fallback copy shown for it, and how answers are validated
+ * and normalized (see answer-normalization).
+ *
+ * Session states, default suggestions, fallbacks, tool schemas, the system
+ * prompt and the client progress bar are all generated from this list, so
+ * adding or changing a question only means editing it here. Order matters -
+ * it's the order questions are asked in.
+ *
+ * Questions with a `when` rule are only part of an applicant's path while the
+ * rule holds for their answers so far. That's how steps get skipped (portfolio
+ * for beginners with nothing built yet) or inserted (a mobile platform
+ * follow-up for mobile engineers). See getOnboardingPath.
+ *
+ * This module is shared with the client, so keep it free of server imports.
+ */
+
+export interface FallbackContext {
+  name?: string;
+  isReturningUser?: boolean;
+}
+
+export interface OnboardingQuestion {
+  state: `AWAITING_${string}`;
+  key: keyof IApplicantData;
+  label: string; // Human-readable name, e.g. "whatsapp number"
+  prompt: string; // How the question is asked, used in the system prompt
+  required: boolean;
+  suggestions: readonly string[]; // Default suggestion buttons
+  editSuggestions?: readonly string[]; // Suggestions when revisiting the step
+  fallback: (ctx: FallbackContext) => string; // Used when the model fails
+  normalize?: AnswerNormalizer; // Validates and canonicalizes the answer
+  phase: string; // Progress bar phase name
+  placeholder?: string; // Chat input placeholder
+  navigable: boolean; // Whether change_state can jump back to it
+  when?: (data: IApplicantData) => boolean; // Only asked while this holds
+}
+
+const withName = (name?: string) => (name ? ` ${name}` : "");
+
+const isBeginner = (data: IApplicantData) =>
+  /beginner|junior|just start|new to/i.test(data.skill_level || "");
+
+const hasNoProjects = (data: IApplicantData) =>
+  /^(nothing|none|no|nope|nah|not yet|n\/a|-)([\s.!,]|$)/i.test(
+    (data.projects || "").trim()
+  );
+
+export const ONBOARDING_QUESTIONS = [
+  {
+    state: "AWAITING_EMAIL",
+    key: "email",
+    label: "email",
+    prompt: "drop your email",
+    required: true,
+    suggestions: [],
+    fallback: () => "drop your email so we can get started! 📧",
+    normalize: normalizeEmail,
+    phase: "identify",
+    placeholder: "your@email.com",
+    navigable: false,
+  },
+  {
+    state: "AWAITING_SECRET_PHRASE",
+    key: "secret_phrase",
+    label: "secret phrase",
+    prompt: "choose a secret phrase (new) / enter your phrase (returning)",
+    required: true,
+    suggestions: [],
+    fallback: ({ name, isReturningUser }) =>
+      isReturningUser
+        ? `welcome back${withName(
+            name
+          )}! 👋 enter your secret phrase to verify it's you.`
+        : `nice! now choose a secret phrase - something memorable that only you know. this is like your password to come back later. think of something fun like "pizza is life" 🤫`,
+    normalize: normalizeSecretPhrase,
+    phase: "secret key",
+    placeholder: "create a memorable phrase...",
+    navigable: false,
+  },
+  {
+    state: "AWAITING_NAME",
+    key: "name",
+    label: "name",
+    prompt: "what should i call you?",
+    required: true,
+    suggestions: [],
+    editSuggestions: ["keep current name", "change it"],
+    fallback: () => "got it! what should i call you?",
+    phase: "introductions",
+    placeholder: "your name...",
+    navigable: true,
+  },
+  {
+    state: "AWAITING_WHATSAPP",
+    key: "whatsapp",
+    label: "whatsapp number",
+    prompt: "whatsapp number for the group",
+    required: true,
+    suggestions: [],
+    editSuggestions: ["keep current number", "new number"],
+    fallback: ({ name }) =>
+      `cool${withName(
+        name
+      )}! drop your whatsapp number (with country code like +233) - we use it for the mentorship group.`,
+    normalize: normalizeWhatsapp,
+    phase: "contact",
+    placeholder: "+233 or country code + number",
+    navigable: true,
+  },
+  {
+    state: "AWAITING_ENGINEERING_AREA",
+    key: "engineering_area",
+    label: "engineering area",
+    prompt: "frontend, backend, full stack, mobile?",
+    required: true,
+    suggestions: ["frontend", "backend", "full stack", "mobile"],
+    fallback: () =>
+      "what's your engineering focus? frontend, backend, full stack, mobile?",
+    phase: "discovering",
+    navigable: true,
+  },
+  {
+    state: "AWAITING_MOBILE_PLATFORM",
+    key: "mobile_platform",
+    label: "mobile platform",
+    prompt: "ios, android, or cross-platform (flutter / react native)?",
+    required: true,
+    suggestions: ["ios", "android", "flutter", "react native"],
+    fallback: () =>
+      "mobile, nice! which platform - ios, android, or cross-platform like flutter or react native?",
+    phase: "targeting",
+    navigable: true,
+    when: (data) => /mobile|ios|android/i.test(data.engineering_area || ""),
+  },
+  {
+    state: "AWAITING_SKILL_LEVEL",
+    key: "skill_level",
+    label: "skill level",
+    prompt: "beginner, intermediate, advanced?",
+    required: true,
+    suggestions: ["beginner", "intermediate", "advanced"],
+    fallback: () =>
+      "how would you rate your skill level? beginner, intermediate, or advanced?",
+    phase: "calibrating",
+    navigable: true,
+  },
+  {
+    state: "AWAITING_IMPROVEMENT_GOALS",
+    key: "improvement_goals",
+    label: "improvement goals",
+    prompt: "what do you want to get better at?",
+    required: true,
+    suggestions: ["system design", "clean code", "testing"],
+    editSuggestions: ["system design", "clean code", "testing", "keep current"],
+    fallback: () =>
+      "what do you want to get better at? system design, clean code, testing, etc?",
+    phase: "aspirations",
+    navigable: true,
+  },
+  {
+    state: "AWAITING_CAREER_GOALS",
+    key: "career_goals",
+    label: "career goals",
+    prompt: "where do you want to be career-wise?",
+    required: true,
+    suggestions: ["land first job", "get promoted", "freelance"],
+    editSuggestions: ["get hired", "freelance", "promotion", "keep current"],
+    fallback: () =>
+      "where do you see yourself career-wise? landing first job, getting promoted, freelancing?",
+    phase: "envisioning",
+    navigable: true,
+  },
+  {
+    state: "AWAITING_GITHUB",
+    key: "github",
+    label: "github",
+    prompt: "github link? (optional, say 'skip' if none)",
+    required: false,
+    suggestions: ["don't have one", "will share later"],
+    editSuggestions: ["here's my github", "skip github", "keep current"],
+    fallback: () =>
+      "got a github? drop the link or username (or say skip if you don't have one)",
+    phase: "connecting",
+    placeholder: "username or full URL",
+    navigable: true,
+    normalize: normalizeGithub,
+  },
+  {
+    state: "AWAITING_LINKEDIN",
+    key: "linkedin",
+    label: "linkedin",
+    prompt: "linkedin? (optional)",
+    required: false,
+    suggestions: ["don't have one", "prefer not to share"],
+    editSuggestions: ["here's my linkedin", "skip linkedin", "keep current"],
+    fallback: () => "linkedin? same deal - link, username, or skip",
+    phase: "networking",
+    placeholder: "profile URL or username",
+    navigable: true,
+    normalize: normalizeLinkedin,
+  },
+  {
+    state: "AWAITING_PROJECTS",
+    key: "projects",
+    label: "projects",
+    prompt: "what have you built?",
+    required: true,
+    suggestions: ["todo app", "portfolio", "nothing yet"],
+    editSuggestions: ["here are my projects", "still building", "keep current"],
+    fallback: () => "what have you built so far? even small projects count!",
+    phase: "exploring",
+    navigable: true,
+  },
+  {
+    state: "AWAITING_PORTFOLIO",
+    key: "portfolio",
+    label: "portfolio",
+    prompt: "portfolio site? (optional)",
+    required: false,
+    suggestions: ["no portfolio yet", "working on it"],
+    editSuggestions: ["here's my portfolio", "no portfolio", "keep current"],
+    fallback: () => "portfolio site? share if you have one, or skip",
+    phase: "showcasing",
+    placeholder: "your website URL",
+    navigable: true,
+    normalize: normalizePortfolio,
+    // Nothing to showcase yet - don't make beginners skip it by hand. Asked
+    // after projects so the rule can see that answer.
+    when: (data) => !(isBeginner(data) && hasNoProjects(data)),
+  },
+  {
+    state: "AWAITING_TIME_COMMITMENT",
+    key: "time_commitment",
+    label: "time commitment",
+    prompt: "how many hours/week can you dedicate?",
+    required: true,
+    suggestions: ["5 hours/week", "10 hours/week", "15+ hours/week"],
+    fallback: () =>
+      "how many hours per week can you realistically dedicate to this?",
+    phase: "committing",
+    placeholder: "e.g. 10 hours/week",
+    navigable: true,
+    normalize: normalizeTimeCommitment,
+  },
+  {
+    state: "AWAITING_LEARNING_STYLE",
+    key: "learning_style",
+    label: "learning style",
+    prompt: "how do you learn best?",
+    required: true,
+    suggestions: ["hands-on", "videos", "reading docs"],
+    editSuggestions: ["hands-on coding", "watching videos", "reading docs"],
+    fallback: () =>
+      "how do you learn best? hands-on coding, videos, reading docs?",
+    phase: "understanding",
+    navigable: true,
+  },
+  {
+    state: "AWAITING_TECH_FOCUS",
+    key: "tech_focus",
+    label: "tech focus",
+    prompt: "what tech do you want to focus on?",
+    required: true,
+    suggestions: ["javascript", "python", "rust", "go"],
+    editSuggestions: ["javascript", "python", "rust", "keep current"],
+    fallback: () =>
+      "what tech do you want to focus on? javascript, python, rust, etc?",
+    phase: "focusing",
+    navigable: true,
+  },
+  {
+    state: "AWAITING_SUCCESS_DEFINITION",
+    key: "success_definition",
+    label: "success definition",
+    prompt: "how will you know you've succeeded?",
+    required: true,
+    suggestions: ["ship projects", "get hired", "build confidence"],
+    fallback: () =>
+      "last one! how will you know you've succeeded in this program?",
+    phase: "defining",
+    navigable: true,
+  },
+] as const satisfies readonly OnboardingQuestion[];
+
+export type QuestionState = (typeof ONBOARDING_QUESTIONS)[number]["state"];
+export type QuestionKey = (typeof ONBOARDING_QUESTIONS)[number]["key"];
+
+// Admin-defined questions (stored in MongoDB) are asked in this single state
+// after the built-in ones, one at a time
+export const CUSTOM_QUESTIONS_STATE = "AWAITING_CUSTOM_QUESTIONS" as const;
+
+// States after the last question
+export const POST_ONBOARDING_STATES = ["COMPLETED", "FREE_CHAT"] as const;
+
+export const QUESTION_STATES = ONBOARDING_QUESTIONS.map(
+  (q) => q.state
+) as QuestionState[];
+
+export const QUESTION_KEYS = ONBOARDING_QUESTIONS.map(
+  (q) => q.key
+) as QuestionKey[];
+
+// Steps the user can jump back to (email and secret phrase are security-sensitive)
+export const NAVIGABLE_QUESTIONS: readonly OnboardingQuestion[] =
+  ONBOARDING_QUESTIONS.filter((q) => q.navigable);
+
+// The questions this applicant will be asked, given their answers so far
+export function getOnboardingPath(
+  data: IApplicantData = {}
+): OnboardingQuestion[] {
+  return (ONBOARDING_QUESTIONS as readonly OnboardingQuestion[]).filter(
+    (q) => !q.when || q.when(data)
+  );
+}
+
+export function isInOnboardingPath(
+  state: string,
+  data: IApplicantData = {}
+): boolean {
+  return getOnboardingPath(data).some((q) => q.state === state);
+}
+
+// Full state order for this applicant, used by the progress bar
+export function getStatePath(data: IApplicantData = {}): string[] {
+  return [
+    ...getOnboardingPath(data).map((q) => q.state),
+    CUSTOM_QUESTIONS_STATE,
+    ...POST_ONBOARDING_STATES,
+  ];
+}
+
+// Fields the applicant must answer before submitting
+export function getRequiredQuestions(
+  data: IApplicantData = {}
+): OnboardingQuestion[] {
+  return getOnboardingPath(data).filter((q) => q.required);
+}
+
+// Next question state after the given one, skipping steps whose rules don't
+// hold. Returns CUSTOM_QUESTIONS_STATE after the last question and undefined
+// when the given state isn't a question.
+export function getNextQuestionState(
+  state: string,
+  data: IApplicantData = {}
+): QuestionState | typeof CUSTOM_QUESTIONS_STATE | undefined {
+  const questions = ONBOARDING_QUESTIONS as readonly OnboardingQuestion[];
+  const index = questions.findIndex((q) => q.state === state);
+  if (index < 0) return undefined;
+
+  const next = questions.slice(index + 1).find((q) => !q.when || q.when(data));
+  return next ? (next.state as QuestionState) : CUSTOM_QUESTIONS_STATE;
+}
+
+// First step on this applicant's path that still has no answer, so saves that
+// answer several questions at once can jump past the ones already covered.
+// Optional steps count until answered or skipped. Returns
+// CUSTOM_QUESTIONS_STATE once every question has an answer.
+export function getFirstUnansweredState(
+  data: IApplicantData = {}
+): QuestionState | typeof CUSTOM_QUESTIONS_STATE {
+  const next = getOnboardingPath(data).find((q) => !data[q.key]);
+  return next ? (next.state as QuestionState) : CUSTOM_QUESTIONS_STATE;
+}
+
+// States on this applicant's path whose question has an answer
+export function getAnsweredStates(data: IApplicantData = {}): string[] {
+  return getOnboardingPath(data)
+    .filter((q) => !!data[q.key])
+    .map((q) => q.state);
+}
+
+export function getQuestionByState(
+  state: string
+): OnboardingQuestion | undefined {
+  return (ONBOARDING_QUESTIONS as readonly OnboardingQuestion[]).find(
+    (q) => q.state === state
+  );
+}
+
+export function getQuestionByKey(key: string): OnboardingQuestion | undefined {
+  return (ONBOARDING_QUESTIONS as readonly OnboardingQuestion[]).find(
+    (q) => q.key === key
+  );
+}
+
+// Run a question's normalizer; other answers are only trimmed
+export function normalizeAnswer(key: string, value: string): NormalizedAnswer {
+  const question = getQuestionByKey(key);
+  return question?.normalize
+    ? question.normalize(value)
+    : { ok: true, value: value.trim() };
+}
@@ -0,0 +1,368 @@
+import crypto from "crypto";
+
+/**
+ * Query Guard
+ *
+ * Safety checks for the admin assistant's query_db tool, whose filters and
+ * updates are written by the model. Every filter, projection, sort, update
+ * and new document is checked against a per-collection field allowlist and
+ * an operator allowlist, so things like `$where` or `$expr` never reach
+ * MongoDB and secrets can't be read or written.
+ *
+ * Writes are dry-run first (match count plus a sample). A write that matches
+ * more than CONFIRM_THRESHOLD documents becomes a pending operation and only
+ * runs once the admin confirms its id in their own message.
+ */
+
+export type GuardedCollection = "applicants" | "feedback" | "sessions";
+
+// Writes touching more documents than this need the admin to confirm
+export const CONFIRM_THRESHOLD = 5;
+export const PENDING_OPERATION_TTL_MS = 10 * 60 * 1000;
+export const DRY_RUN_SAMPLE_SIZE = 3;
+
+// Never readable, filterable or writable through query_db
+export const BLOCKED_FIELDS = ["secret_phrase_hash", "secret_phrase"];
+
+// Fields query_db may filter, project and sort on. Dotted paths are allowed
+// under these roots (e.g. answers.why_join, messages.content).
+export const QUERYABLE_FIELDS: Record<GuardedCollection, string[]> = {
+  applicants: [
+    "_id",
+    "email",
+    "name",
+    "whatsapp",
+    "engineering_area",
+    "mobile_platform",
+    "skill_level",
+    "improvement_goals",
+    "career_goals",
+    "github",
+    "linkedin",
+    "portfolio",
+    "projects",
+    "time_commitment",
+    "time_commitment_hours",
+    "learning_style",
+    "tech_focus",
+    "success_definition",
+    "answers",
+    "submitted_at",
+    "application_status",
+    "internal_notes",
+    "applicant_feedback",
+    "reviewed_at",
+    "reviewed_by",
+    "status_history",
+    "rubric_scores",
+    "rubric_score",
+    "rubric_proposal",
+    "recovery_attempts",
+    "failed_phrase_attempts",
+    "phrase_locked_until",
+    "created_at",
+    "updated_at",
+    "deleted_at",
+  ],
+  feedback: [
+    "_id",
+    "session_id",
+    "email",
+    "name",
+    "rating",
+    "feedback",
+    "suggestions",
+    "category",
+    "onboarding_state",
+    "created_at",
+    "deleted_at",
+  ],
+  sessions: [
+    "_id",
+    "session_id",
+    "state",
+    "messages",
+    "applicant_email",
+    "applicant_data",
+    "suggestions",
+    "created_at",
+    "updated_at",
+    "deleted_at",
+  ],
+};
+
+// Review decisions go through update_status (lib/review-decisions), which
+// records the reviewer and a status_history entry that undo relies on
+const REVIEW_FIELDS = ["application_status", "reviewed_by", "reviewed_at"];
+
+// Identity and bookkeeping fields - queryable but never changed by query_db
+const READ_ONLY_FIELDS: Record<GuardedCollection, string[]> = {
+  applicants: [
+    "_id",
+    "email",
+    ...REVIEW_FIELDS,
+    "status_history",
+    "rubric_scores",
+    "rubric_score",
+    "rubric_proposal",
+    "created_at",
+    "updated_at",
+  ],
+  feedback: ["_id", "session_id", "created_at"],
+  sessions: ["_id", "session_id", "created_at", "updated_at"],
+};
+
+export const FILTER_OPERATORS = [
+  "$eq",
+  "$ne",
+  "$gt",
+  "$gte",
+  "$lt",
+  "$lte",
+  "$in",
+  "$nin",
+  "$exists",
+  "$regex",
+  "$options",
+  "$not",
+  "$elemMatch",
+  "$size",
+];
+export const LOGICAL_OPERATORS = ["$and", "$or", "$nor"];
+const UPDATE_OPERATORS = ["$set", "$unset", "$inc"];
+
+const rootOf = (path: string) => path.split(".")[0];
+
+export const isBlockedPath = (path: string) =>
+  path.split(".").some((part) => BLOCKED_FIELDS.includes(part));
+
+// Parsed JSON objects - not arrays, Dates or ObjectIds
+export const isPlainObject = (
+  value: unknown
+): value is Record<string, unknown> =>
+  !!value &&
+  typeof value === "object" &&
+  [Object.prototype, null].includes(Object.getPrototypeOf(value));
+
+function checkField(
+  collection: GuardedCollection,
+  path: string,
+  fields = QUERYABLE_FIELDS[collection]
+) {
+  if (isBlockedPath(path)) return `field "${path}" is off limits`;
+  if (!fields.includes(rootOf(path))) {
+    return `unknown field "${path}" for ${collection}`;
+  }
+  return null;
+}
+
+// Operator expression for one field, e.g. { $gte: 3, $lte: 5 }
+function checkCondition(value: unknown): string | null {
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      const error = checkCondition(item);
+      if (error) return error;
+    }
+    return null;
+  }
+  if (!isPlainObject(value)) return null;
+
+  for (const [key, child] of Object.entries(value)) {
+    if (!key.startsWith("$")) {
+      // Sub-document match, e.g. inside $elemMatch
+      if (isBlockedPath(key)) return `field "${key}" is off limits`;
+    } else if (!FILTER_OPERATORS.includes(key)) {
+      return `operator ${key} is not allowed`;
+    }
+    if (key === "$regex" && typeof child !== "string") {
+      return "$regex must be a string";
+    }
+    if (key === "$options" && typeof child !== "string") {
+      return "$options must be a string";
+    }
+    const error = checkCondition(child);
+    if (error) return error;
+  }
+  return null;
+}
+
+/**
+ * Check a filter against the collection's allowlists. Returns an error
+ * message, or null if the filter is safe to run. `fields` overrides the
+ * allowed field roots, e.g. for a $match on aggregation output.
+ */
+export function validateFilter(
+  collection: GuardedCollection,
+  filter: unknown,
+  fields = QUERYABLE_FIELDS[collection]
+): string | null {
+  if (!isPlainObject(filter)) return "filter must be a JSON object";
+
+  for (const [key, value] of Object.entries(filter)) {
+    if (LOGICAL_OPERATORS.includes(key)) {
+      if (!Array.isArray(value) || value.length === 0) {
+        return `${key} needs a non-empty array of filters`;
+      }
+      for (const clause of value) {
+        const error = validateFilter(collection, clause, fields);
+        if (error) return error;
+      }
+      continue;
+    }
+    if (key.startsWith("$")) return `operator ${key} is not allowed`;
+
+    const error = checkField(collection, key, fields) || checkCondition(value);
+    if (error) return error;
+  }
+  return null;
+}
+
+// Projection fields and sort keys
+export function validateFields(
+  collection: GuardedCollection,
+  fields: string[]
+): string | null {
+  for (const field of fields) {
+    const error = checkField(collection, field);
+    if (error) return error;
+  }
+  return null;
+}
+
+// Plain field/value objects are treated as a $set, like the db callback does
+export function normalizeUpdate(
+  update: Record<string, unknown>
+): Record<string, unknown> {
+  const hasOperators = Object.keys(update).some((key) => key.startsWith("$"));
+  return hasOperators ? update : { $set: update };
+}
+
+function checkWritableField(collection: GuardedCollection, path: string) {
+  if (isBlockedPath(path)) return `field "${path}" can't be written`;
+  const error = checkField(collection, path);
+  if (error) return error;
+  if (collection === "applicants" && REVIEW_FIELDS.includes(rootOf(path))) {
+    return `field "${path}" is read-only - change status with update_status`;
+  }
+  if (READ_ONLY_FIELDS[collection].includes(rootOf(path))) {
+    return `field "${path}" is read-only`;
+  }
+  return null;
+}
+
+export function validateUpdate(
+  collection: GuardedCollection,
+  update: unknown
+): string | null {
+  if (!isPlainObject(update)) return "update must be a JSON object";
+  const normalized = normalizeUpdate(update);
+  if (Object.keys(normalized).length === 0) return "update is empty";
+
+  for (const [operator, fields] of Object.entries(normalized)) {
+    if (!UPDATE_OPERATORS.includes(operator)) {
+      return `update operator ${operator} is not allowed`;
+    }
+    if (!isPlainObject(fields) || Object.keys(fields).length === 0) {
+      return `${operator} needs an object of fields`;
+    }
+    for (const [path, value] of Object.entries(fields)) {
+      const error = checkWritableField(collection, path);
+      if (error) return error;
+      if (operator === "$inc" && typeof value !== "number") {
+        return `$inc on "${path}" needs a number`;
+      }
+      // Values are data, never operators or blocked sub-fields
+      if (isPlainObject(value)) {
+        const nested = JSON.stringify(value);
+        if (/"\$/.test(nested)) return `value for "${path}" contains operators`;
+        if (BLOCKED_FIELDS.some((f) => nested.includes(`"${f}"`))) {
+          return `value for "${path}" contains a blocked field`;
+        }
+      }
+    }
+  }
+  return null;
+}
+
+export function validateDocument(
+  collection: GuardedCollection,
+  document: unknown
+): string | null {
+  if (!isPlainObject(document)) return "document must be a JSON object";
+  const serialized = JSON.stringify(document);
+  if (/"\$/.test(serialized)) return "document can't contain operators";
+  if (BLOCKED_FIELDS.some((f) => serialized.includes(`"${f}"`))) {
+    return "document contains a blocked field";
+  }
+  for (const field of Object.keys(document)) {
+    if (field === "_id") return `field "_id" is read-only`;
+    if (collection === "applicants" && REVIEW_FIELDS.includes(field)) {
+      return `field "${field}" is read-only - change status with update_status`;
+    }
+    const error = checkField(collection, field);
+    if (error) return error;
+  }
+  return null;
+}
+
+// Same operation, collection, filter and update -> same fingerprint
+export function operationFingerprint(parts: {
+  operation: string;
+  collection: string;
+  filter?: unknown;
+  update?: unknown;
+}): string {
+  return crypto
+    .createHash("sha256")
+    .update(
+      JSON.stringify([
+        parts.operation,
+        parts.collection,
+        parts.filter ?? null,
+        parts.update ?? null,
+      ])
+    )
+    .digest("hex");
+}
+
+// Short id the admin can type back, e.g. "op-3f9a1c"
+export function generateOperationId(): string {
+  return `op-${crypto.randomBytes(3).toString("hex")}`;
+}
+
+/**
+ * Whether the admin's own message confirms the operation - the model can
+ * suggest the id but only the admin can send it.
+ */
+export function adminConfirmed(
+  adminMessage: string,
+  operationId: string
+): boolean {
+  return new RegExp(`\\b${operationId}\\b`, "i").test(adminMessage);
+}
+
+// Drop blocked fields at any depth
+export function stripBlockedFields(node: unknown): unknown {
+  if (Array.isArray(node)) return node.map(stripBlockedFields);
+  if (!isPlainObject(node)) return node;
+  return Object.fromEntries(
+    Object.entries(node)
+      .filter(([key]) => !BLOCKED_FIELDS.includes(key))
+      .map(([key, value]) => [key, stripBlockedFields(value)])
+  );
+}
+
+/**
+ * Copy of a document safe to hand to the model: only allowlisted top-level
+ * fields, with blocked fields removed at any depth.
+ */
+export function sanitizeDocument(
+  collection: GuardedCollection,
+  document: object
+): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(document)
+      .filter(([key]) => QUERYABLE_FIELDS[collection].includes(key))
+      .map(([key, value]) => [key, stripBlockedFields(value)])
+  );
+}
@@ -0,0 +1,101 @@
+import { VERIFIABLE_FIELDS } from "@/lib/models/applicant";
+import {
+  normalizeGithub,
+  normalizeLinkedin,
+  normalizePortfolio,
+  normalizeWhatsapp,
+  SKIP_PATTERN,
+} from "@/lib/answer-normalization";
+
+/**
+ * Recovery Verification
+ *
+ * Decides whether an answer given during account recovery matches what's on
+ * file. Both sides are canonicalized per field and must then be equal -
+ * there's no partial or substring matching, so "github.com" or one letter of
+ * a name never counts. Skipped fields ("N/A", old ".../skipped" links) can't
+ * be used to verify anyone.
+ */
+
+export type VerifiableField = (typeof VERIFIABLE_FIELDS)[number];
+export type VerifiableFieldKey = VerifiableField["key"];
+
+const isSkipped = (value: string) =>
+  SKIP_PATTERN.test(value.trim()) || /\/skipped\/?$/i.test(value.trim());
+
+// Handle/slug at the end of a canonical profile URL
+const lastSegment = (url: string) => url.split("/").pop() || "";
+
+// Free text: case, punctuation and spacing don't matter
+const canonicalText = (value: string) =>
+  value
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/\p{M}/gu, "")
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+
+/**
+ * Canonical form of a value for comparison, or null when the value is
+ * missing, skipped or malformed (and so can't prove anything).
+ */
+export function canonicalizeRecoveryValue(
+  field: string,
+  value: unknown
+): string | null {
+  if (typeof value !== "string" || !value.trim() || isSkipped(value)) {
+    return null;
+  }
+
+  switch (field) {
+    case "github": {
+      const result = normalizeGithub(value);
+      return result.ok ? lastSegment(result.value) : null;
+    }
+    case "linkedin": {
+      const result = normalizeLinkedin(value);
+      return result.ok ? lastSegment(result.value) : null;
+    }
+    case "portfolio": {
+      const result = normalizePortfolio(value);
+      return result.ok
+        ? result.value
+            .toLowerCase()
+            .replace(/^https?:\/\//, "")
+            .replace(/^www\./, "")
+        : null;
+    }
+    case "whatsapp": {
+      const result = normalizeWhatsapp(value);
+      return result.ok ? result.value : null;
+    }
+    default: {
+      const text = canonicalText(value);
+      return text.length >= 2 ? text : null;
+    }
+  }
+}
+
+// Fields on this profile that can be used to verify the owner
+export function getVerifiableFields(
+  profile: object | undefined | null
+): VerifiableField[] {
+  if (!profile) return [];
+  return VERIFIABLE_FIELDS.filter(
+    (f) =>
+      canonicalizeRecoveryValue(
+        f.key,
+        (profile as Record<string, unknown>)[f.key]
+      ) !== null
+  );
+}
+
+export function matchesRecoveryAnswer(
+  field: string,
+  storedValue: unknown,
+  answer: string
+): boolean {
+  const stored = canonicalizeRecoveryValue(field, storedValue);
+  const given = canonicalizeRecoveryValue(field, answer);
+  return stored !== null && given !== null && stored === given;
+}
@@ -0,0 +1,228 @@
+import Applicant, {
+  type ApplicationStatus,
+  type IApplicant,
+  type IStatusHistoryEntry,
+} from "@/lib/models/applicant";
+import type { AuditSource } from "@/lib/models/audit-event";
+import { recordAuditEvent } from "@/lib/audit";
+
+/**
+ * Review Decisions
+ *
+ * The one place an application's status is decided, shared by the dashboard
+ * (PATCH /api/admin/review) and the admin assistant's update_status tool so
+ * both record the same things: the status, who decided, internal notes for
+ * reviewers and feedback meant for the applicant, plus an audit event.
+ *
+ * Internal notes stay on the admin side. Only applicant_feedback is ever
+ * copied into the applicant's chat session or shown to them.
+ */
+
+export interface ReviewDecision {
+  email: string;
+  status?: ApplicationStatus; // Left out to only edit the notes
+  internalNotes?: string; // Reviewers only
+  applicantFeedback?: string; // Meant for the applicant
+}
+
+export interface ReviewContext {
+  reviewer: string; // Admin username
+  source: AuditSource;
+  metadata?: Record<string, unknown>;
+}
+
+export type ReviewDecisionResult =
+  | {
+      ok: true;
+      application: {
+        email: string;
+        name?: string;
+        previous_status: ApplicationStatus;
+        new_status: ApplicationStatus;
+        internal_notes?: string;
+        applicant_feedback?: string;
+        reviewed_at?: string;
+        reviewed_by?: string;
+        status_history: IStatusHistoryEntry[];
+      };
+    }
+  | {
+      ok: false;
+      error: "not_found" | "incomplete" | "nothing_to_undo" | "conflict";
+      message: string;
+    };
+
+export type ReviewFailure = Extract<ReviewDecisionResult, { ok: false }>;
+
+// Submitted, not deleted application - or why it can't be reviewed
+export async function findReviewable(
+  email: string
+): Promise<IApplicant | ReviewFailure> {
+  const applicant = await Applicant.findOne({
+    email: email.trim().toLowerCase(),
+    deleted_at: { $exists: false },
+  });
+
+  if (!applicant) {
+    return { ok: false, error: "not_found", message: "Application not found" };
+  }
+  if (!applicant.submitted_at) {
+    return {
+      ok: false,
+      error: "incomplete",
+      message: "Cannot review an incomplete application",
+    };
+  }
+  return applicant;
+}
+
+// What the audit log records before and after a review change
+const reviewSnapshot = (applicant: IApplicant) => ({
+  application_status: applicant.application_status,
+  internal_notes: applicant.internal_notes,
+  applicant_feedback: applicant.applicant_feedback,
+  reviewed_by: applicant.reviewed_by,
+  reviewed_at: applicant.reviewed_at,
+});
+
+const reviewResult = (
+  applicant: IApplicant,
+  previousStatus: ApplicationStatus
+): ReviewDecisionResult => ({
+  ok: true,
+  application: {
+    email: applicant.email,
+    name: applicant.name,
+    previous_status: previousStatus,
+    new_status: applicant.application_status || "pending",
+    internal_notes: applicant.internal_notes,
+    applicant_feedback: applicant.applicant_feedback,
+    reviewed_at: applicant.reviewed_at,
+    reviewed_by: applicant.reviewed_by,
+    status_history: applicant.status_history || [],
+  },
+});
+
+export async function applyReviewDecision(
+  decision: ReviewDecision,
+  context: ReviewContext
+): Promise<ReviewDecisionResult> {
+  const applicant = await findReviewable(decision.email);
+  if ("ok" in applicant) return applicant;
+
+  const previousStatus = applicant.application_status || "pending";
+  const before = reviewSnapshot(applicant);
+
+  if (decision.status) {
+    const now = new Date();
+    applicant.application_status = decision.status;
+    applicant.reviewed_at = now.toISOString();
+    applicant.reviewed_by = context.reviewer;
+    applicant.status_history.push({
+      from: previousStatus,
+      to: decision.status,
+      actor: context.reviewer,
+      notes: decision.internalNotes?.trim() || undefined,
+      timestamp: now,
+    });
+  }
+  // Leaving a note out keeps the current one; an empty string clears it
+  if (decision.internalNotes !== undefined) {
+    applicant.internal_notes = decision.internalNotes.trim() || undefined;
+  }
+  if (decision.applicantFeedback !== undefined) {
+    applicant.applicant_feedback =
+      decision.applicantFeedback.trim() || undefined;
+  }
+
+  await applicant.save();
+
+  console.log(
+    decision.status
+      ? `Application status updated: ${applicant.email} - ${previousStatus} → ${decision.status} (by ${context.reviewer})`
+      : `Review notes updated: ${applicant.email} (by ${context.reviewer})`
+  );
+  await recordAuditEvent({
+    actor: { type: "admin", id: context.reviewer },
+    action: decision.status
+      ? "application.status_changed"
+      : "application.notes_updated",
+    target: { type: "applicant", id: applicant.email },
+    source: context.source,
+    before,
+    after: reviewSnapshot(applicant),
+    reason: decision.internalNotes || undefined,
+    metadata: context.metadata,
+  });
+
+  return reviewResult(applicant, previousStatus);
+}
+
+/**
+ * Undo the most recent decision still in effect: the status goes back to
+ * what it was before, and reviewed_at/reviewed_by to the decision before
+ * that. The entry stays in the history, marked undone, so undoing again
+ * steps further back. Notes and feedback are left alone.
+ */
+export async function undoLastDecision(
+  email: string,
+  context: ReviewContext
+): Promise<ReviewDecisionResult> {
+  const applicant = await findReviewable(email);
+  if ("ok" in applicant) return applicant;
+
+  const history = applicant.status_history;
+  const active = history.filter((entry) => !entry.undone_at);
+  const last = active[active.length - 1];
+  if (!last) {
+    return {
+      ok: false,
+      error: "nothing_to_undo",
+      message: "No decision to undo",
+    };
+  }
+
+  // Changed some other way since (e.g. query_db) - don't guess
+  const previousStatus = applicant.application_status || "pending";
+  if (previousStatus !== last.to) {
+    return {
+      ok: false,
+      error: "conflict",
+      message: `Status is ${previousStatus}, but the last decision set it to ${last.to}`,
+    };
+  }
+
+  const before = reviewSnapshot(applicant);
+  const earlier = active[active.length - 2];
+
+  last.undone_at = new Date();
+  last.undone_by = context.reviewer;
+  applicant.application_status = last.from;
+  applicant.reviewed_at = earlier?.timestamp.toISOString();
+  applicant.reviewed_by = earlier?.actor;
+
+  await applicant.save();
+
+  console.log(
+    `Application decision undone: ${applicant.email} - ${last.to} → ${last.from} (by ${context.reviewer})`
+  );
+  await recordAuditEvent({
+    actor: { type: "admin", id: context.reviewer },
+    action: "application.decision_undone",
+    target: { type: "applicant", id: applicant.email },
+    source: context.source,
+    before,
+    after: reviewSnapshot(applicant),
+    metadata: {
+      ...context.metadata,
+      undone_decision: {
+        from: last.from,
+        to: last.to,
+        actor: last.actor,
+        timestamp: last.timestamp,
+      },
+    },
+  });
+
+  return reviewResult(applicant, previousStatus);
+}
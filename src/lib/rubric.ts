@@ -0,0 +1,369 @@
+import type {
+  IApplicant,
+  IRubricProposal,
+  IRubricScore,
+  IRubricScorecard,
+} from "@/lib/models/applicant";
+import RubricCriterion from "@/lib/models/rubric-criterion";
+import { recordAuditEvent } from "@/lib/audit";
+import {
+  findReviewable,
+  type ReviewContext,
+  type ReviewFailure,
+} from "@/lib/review-decisions";
+
+/**
+ * Review Rubric
+ *
+ * Structured scoring next to the free-text review. Owners configure the
+ * criteria (RubricCriterion); each reviewer scores an applicant 1-5 per
+ * criterion, stored as their own scorecard on the applicant, and
+ * rubric_score keeps the aggregate so the list can sort by it in MongoDB.
+ *
+ * The admin assistant can propose scores, but every proposed score has to
+ * quote the applicant's own words - quotes are checked against the stored
+ * answers. A proposal is only a suggestion until a reviewer accepts or
+ * adjusts it as their scorecard.
+ */
+
+export const MIN_RUBRIC_SCORE = 1;
+export const MAX_RUBRIC_SCORE = 5;
+
+// Applicant fields a criterion can be judged from (plus answers.<key>)
+export const RUBRIC_SOURCE_FIELDS = [
+  "engineering_area",
+  "skill_level",
+  "improvement_goals",
+  "career_goals",
+  "github",
+  "linkedin",
+  "portfolio",
+  "projects",
+  "time_commitment",
+  "learning_style",
+  "tech_focus",
+  "success_definition",
+];
+
+export interface RubricCriterionItem {
+  key: string;
+  label: string;
+  description: string;
+  source_fields: string[];
+}
+
+// Seeded the first time the rubric is read
+export const DEFAULT_RUBRIC_CRITERIA: RubricCriterionItem[] = [
+  {
+    key: "commitment",
+    label: "commitment",
+    description:
+      "1: vague or barely any time. 5: specific, realistic weekly hours they can keep up.",
+    source_fields: ["time_commitment"],
+  },
+  {
+    key: "building",
+    label: "evidence of building",
+    description:
+      "1: nothing they've made. 5: shipped projects or an active github with their own work.",
+    source_fields: ["projects", "github", "portfolio"],
+  },
+  {
+    key: "goal_clarity",
+    label: "goal clarity",
+    description:
+      "1: no idea what they want out of it. 5: concrete goals and a clear picture of success.",
+    source_fields: ["career_goals", "success_definition", "improvement_goals"],
+  },
+  {
+    key: "learning_attitude",
+    label: "learning attitude",
+    description:
+      "1: wants answers handed over. 5: curious, self-driven, open to feedback.",
+    source_fields: ["learning_style", "improvement_goals"],
+  },
+];
+
+export type RubricResult =
+  | {
+      ok: true;
+      rubric: {
+        email: string;
+        name?: string;
+        rubric_scores: IRubricScorecard[];
+        rubric_score?: number;
+        rubric_proposal?: IRubricProposal;
+      };
+    }
+  | ReviewFailure
+  | { ok: false; error: "invalid"; message: string };
+
+const invalid = (message: string): RubricResult => ({
+  ok: false,
+  error: "invalid",
+  message,
+});
+
+/**
+ * Rubric criteria in order, active only unless asked. An empty collection
+ * is seeded with DEFAULT_RUBRIC_CRITERIA; criteria are deactivated rather
+ * than deleted so stored scores keep their labels.
+ */
+export async function getRubricCriteria(
+  options: { includeInactive?: boolean } = {}
+) {
+  if (!(await RubricCriterion.exists({}))) {
+    try {
+      await RubricCriterion.insertMany(
+        DEFAULT_RUBRIC_CRITERIA.map((criterion, order) => ({
+          ...criterion,
+          order,
+        })),
+        { ordered: false }
+      );
+      console.log("Seeded default rubric criteria");
+    } catch (error) {
+      // Another request seeded them first
+      if ((error as { code?: number }).code !== 11000) throw error;
+    }
+  }
+
+  return RubricCriterion.find(options.includeInactive ? {} : { active: true })
+    .sort({ order: 1, created_at: 1 })
+    .lean();
+}
+
+const average = (values: number[]) =>
+  values.reduce((sum, value) => sum + value, 0) / values.length;
+
+// Mean of each reviewer's average score, to two decimals
+export function aggregateRubricScore(
+  scorecards: Pick<IRubricScorecard, "scores">[]
+): number | undefined {
+  const averages = scorecards
+    .filter((card) => card.scores.length > 0)
+    .map((card) => average(card.scores.map((s) => s.score)));
+  if (averages.length === 0) return undefined;
+  return Math.round(average(averages) * 100) / 100;
+}
+
+// Each criterion once, known and active, with a whole score from 1 to 5
+function checkScores(
+  scores: { criterion: string; score: number }[],
+  criteria: RubricCriterionItem[]
+): string | null {
+  const seen = new Set<string>();
+  for (const { criterion, score } of scores) {
+    if (!criteria.some((c) => c.key === criterion)) {
+      return `unknown criterion "${criterion}" - use one of: ${criteria
+        .map((c) => c.key)
+        .join(", ")}`;
+    }
+    if (seen.has(criterion)) return `"${criterion}" is scored twice`;
+    seen.add(criterion);
+    if (
+      !Number.isInteger(score) ||
+      score < MIN_RUBRIC_SCORE ||
+      score > MAX_RUBRIC_SCORE
+    ) {
+      return `score for "${criterion}" must be a whole number from ${MIN_RUBRIC_SCORE} to ${MAX_RUBRIC_SCORE}`;
+    }
+  }
+  return null;
+}
+
+const normalizeText = (text: string) =>
+  text.toLowerCase().replace(/\s+/g, " ").trim();
+
+/**
+ * The applicant field a quote comes from, or null if it isn't there.
+ * Matching ignores case and whitespace; `preferred` fields are tried first.
+ */
+export function findQuoteSource(
+  applicant: Pick<IApplicant, "answers"> & Record<string, unknown>,
+  quote: string,
+  preferred: string[] = []
+): string | null {
+  const needle = normalizeText(quote.replace(/^["'“]+|["'”]+$/g, ""));
+  if (needle.length < 3) return null;
+
+  const sources: [string, unknown][] = [
+    ...RUBRIC_SOURCE_FIELDS.map((field): [string, unknown] => [
+      field,
+      applicant[field],
+    ]),
+    ...Object.entries(applicant.answers || {}).map(
+      ([key, value]): [string, unknown] => [`answers.${key}`, value]
+    ),
+  ].sort(
+    ([a], [b]) => Number(preferred.includes(b)) - Number(preferred.includes(a))
+  );
+
+  const match = sources.find(
+    ([, value]) =>
+      typeof value === "string" && normalizeText(value).includes(needle)
+  );
+  return match ? match[0] : null;
+}
+
+const rubricResult = (applicant: IApplicant): RubricResult => ({
+  ok: true,
+  rubric: {
+    email: applicant.email,
+    name: applicant.name,
+    rubric_scores: applicant.rubric_scores,
+    rubric_score: applicant.rubric_score,
+    rubric_proposal: applicant.rubric_proposal,
+  },
+});
+
+/**
+ * Save the reviewer's scorecard, replacing any earlier one of theirs, and
+ * refresh the aggregate. An empty list removes their scorecard.
+ */
+export async function saveRubricScores(
+  email: string,
+  scores: IRubricScore[],
+  context: ReviewContext & { fromProposal?: boolean }
+): Promise<RubricResult> {
+  const criteria = await getRubricCriteria();
+  const error = checkScores(scores, criteria);
+  if (error) return invalid(error);
+
+  const applicant = await findReviewable(email);
+  if ("ok" in applicant) return applicant;
+
+  const before = {
+    rubric_scores: applicant.rubric_scores,
+    rubric_score: applicant.rubric_score,
+  };
+
+  const others = applicant.rubric_scores.filter(
+    (card) => card.reviewer !== context.reviewer
+  );
+  applicant.rubric_scores =
+    scores.length > 0
+      ? [
+          ...others,
+          {
+            reviewer: context.reviewer,
+            scores: scores.map((s) => ({
+              criterion: s.criterion,
+              score: s.score,
+              note: s.note?.trim().slice(0, 500) || undefined,
+            })),
+            from_proposal: !!context.fromProposal,
+            scored_at: new Date(),
+          },
+        ]
+      : others;
+  applicant.rubric_score = aggregateRubricScore(applicant.rubric_scores);
+
+  await applicant.save();
+
+  // Which proposed scores the reviewer changed, if they started from one
+  const adjusted = context.fromProposal
+    ? (applicant.rubric_proposal?.scores || [])
+        .filter(
+          (p) =>
+            scores.find((s) => s.criterion === p.criterion)?.score !== p.score
+        )
+        .map((p) => p.criterion)
+    : undefined;
+
+  console.log(
+    `Rubric scored: ${applicant.email} by ${context.reviewer} (aggregate ${
+      applicant.rubric_score ?? "none"
+    })`
+  );
+  await recordAuditEvent({
+    actor: { type: "admin", id: context.reviewer },
+    action: "application.rubric_scored",
+    target: { type: "applicant", id: applicant.email },
+    source: context.source,
+    before,
+    after: {
+      rubric_scores: applicant.rubric_scores,
+      rubric_score: applicant.rubric_score,
+    },
+    metadata: {
+      ...context.metadata,
+      ...(adjusted && { from_proposal: true, adjusted }),
+    },
+  });
+
+  return rubricResult(applicant);
+}
+
+/**
+ * Store the admin assistant's proposed scores for a reviewer to accept or
+ * adjust. Refused unless every score quotes the applicant verbatim.
+ */
+export async function saveRubricProposal(
+  email: string,
+  proposed: {
+    criterion: string;
+    score: number;
+    quote: string;
+    justification: string;
+  }[],
+  context: ReviewContext
+): Promise<RubricResult> {
+  if (proposed.length === 0) return invalid("propose at least one score");
+
+  const criteria = await getRubricCriteria();
+  const error = checkScores(proposed, criteria);
+  if (error) return invalid(error);
+
+  const applicant = await findReviewable(email);
+  if ("ok" in applicant) return applicant;
+
+  const profile = applicant.toObject() as IApplicant & Record<string, unknown>;
+  const scores = [];
+  for (const p of proposed) {
+    if (!p.justification?.trim()) {
+      return invalid(`justify the score for "${p.criterion}"`);
+    }
+    const criterion = criteria.find((c) => c.key === p.criterion)!;
+    const source = findQuoteSource(
+      profile,
+      p.quote || "",
+      criterion.source_fields
+    );
+    if (!source) {
+      return invalid(
+        `the quote for "${p.criterion}" isn't in the applicant's answers - quote their exact words`
+      );
+    }
+    scores.push({
+      criterion: p.criterion,
+      score: p.score,
+      quote: p.quote.trim(),
+      source_field: source,
+      justification: p.justification.trim(),
+    });
+  }
+
+  const before = { rubric_proposal: applicant.rubric_proposal };
+  applicant.rubric_proposal = {
+    requested_by: context.reviewer,
+    scores,
+    created_at: new Date(),
+  };
+  await applicant.save();
+
+  console.log(
+    `Rubric proposed: ${applicant.email} (${scores.length} criteria, for ${context.reviewer})`
+  );
+  await recordAuditEvent({
+    actor: { type: "admin", id: context.reviewer },
+    action: "application.rubric_proposed",
+    target: { type: "applicant", id: applicant.email },
+    source: context.source,
+    before,
+    after: { rubric_proposal: applicant.rubric_proposal },
+    metadata: context.metadata,
+  });
+
+  return rubricResult(applicant);
+}
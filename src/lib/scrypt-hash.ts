@@ -0,0 +1,78 @@
+import crypto from "crypto";
+import { promisify } from "util";
+
+/**
+ * Salted scrypt hashes for secret phrases and admin passwords, in one
+ * versioned PHC-style format:
+ *
+ *   $scrypt$v=1$N=16384,r=8,p=1$<salt base64>$<hash base64>
+ *
+ * Bump the version when the parameters change so old hashes still verify.
+ * Callers normalize their input first (secret phrases are case-insensitive,
+ * passwords aren't).
+ */
+
+const scrypt = promisify(crypto.scrypt) as (
+  password: crypto.BinaryLike,
+  salt: crypto.BinaryLike,
+  keylen: number,
+  options: crypto.ScryptOptions
+) => Promise<Buffer>;
+
+const HASH_VERSION = 1;
+const SCRYPT_PARAMS = { N: 16384, r: 8, p: 1 };
+const KEY_LENGTH = 32;
+const SALT_LENGTH = 16;
+const MAX_MEMORY = 64 * 1024 * 1024;
+
+const HASH_PATTERN =
+  /^\$scrypt\$v=(\d+)\$N=(\d+),r=(\d+),p=(\d+)\$([A-Za-z0-9+/=]+)\$([A-Za-z0-9+/=]+)$/;
+
+export async function hashScrypt(secret: string): Promise<string> {
+  const salt = crypto.randomBytes(SALT_LENGTH);
+  const key = await scrypt(secret, salt, KEY_LENGTH, {
+    ...SCRYPT_PARAMS,
+    maxmem: MAX_MEMORY,
+  });
+  const { N, r, p } = SCRYPT_PARAMS;
+  return `$scrypt$v=${HASH_VERSION}$N=${N},r=${r},p=${p}$${salt.toString(
+    "base64"
+  )}$${key.toString("base64")}`;
+}
+
+/**
+ * Check a secret against a stored hash in constant time. Returns null when
+ * the stored value isn't in this format. `needsRehash` is set when the secret
+ * matched but the hash was made with an older version or parameters.
+ */
+export async function verifyScrypt(
+  secret: string,
+  stored: string
+): Promise<{ valid: boolean; needsRehash: boolean } | null> {
+  const match = stored.match(HASH_PATTERN);
+  if (!match) return null;
+
+  const [, version, N, r, p, salt, hash] = match;
+  const expected = Buffer.from(hash, "base64");
+  const key = await scrypt(
+    secret,
+    Buffer.from(salt, "base64"),
+    expected.length,
+    {
+      N: Number(N),
+      r: Number(r),
+      p: Number(p),
+      maxmem: MAX_MEMORY,
+    }
+  );
+
+  const valid =
+    key.length === expected.length && crypto.timingSafeEqual(key, expected);
+  const outdated =
+    Number(version) !== HASH_VERSION ||
+    Number(N) !== SCRYPT_PARAMS.N ||
+    Number(r) !== SCRYPT_PARAMS.r ||
+    Number(p) !== SCRYPT_PARAMS.p;
+
+  return { valid, needsRehash: valid && outdated };
+}